@@ -2,6 +2,16 @@ import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // pdfkit reads its font metrics from disk at runtime and pdf-parse loads the
+  // pdf.js worker from its own package directory, so neither can be bundled.
+  // typescript is only used to transpile solutions for the code runner, and sql.js
+  // is loaded by the SQL runner's worker thread and reads its wasm file from disk.
+  serverExternalPackages: ['pdfkit', 'pdf-parse', 'typescript', 'sql.js'],
+  // The prompt templates are read from src/ai/prompts and the PDF fonts from their
+  // package at runtime, so they must ship with the server.
+  outputFileTracingIncludes: {
+    '/**': ['./src/ai/prompts/**/*', './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+  },
   typescript: {
     ignoreBuildErrors: true,
   },
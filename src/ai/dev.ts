@@ -2,6 +2,12 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/identify-potential-projects.ts';
-import '@/ai/flows/review-resume-skills.ts';
+import '@/ai/flows/review-candidate-profile.ts';
 import '@/ai/flows/summarize-jd.ts';
-import '@/ai/flows/generate-initial-questions.ts';
\ No newline at end of file
+import '@/ai/flows/generate-initial-questions.ts';
+import '@/ai/flows/customize-interview-kit.ts';
+import '@/ai/flows/regenerate-question.ts';
+import '@/ai/flows/generate-behavioral-questions.ts';
+import '@/ai/flows/verify-sql-answer.ts';
+import '@/ai/flows/review-model-answers.ts';
+import '@/ai/flows/fill-requirement-gaps.ts';
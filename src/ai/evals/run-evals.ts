@@ -0,0 +1,140 @@
+import 'dotenv/config';
+
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { generateInterviewKit } from '@/ai/flows/generate-interview-kit';
+import { KitSettingsSchema } from '@/ai/schemas/interview-kit';
+import { modelFor } from '@/ai/models';
+import { listenToPromptOutputs } from '@/ai/versioned-prompt';
+import { evaluateKit, formatEvalReport, type EvalCaseResult, type EvalRun } from '@/lib/kit-eval';
+
+/**
+ * Runs the golden JDs in ./corpus through generateInterviewKit, scores each kit
+ * with the metrics of src/lib/kit-eval.ts and saves the run, so prompt changes
+ * can be compared on the same corpus instead of judged from a single kit. The
+ * generation prompt's raw output is scored too, next to the finished kit, since
+ * the flow's post-processing (the question plan, duplicate replacement, review)
+ * can make up for a worse prompt.
+ *
+ *   npm run eval -- --label baseline
+ *   npm run eval -- --label shorter-rules --baseline baseline
+ *   npm run eval -- compare baseline shorter-rules
+ *
+ * Runs are saved as <label>.json and reported as <label>.md in EVAL_DIR
+ * (default .data/evals). --case limits a run to the named cases. To compare
+ * prompt versions, pin one per run with PROMPT_VERSION_GENERATE_INTERVIEW_KIT.
+ */
+
+const EvalCaseSchema = z.object({
+  name: z.string(),
+  jobDescription: z.string(),
+  candidateResumeText: z.string().optional(),
+  settings: KitSettingsSchema,
+  jdTerms: z.array(z.string()).describe('Skills and tools of the JD that a good kit asks about.'),
+});
+
+type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+const CORPUS_DIR = path.join(__dirname, 'corpus');
+const EVAL_DIR = process.env.EVAL_DIR || '.data/evals';
+
+function loadCorpus(names: string[]): EvalCase[] {
+  const cases = readdirSync(CORPUS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const parsed = EvalCaseSchema.safeParse(JSON.parse(readFileSync(path.join(CORPUS_DIR, file), 'utf8')));
+      if (!parsed.success) {
+        throw new Error(`Invalid eval case ${file}: ${parsed.error.message}`);
+      }
+      return parsed.data;
+    });
+  const unknown = names.filter(name => !cases.some(c => c.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown eval cases: ${unknown.join(', ')}. Available: ${cases.map(c => c.name).join(', ')}.`);
+  }
+  return names.length > 0 ? cases.filter(c => names.includes(c.name)) : cases;
+}
+
+const runPath = (label: string, extension: 'json' | 'md') => path.join(EVAL_DIR, `${label}.${extension}`);
+
+function loadRun(label: string): EvalRun {
+  try {
+    return JSON.parse(readFileSync(runPath(label, 'json'), 'utf8')) as EvalRun;
+  } catch (error) {
+    throw new Error(`Could not read the eval run "${label}" from ${runPath(label, 'json')}: ${error}`);
+  }
+}
+
+// Cases run one after another: a kit is many model calls already, and parallel runs would hit rate limits.
+async function runCases(label: string, cases: EvalCase[]): Promise<EvalRun> {
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of cases) {
+    console.log(`[${results.length + 1}/${cases.length}] ${evalCase.name}`);
+    const started = Date.now();
+    const expected = { questionCount: evalCase.settings.questionCount, jdTerms: evalCase.jdTerms };
+    let promptOutput: Parameters<typeof evaluateKit>[0] | undefined;
+    const stopListening = listenToPromptOutputs((name, { output }) => {
+      if (name === 'generateInterviewKit' && output?.competencies) promptOutput = output;
+    });
+    try {
+      const kit = await generateInterviewKit({
+        jobDescription: evalCase.jobDescription,
+        unstopProfileLink: 'https://unstop.com/eval-candidate',
+        candidateResumeText: evalCase.candidateResumeText,
+        settings: evalCase.settings,
+      });
+      results.push({
+        name: evalCase.name,
+        durationMs: Date.now() - started,
+        promptVersions: kit.promptVersions,
+        metrics: evaluateKit(kit, expected),
+        promptMetrics: promptOutput && evaluateKit(promptOutput, expected),
+      });
+    } catch (error) {
+      console.error(`Failed to generate the kit for ${evalCase.name}:`, error);
+      results.push({ name: evalCase.name, durationMs: Date.now() - started, error: String(error) });
+    } finally {
+      stopListening();
+    }
+  }
+  return { label, createdAt: new Date().toISOString(), model: modelFor('generateInterviewKit'), cases: results };
+}
+
+function saveReport(name: string, report: string) {
+  mkdirSync(EVAL_DIR, { recursive: true });
+  writeFileSync(runPath(name, 'md'), report);
+  console.log(`\n${report}\nReport saved to ${runPath(name, 'md')}`);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    options: {
+      label: { type: 'string' },
+      baseline: { type: 'string' },
+      case: { type: 'string', multiple: true, default: [] },
+    },
+    allowPositionals: true,
+  });
+
+  if (positionals[0] === 'compare') {
+    const [, base, candidate] = positionals;
+    if (!base || !candidate) throw new Error('Usage: npm run eval -- compare <baseline label> <candidate label>');
+    saveReport(`${base}-vs-${candidate}`, formatEvalReport(loadRun(candidate), loadRun(base)));
+    return;
+  }
+
+  const label = values.label ?? `run-${new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')}`;
+  const base = values.baseline ? loadRun(values.baseline) : undefined;
+  const run = await runCases(label, loadCorpus(values.case));
+  mkdirSync(EVAL_DIR, { recursive: true });
+  writeFileSync(runPath(label, 'json'), `${JSON.stringify(run, null, 2)}\n`);
+  saveReport(label, formatEvalReport(run, base));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
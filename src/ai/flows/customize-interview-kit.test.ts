@@ -0,0 +1,106 @@
+import { clearFixtures, useFixtures } from '@/ai/testing';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { customizeInterviewKit, type CustomizeInterviewKitInput } from '@/ai/flows/customize-interview-kit';
+
+const point = (text: string) => ({ type: 'point' as const, text, weight: 3 });
+
+const input: CustomizeInterviewKitInput = {
+  jobDescription: 'Backend engineer. Must know PostgreSQL query tuning and Kafka consumers.',
+  unstopProfileLink: 'https://unstop.com/u/candidate',
+  competencies: [
+    {
+      id: 'c-db',
+      name: 'Databases',
+      description: 'Relational data stores.',
+      questions: [
+        { id: 'q-index', question: 'Why would PostgreSQL ignore an index on a filtered column?', modelAnswer: [point('Low selectivity.')] },
+        { id: 'q-edited', question: 'My own question about VACUUM and table bloat?', modelAnswer: [point('My own answer.')] },
+        { id: 'q-locks', question: 'How do row-level locks behave under SELECT FOR UPDATE?', modelAnswer: [point('They block writers.')] },
+      ],
+    },
+    {
+      id: 'c-stream',
+      name: 'Streaming',
+      description: 'Event processing with Kafka.',
+      questions: [
+        { id: 'q-kafka', question: 'My own question about Kafka consumer lag?', modelAnswer: [point('My own lag answer.')] },
+      ],
+    },
+  ],
+  scoringRubric: [{ id: 'r-depth', criterion: 'Technical Depth', description: 'Goes beyond definitions.', weight: 1 }],
+  editedQuestionIds: ['q-edited', 'q-kafka'],
+};
+
+const rubric = [{ id: 'r-depth', criterion: 'Technical Depth', description: 'Goes beyond definitions.', weight: 1 }];
+
+describe('customizeInterviewKit', () => {
+  afterEach(clearFixtures);
+
+  it('keeps the text of an edited question the model rewrote', async () => {
+    useFixtures('customizeInterviewKit', {
+      '*': {
+        competencies: [
+          { ...input.competencies[0], questions: input.competencies[0].questions.map(q => ({ ...q, question: `Refined: ${q.question}` })) },
+          input.competencies[1],
+        ],
+        scoringRubric: rubric,
+      },
+    });
+
+    const result = await customizeInterviewKit(input);
+
+    assert.deepEqual(result.competencies[0].questions.map(q => q.question), [
+      'Refined: Why would PostgreSQL ignore an index on a filtered column?',
+      'My own question about VACUUM and table bloat?',
+      'Refined: How do row-level locks behave under SELECT FOR UPDATE?',
+    ]);
+  });
+
+  it('puts back an edited question the model dropped, at its place in its competency', async () => {
+    useFixtures('customizeInterviewKit', {
+      '*': {
+        competencies: [
+          { ...input.competencies[0], questions: [input.competencies[0].questions[0], input.competencies[0].questions[2]] },
+          input.competencies[1],
+        ],
+        scoringRubric: rubric,
+      },
+    });
+
+    const result = await customizeInterviewKit(input);
+
+    assert.deepEqual(result.competencies[0].questions.map(q => q.id), ['q-index', 'q-edited', 'q-locks']);
+    assert.deepEqual(result.competencies[0].questions[1].modelAnswer, [point('My own answer.')]);
+  });
+
+  it('puts back an edited question returned under another id, and its competency if that was dropped', async () => {
+    useFixtures('customizeInterviewKit', {
+      '*': {
+        competencies: [
+          {
+            ...input.competencies[0],
+            questions: input.competencies[0].questions.map(q => (q.id === 'q-edited' ? { ...q, id: 'renamed' } : q)),
+          },
+        ],
+        scoringRubric: rubric,
+      },
+    });
+
+    const result = await customizeInterviewKit(input);
+
+    const ids = result.competencies.flatMap(c => c.questions.map(q => q.id));
+    assert.ok(ids.includes('q-edited'));
+    assert.equal(ids.filter(id => id === 'q-edited').length, 1);
+    assert.deepEqual(result.competencies.map(c => c.id), ['c-db', 'c-stream']);
+    assert.deepEqual(result.competencies[1].questions.map(q => q.question), ['My own question about Kafka consumer lag?']);
+  });
+
+  it('records the version of the refinement prompt', async () => {
+    useFixtures('customizeInterviewKit', { '*': { competencies: input.competencies, scoringRubric: rubric } });
+
+    const result = await customizeInterviewKit(input);
+
+    assert.deepEqual(result.promptVersions, { customizeInterviewKit: 'v1' });
+  });
+});
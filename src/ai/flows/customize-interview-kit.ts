@@ -0,0 +1,179 @@
+'use server';
+
+/**
+ * @fileOverview Refines an existing, possibly user-edited, interview kit.
+ *
+ * - customizeInterviewKit - A function that handles the interview kit refinement process.
+ * - CustomizeInterviewKitInput - The input type for the customizeInterviewKit function.
+ * - CustomizeInterviewKitOutput - The return type for the customizeInterviewKit function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { collectPromptVersions, defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { CompetencySchema, InterviewKitSchema, QuestionAnswerPairSchema, ScoringCriterionSchema } from '@/ai/schemas/interview-kit';
+import {
+  modelAnswerToText,
+  normalizeCodingExercise,
+  normalizeModelAnswer,
+  normalizePartialCreditScale,
+  normalizeRubricWeights,
+  normalizeSqlExercise,
+  sqlAnswerQuery,
+} from '@/lib/interview-kit';
+import { resolveResumeContext } from '@/lib/resume-extraction';
+import { verifySqlQuestion } from '@/ai/flows/verify-sql-answer';
+
+const CustomizeInterviewKitInputSchema = z.object({
+  jobDescription: z.string().describe('The job description the kit was generated for.'),
+  unstopProfileLink: z.string().describe("The candidate's Unstop profile link."),
+  candidateResumeDataUri: z.string().optional().describe("The candidate's resume as a data URI, if one was provided."),
+  candidateResumeFileName: z.string().optional().describe("The filename of the resume, for context."),
+  candidateResumeText: z.string().optional().describe("The candidate's resume as plain text. When omitted, it is extracted from candidateResumeDataUri."),
+  candidateExperienceContext: z.string().optional().describe("Optional brief context about the candidate's experience level."),
+  competencies: z.array(CompetencySchema).describe('The current competencies and questions of the kit, including any user edits.'),
+  scoringRubric: z.array(ScoringCriterionSchema).describe('The current scoring rubric of the kit, including any user edits.'),
+  editedQuestionIds: z.array(z.string()).optional().describe('Ids of questions the user edited by hand. Their question text and model answer must be kept verbatim.'),
+});
+
+export type CustomizeInterviewKitInput = z.infer<typeof CustomizeInterviewKitInputSchema>;
+
+// The refined competencies and rubric, with every id filled in, so they can replace those of the open kit as they are.
+const CustomizeInterviewKitOutputSchema = z.object({
+  competencies: z.array(CompetencySchema.extend({
+    id: z.string(),
+    questions: z.array(QuestionAnswerPairSchema.extend({id: z.string()})),
+  })),
+  scoringRubric: z.array(ScoringCriterionSchema.extend({id: z.string()})),
+  promptVersions: InterviewKitSchema.shape.promptVersions,
+});
+export type CustomizeInterviewKitOutput = z.infer<typeof CustomizeInterviewKitOutputSchema>;
+
+export async function customizeInterviewKit(input: CustomizeInterviewKitInput): Promise<CustomizeInterviewKitOutput> {
+  return customizeInterviewKitFlow(input);
+}
+
+const customizeInterviewKitPrompt = defineVersionedPrompt({
+  name: 'customizeInterviewKit',
+  flow: 'customizeInterviewKit',
+  input: {schema: CustomizeInterviewKitInputSchema.extend({currentKitJson: z.string()})},
+  output: {schema: InterviewKitSchema.omit({projectDeepDive: true, behavioral: true, requirements: true, promptVersions: true})},
+});
+
+// Kept apart from the flow so the flow can collect the version of every prompt the refinement calls.
+async function refineInterviewKit(input: CustomizeInterviewKitInput): Promise<CustomizeInterviewKitOutput> {
+  const currentKitJson = JSON.stringify({
+    competencies: input.competencies,
+    scoringRubric: input.scoringRubric,
+  }, null, 2);
+
+  const resumeContext = await resolveResumeContext(input);
+  const {output} = await customizeInterviewKitPrompt({...input, ...resumeContext, currentKitJson});
+  if (!output || !output.competencies) {
+    throw new Error("AI failed to refine the interview kit.");
+  }
+
+  // Index the user's kit so ids can be carried over and manual edits restored verbatim.
+  const originalQuestions = new Map(
+    input.competencies.flatMap(c => c.questions).filter(q => q.id).map(q => [q.id!, q])
+  );
+  const editedIds = new Set(input.editedQuestionIds ?? []);
+  const knownIds = new Set([
+    ...input.competencies.map(c => c.id),
+    ...originalQuestions.keys(),
+    ...input.scoringRubric.map(r => r.id),
+  ].filter((id): id is string => !!id));
+  const usedIds = new Set<string>();
+
+  const keepId = (id: string | undefined) => {
+    if (id && knownIds.has(id) && !usedIds.has(id)) {
+      usedIds.add(id);
+      return id;
+    }
+    return randomUUID();
+  };
+
+  const refinedOutput: CustomizeInterviewKitOutput = {
+    competencies: output.competencies.map(c => ({
+      id: keepId(c.id),
+      name: c.name || "Unnamed competency",
+      description: c.description || "",
+      questions: (c.questions || []).map(q => {
+        const id = keepId(q.id);
+        const original = originalQuestions.get(id);
+        if (original && editedIds.has(id)) {
+          return { ...original, id };
+        }
+        const question = q.question || original?.question || "Missing question text";
+        const modelAnswer = q.modelAnswer?.length ? normalizeModelAnswer(q.modelAnswer) : normalizeModelAnswer(original?.modelAnswer);
+        // A review only still applies if the refinement left the question and answer as they were.
+        const unchanged = !!original && question === original.question
+          && modelAnswerToText(modelAnswer) === modelAnswerToText(original.modelAnswer);
+        return {
+          ...original,
+          ...q,
+          id,
+          question,
+          modelAnswer,
+          difficulty: q.difficulty ?? original?.difficulty,
+          type: q.type ?? original?.type,
+          partialCreditScale: normalizePartialCreditScale(q.partialCreditScale) ?? original?.partialCreditScale,
+          codingExercise: normalizeCodingExercise(q.codingExercise) ?? original?.codingExercise,
+          sqlExercise: normalizeSqlExercise(q.sqlExercise) ?? original?.sqlExercise,
+          review: unchanged ? original.review : undefined,
+          // The refinement does not see the JD requirements, so a question stays linked to the ones it was generated for.
+          requirementIds: original?.requirementIds,
+        };
+      }),
+    })),
+    scoringRubric: normalizeRubricWeights(output.scoringRubric || []).map(r => ({
+      ...r,
+      id: keepId(r.id),
+      criterion: r.criterion || "Unnamed criterion",
+      description: r.description || "",
+    })),
+  };
+
+  // The model may drop an edited question, or return it under another id, so any edit it did not return is put back where it was.
+  const returnedIds = new Set(refinedOutput.competencies.flatMap(c => c.questions.map(q => q.id)));
+  input.competencies.forEach(original => {
+    const missing = original.questions
+      .map((question, index) => ({question, index}))
+      .filter(({question}) => question.id && editedIds.has(question.id) && !returnedIds.has(question.id));
+    if (missing.length === 0) return;
+    let competency = refinedOutput.competencies.find(c => c.id === original.id);
+    if (!competency) {
+      competency = {id: keepId(original.id), name: original.name, description: original.description, questions: []};
+      refinedOutput.competencies.push(competency);
+    }
+    const questions = competency.questions;
+    missing.forEach(({question, index}) => questions.splice(Math.min(index, questions.length), 0, {...question, id: question.id!}));
+  });
+
+  // Only SQL answers the refinement changed need to be run against their sample data again.
+  const sqlChanged = (q: CustomizeInterviewKitOutput['competencies'][number]['questions'][number]) => {
+    const original = originalQuestions.get(q.id);
+    return !original
+      || sqlAnswerQuery(q.modelAnswer) !== sqlAnswerQuery(original.modelAnswer)
+      || q.sqlExercise?.setupSql !== original.sqlExercise?.setupSql;
+  };
+  refinedOutput.competencies = await Promise.all(refinedOutput.competencies.map(async c => ({
+    ...c,
+    questions: await Promise.all(c.questions.map(q => (sqlChanged(q) ? verifySqlQuestion(q) : {...q, sqlExercise: originalQuestions.get(q.id)?.sqlExercise}))),
+  })));
+
+  return refinedOutput;
+}
+
+const customizeInterviewKitFlow = ai.defineFlow(
+  {
+    name: 'customizeInterviewKitFlow',
+    inputSchema: CustomizeInterviewKitInputSchema,
+    outputSchema: CustomizeInterviewKitOutputSchema,
+  },
+  async input => {
+    const {result, promptVersions} = await collectPromptVersions(() => refineInterviewKit(input));
+    return {...result, promptVersions};
+  }
+);
@@ -0,0 +1,103 @@
+'use server';
+
+/**
+ * @fileOverview Writes questions for JD requirements that no question of a kit covers yet.
+ *
+ * - fillRequirementGaps - A function that generates one question per uncovered requirement, placed in an existing competency.
+ * - FillRequirementGapsInput - The input type for the fillRequirementGaps function.
+ * - FillRequirementGapsOutput - The return type for the fillRequirementGaps function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { collectPromptVersions, defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { JdRequirementSchema, QuestionAnswerPairSchema } from '@/ai/schemas/interview-kit';
+import { verifySqlQuestion } from '@/ai/flows/verify-sql-answer';
+import {
+  normalizeCodingExercise,
+  normalizeModelAnswer,
+  normalizePartialCreditScale,
+  normalizeSqlExercise,
+} from '@/lib/interview-kit';
+
+const FillRequirementGapsInputSchema = z.object({
+  jobDescription: z.string().describe('The job description the kit was generated for.'),
+  requirements: z.array(JdRequirementSchema).describe('The JD requirements that need a question.'),
+  competencies: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    questions: z.array(z.string()),
+  })).describe('The competencies of the kit and their current questions. New questions must not duplicate any of them.'),
+});
+
+export type FillRequirementGapsInput = z.infer<typeof FillRequirementGapsInputSchema>;
+
+const FillRequirementGapsOutputSchema = z.object({
+  questions: z.array(QuestionAnswerPairSchema.omit({review: true}).extend({
+    competencyId: z.string().describe('The id of the competency the question was added to.'),
+  })),
+  promptVersions: z.record(z.string()).describe('The version of every prompt that wrote the questions, by prompt name.'),
+});
+
+export type FillRequirementGapsOutput = z.infer<typeof FillRequirementGapsOutputSchema>;
+
+export async function fillRequirementGaps(input: FillRequirementGapsInput): Promise<FillRequirementGapsOutput> {
+  return fillRequirementGapsFlow(input);
+}
+
+const fillRequirementGapsPrompt = defineVersionedPrompt({
+  name: 'fillRequirementGaps',
+  flow: 'fillRequirementGaps',
+  input: {schema: FillRequirementGapsInputSchema},
+  output: {schema: z.object({
+    questions: z.array(QuestionAnswerPairSchema.omit({id: true, review: true, requirementIds: true}).extend({
+      requirementId: z.string().describe('The id of the requirement the question covers, copied exactly.'),
+      competencyName: z.string().describe('The name of the existing competency this question belongs to, copied exactly.'),
+    })),
+  })},
+});
+
+// Kept apart from the flow so the flow can collect the version of every prompt the questions took.
+async function writeGapQuestions(input: FillRequirementGapsInput): Promise<FillRequirementGapsOutput['questions']> {
+  const {output} = await fillRequirementGapsPrompt(input);
+  if (!output) {
+    throw new Error("AI failed to generate questions for the uncovered requirements.");
+  }
+
+  // Questions for requirements that were not asked for are dropped; an unknown competency falls back to the smallest one.
+  const requirementIds = new Set(input.requirements.map(r => r.id));
+  const smallest = input.competencies.reduce((fewest, c) => (c.questions.length < fewest.questions.length ? c : fewest));
+  const questions = await Promise.all((output.questions || [])
+    .filter(q => q.question && requirementIds.has(q.requirementId))
+    .map(({requirementId, competencyName, ...q}) => {
+      const competency = input.competencies.find(c => c.name.trim().toLowerCase() === competencyName?.trim().toLowerCase()) ?? smallest;
+      return verifySqlQuestion({
+        ...q,
+        id: randomUUID(),
+        competencyId: competency.id,
+        modelAnswer: normalizeModelAnswer(q.modelAnswer),
+        partialCreditScale: normalizePartialCreditScale(q.partialCreditScale),
+        codingExercise: normalizeCodingExercise(q.codingExercise),
+        sqlExercise: normalizeSqlExercise(q.sqlExercise),
+        requirementIds: [requirementId],
+      });
+    }));
+  return questions;
+}
+
+const fillRequirementGapsFlow = ai.defineFlow(
+  {
+    name: 'fillRequirementGapsFlow',
+    inputSchema: FillRequirementGapsInputSchema,
+    outputSchema: FillRequirementGapsOutputSchema,
+  },
+  async input => {
+    if (input.requirements.length === 0 || input.competencies.length === 0) {
+      return { questions: [], promptVersions: {} };
+    }
+    const {result: questions, promptVersions} = await collectPromptVersions(() => writeGapQuestions(input));
+    return { questions, promptVersions };
+  }
+);
@@ -0,0 +1,81 @@
+'use server';
+
+/**
+ * @fileOverview Generates the opt-in behavioral and culture-fit section of an interview kit.
+ *
+ * - generateBehavioralQuestions - A function that generates behavioral questions with STAR evaluation guides.
+ * - GenerateBehavioralQuestionsInput - The input type for the generateBehavioralQuestions function.
+ * - BehavioralQuestion - A single behavioral question with its evaluation guide.
+ */
+
+import { ai } from '@/ai/genkit';
+import { defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { BehavioralQuestionSchema } from '@/ai/schemas/interview-kit';
+import { SeniorityLevelSchema } from '@/ai/schemas/jd-analysis';
+
+const DEFAULT_BEHAVIORAL_QUESTION_COUNT = 5;
+
+const GenerateBehavioralQuestionsInputSchema = z.object({
+  jobDescription: z.string().describe('The job description to derive behavioral competencies from.'),
+  seniorityLevel: SeniorityLevelSchema.optional().describe('The seniority level the role targets, if known.'),
+  questionCount: z.number().int().min(1).max(15).optional().describe('How many behavioral questions to generate. Defaults to 5.'),
+});
+
+export type GenerateBehavioralQuestionsInput = z.infer<typeof GenerateBehavioralQuestionsInputSchema>;
+
+export type BehavioralQuestion = z.infer<typeof BehavioralQuestionSchema>;
+
+const GenerateBehavioralQuestionsOutputSchema = z.object({
+  questions: z.array(BehavioralQuestionSchema),
+});
+
+export async function generateBehavioralQuestions(
+  input: GenerateBehavioralQuestionsInput,
+  options: {abortSignal?: AbortSignal} = {}
+): Promise<BehavioralQuestion[]> {
+  const {result} = await generateBehavioralQuestionsFlow.run(input, {abortSignal: options.abortSignal});
+  return result;
+}
+
+const generateBehavioralQuestionsPrompt = defineVersionedPrompt({
+  name: 'generateBehavioralQuestions',
+  flow: 'generateBehavioralQuestions',
+  input: {schema: GenerateBehavioralQuestionsInputSchema.required({questionCount: true})},
+  output: {schema: GenerateBehavioralQuestionsOutputSchema},
+});
+
+const generateBehavioralQuestionsFlow = ai.defineFlow(
+  {
+    name: 'generateBehavioralQuestionsFlow',
+    inputSchema: GenerateBehavioralQuestionsInputSchema,
+    outputSchema: z.array(BehavioralQuestionSchema),
+  },
+  async (input, {abortSignal}) => {
+    const {output} = await generateBehavioralQuestionsPrompt({
+      ...input,
+      questionCount: input.questionCount ?? DEFAULT_BEHAVIORAL_QUESTION_COUNT,
+    }, {abortSignal});
+    if (!output || !output.questions) {
+      throw new Error("AI failed to generate behavioral questions.");
+    }
+
+    return output.questions
+      .filter(q => q.question)
+      .map(q => ({
+        id: randomUUID(),
+        competency: q.competency || "General",
+        question: q.question,
+        starCriteria: {
+          situation: q.starCriteria?.situation || "",
+          task: q.starCriteria?.task || "",
+          action: q.starCriteria?.action || "",
+          result: q.starCriteria?.result || "",
+        },
+        goodSignals: q.goodSignals || [],
+        poorSignals: q.poorSignals || [],
+        followUpProbes: q.followUpProbes || [],
+      }));
+  }
+);
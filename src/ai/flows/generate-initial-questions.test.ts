@@ -0,0 +1,26 @@
+import { clearFixtures, useFixtures } from '@/ai/testing';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateInitialQuestions } from '@/ai/flows/generate-initial-questions';
+
+describe('generateInitialQuestions', () => {
+  afterEach(clearFixtures);
+
+  it('returns the questions and model answers', async () => {
+    const questions = [
+      { question: 'What does a PostgreSQL VACUUM reclaim?', modelAnswer: 'Space held by dead row versions.' },
+      { question: 'When would you pick a Redis sorted set?', modelAnswer: 'For rankings and time-ordered feeds.' },
+    ];
+    useFixtures('generateInitialQuestions', { '*': { questions } });
+
+    const result = await generateInitialQuestions({ jobDescription: 'Backend engineer with PostgreSQL and Redis.' });
+
+    assert.deepEqual(result.questions, questions);
+  });
+
+  it('fails when the model returns no questions', async () => {
+    useFixtures('generateInitialQuestions', { '*': '' });
+
+    await assert.rejects(generateInitialQuestions({ jobDescription: 'Backend engineer.' }));
+  });
+});
@@ -9,6 +9,7 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {defineVersionedPrompt} from '@/ai/versioned-prompt';
 import {z} from 'genkit';
 
 const GenerateInitialQuestionsInputSchema = z.object({
@@ -38,12 +39,11 @@ export async function generateInitialQuestions(
   return generateInitialQuestionsFlow(input);
 }
 
-const prompt = ai.definePrompt({
-  name: 'generateInitialQuestionsPrompt',
+const prompt = defineVersionedPrompt({
+  name: 'generateInitialQuestions',
+  flow: 'generateInitialQuestions',
   input: {schema: GenerateInitialQuestionsInputSchema},
   output: {schema: GenerateInitialQuestionsOutputSchema},
-  prompt: `You are a helpful AI assistant that generates interview questions based on the provided job description. Please create 5-7 questions.
-\nJob Description: {{{jobDescription}}} `,
 });
 
 const generateInitialQuestionsFlow = ai.defineFlow(
@@ -0,0 +1,482 @@
+
+/**
+ * @fileOverview The interview kit generation flow, for server code only.
+ *
+ * Unlike the 'use server' flow modules, this one is never called from the browser:
+ * streamInterviewKit takes a callback, which cannot cross the server action boundary.
+ * Client components call generateInterviewKit (generate-interview-kit.ts) or stream
+ * a kit through the /api/kits/generate route, which imports this module.
+ *
+ * - generateInterviewKitFlow - The flow that generates an interview kit.
+ * - streamInterviewKit - Generates a kit, passing on each question as soon as it is written.
+ * - GenerateInterviewKitInput - The input type of the flow.
+ * - GenerateInterviewKitOutput - The output type of the flow.
+ * - StreamedQuestion - A question streamed by streamInterviewKit.
+ */
+
+import { ai } from '@/ai/genkit';
+import { collectPromptVersions, defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import {
+  GenerateInterviewKitInputSchema,
+  InterviewKitSchema,
+  JdRequirementSchema,
+  QuestionAnswerPairSchema,
+  StreamedQuestionSchema,
+} from '@/ai/schemas/interview-kit';
+import {
+  DEFAULT_KIT_SETTINGS,
+  isLowConfidenceReview,
+  missingQuestionSlots,
+  modelAnswerToText,
+  normalizeCodingExercise,
+  normalizeModelAnswer,
+  normalizePartialCreditScale,
+  normalizeRequirementIds,
+  normalizeRequirements,
+  normalizeRubricWeights,
+  normalizeSqlExercise,
+  planQuestionMix,
+  selectQuestionsForPlan,
+  type QuestionMixPlan,
+} from '@/lib/interview-kit';
+import { clusterSimilarQuestions, findSimilarQuestions } from '@/lib/question-similarity';
+import { resolveResumeContext } from '@/lib/resume-extraction';
+import type { JdRequirement } from '@/types/interview-kit';
+import { identifyPotentialProjects } from '@/ai/flows/identify-potential-projects';
+import { generateBehavioralQuestions } from '@/ai/flows/generate-behavioral-questions';
+import { verifySqlQuestion } from '@/ai/flows/verify-sql-answer';
+import { reviewModelAnswers } from '@/ai/flows/review-model-answers';
+import { regenerateQuestion, type RegenerateQuestionInput } from '@/ai/flows/regenerate-question';
+
+
+export type GenerateInterviewKitInput = z.infer<typeof GenerateInterviewKitInputSchema>;
+
+const GenerateInterviewKitOutputSchema = InterviewKitSchema;
+export type GenerateInterviewKitOutput = z.infer<typeof GenerateInterviewKitOutputSchema>;
+
+export type StreamedQuestion = z.infer<typeof StreamedQuestionSchema>;
+
+/**
+ * Streamed questions are previews of the model's draft: the returned kit is the
+ * one to keep, after the question plan, duplicate replacement and review have
+ * run. Aborting stops the generation and rejects the returned promise.
+ */
+export async function streamInterviewKit(
+  input: GenerateInterviewKitInput,
+  options: {onQuestion: (question: StreamedQuestion) => void; abortSignal?: AbortSignal}
+): Promise<GenerateInterviewKitOutput> {
+  const {result} = await generateInterviewKitFlow.run(input, {onChunk: options.onQuestion, abortSignal: options.abortSignal});
+  return result;
+}
+
+// Handlebars cannot do arithmetic, so the plan is rendered into these fields before prompting.
+const KitPlanPromptFieldsSchema = z.object({
+  questionCount: z.number(),
+  minutesPerQuestion: z.number().optional(),
+  difficultyPlan: z.string().optional(),
+  typePlan: z.string().optional(),
+});
+
+const describePlan = (quota: Record<string, number> | undefined) =>
+  quota && Object.entries(quota).filter(([, n]) => n > 0).map(([key, n]) => `${n} ${key.replace('_', ' ')}`).join(', ');
+
+const generateInterviewKitPrompt = defineVersionedPrompt({
+  name: 'generateInterviewKit',
+  flow: 'generateInterviewKit',
+  input: {schema: GenerateInterviewKitInputSchema.merge(KitPlanPromptFieldsSchema)},
+  output: {schema: GenerateInterviewKitOutputSchema.omit({projectDeepDive: true, behavioral: true, promptVersions: true})},
+});
+
+// How many follow-up calls may be made to top up a kit that came back short.
+const MAX_PADDING_ATTEMPTS = 2;
+
+const PadInterviewKitInputSchema = z.object({
+  jobDescription: z.string(),
+  requirements: z.array(JdRequirementSchema.extend({questionCount: z.number()})),
+  competencies: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    questions: z.array(z.string()),
+  })),
+  slots: z.array(QuestionAnswerPairSchema.pick({difficulty: true, type: true})),
+});
+
+const PadInterviewKitOutputSchema = z.object({
+  questions: z.array(QuestionAnswerPairSchema.omit({id: true}).extend({
+    competencyName: z.string().describe('The name of the existing competency this question belongs to, copied exactly.'),
+  })),
+});
+
+const padInterviewKitPrompt = defineVersionedPrompt({
+  name: 'padInterviewKit',
+  flow: 'generateInterviewKit',
+  input: {schema: PadInterviewKitInputSchema},
+  output: {schema: PadInterviewKitOutputSchema},
+});
+
+type KitCompetency = GenerateInterviewKitOutput['competencies'][number];
+type KitQuestion = KitCompetency['questions'][number] & {competencyId: string};
+type DraftKit = Pick<GenerateInterviewKitOutput, 'requirements' | 'competencies'>;
+
+const normalizeQuestion = (q: KitCompetency['questions'][number], requirements: JdRequirement[]): KitCompetency['questions'][number] => ({
+  ...q,
+  id: randomUUID(),
+  question: q.question || "Missing question text",
+  modelAnswer: normalizeModelAnswer(q.modelAnswer),
+  partialCreditScale: normalizePartialCreditScale(q.partialCreditScale),
+  codingExercise: normalizeCodingExercise(q.codingExercise),
+  sqlExercise: normalizeSqlExercise(q.sqlExercise),
+  requirementIds: normalizeRequirementIds(q.requirementIds, requirements),
+});
+
+/**
+ * Turns the drafts the model streams into one StreamedQuestion per question.
+ * A draft ends mid-question, so a question is only sent once the model has
+ * started the next one; the last is sent when the draft is complete. Questions
+ * beyond the total are not sent, since the question plan drops them anyway.
+ */
+function questionStreamer(total: number, send: (question: StreamedQuestion) => void) {
+  let sent = 0;
+  let requirements: JdRequirement[] | undefined;
+  return (draft: Partial<DraftKit> | null | undefined, complete: boolean) => {
+    const questions = (draft?.competencies ?? []).flatMap(competency =>
+      (competency.questions ?? []).map(question => ({competency, question})));
+    const ready = Math.min(complete ? questions.length : questions.length - 1, total);
+    for (; sent < ready; sent++) {
+      // The requirements come before the competencies in the output, so they are complete by now.
+      const first = !requirements;
+      requirements ??= normalizeRequirements(draft?.requirements);
+      const {competency, question} = questions[sent];
+      send({
+        competencyName: competency.name || "Unnamed competency",
+        competencyDescription: competency.description || "",
+        question: normalizeQuestion(question, requirements),
+        requirements: first ? requirements : undefined,
+        count: sent + 1,
+        total,
+      });
+    }
+  };
+}
+
+/**
+ * Makes the kit match the plan: questions beyond the count or outside the
+ * difficulty/type quotas are dropped, and the gaps are filled with follow-up
+ * calls. If the model still falls short, dropped questions are put back so the
+ * kit at least has the requested number of questions.
+ */
+async function enforceQuestionPlan(
+  jobDescription: string,
+  requirements: JdRequirement[],
+  competencies: GenerateInterviewKitOutput['competencies'],
+  plan: QuestionMixPlan
+): Promise<GenerateInterviewKitOutput['competencies']> {
+  const questions: KitQuestion[] = competencies.flatMap(c => c.questions.map(q => ({...q, competencyId: c.id!})));
+  let {selected, rejected} = selectQuestionsForPlan(questions, plan);
+
+  for (let attempt = 0; attempt < MAX_PADDING_ATTEMPTS && selected.length < plan.count; attempt++) {
+    const slots = missingQuestionSlots(selected, plan);
+    try {
+      const {output} = await padInterviewKitPrompt({
+        jobDescription,
+        requirements: requirements.map(r => ({
+          ...r,
+          questionCount: selected.filter(q => q.requirementIds?.includes(r.id)).length,
+        })),
+        competencies: competencies.map(c => ({
+          name: c.name,
+          description: c.description,
+          questions: selected.filter(q => q.competencyId === c.id).map(q => q.question),
+        })),
+        slots,
+      });
+      const padded: KitQuestion[] = (output?.questions || [])
+        .filter(q => q.question)
+        .map(({competencyName, ...q}) => {
+          const competency = competencies.find(c => c.name.trim().toLowerCase() === competencyName.trim().toLowerCase())
+            ?? competencies.reduce((fewest, c) =>
+              selected.filter(s => s.competencyId === c.id).length < selected.filter(s => s.competencyId === fewest.id).length ? c : fewest);
+          return {
+            ...q,
+            id: randomUUID(),
+            competencyId: competency.id!,
+            question: q.question,
+            modelAnswer: normalizeModelAnswer(q.modelAnswer),
+            partialCreditScale: normalizePartialCreditScale(q.partialCreditScale),
+            codingExercise: normalizeCodingExercise(q.codingExercise),
+            sqlExercise: normalizeSqlExercise(q.sqlExercise),
+            requirementIds: normalizeRequirementIds(q.requirementIds, requirements),
+          };
+        });
+      const next = selectQuestionsForPlan([...selected, ...padded], plan);
+      selected = next.selected;
+      rejected = [...rejected, ...next.rejected];
+    } catch (error) {
+      console.error("Failed to pad the interview kit:", error);
+    }
+  }
+  if (selected.length < plan.count) {
+    selected = [...selected, ...rejected.slice(0, plan.count - selected.length)];
+  }
+
+  return competencies
+    .map(c => ({
+      ...c,
+      questions: selected.filter(q => q.competencyId === c.id).map(({competencyId, ...q}) => q),
+    }))
+    .filter(c => c.questions.length > 0);
+}
+
+// Like auto-fixing, replacing duplicates regenerates questions one by one, so it is capped too.
+// The kit collects the versions of the prompts a regenerated question ran, so they are not kept on the question.
+const regenerateKitQuestion = (input: RegenerateQuestionInput) =>
+  regenerateQuestion(input).then(({promptVersions, ...question}) => question);
+
+const MAX_DUPLICATE_REPLACEMENTS = 5;
+
+/**
+ * Replaces questions that ask about the same concept as an earlier question in the
+ * kit. The first question of each group of similar questions is kept; the others
+ * are regenerated within their competency, at the difficulty and type of the
+ * question they replace so the kit stays on its question plan. A replacement that
+ * is still similar to another question, has another difficulty or type, or that
+ * fails, leaves the duplicate in place so the kit keeps its question count.
+ */
+async function replaceDuplicateQuestions(
+  jobDescription: string,
+  competencies: GenerateInterviewKitOutput['competencies']
+): Promise<GenerateInterviewKitOutput['competencies']> {
+  const items = competencies.flatMap(competency => competency.questions.map(question => ({question, competency})));
+  const duplicates = clusterSimilarQuestions(items.map(item => item.question.question))
+    .flatMap(cluster => cluster.slice(1))
+    .slice(0, MAX_DUPLICATE_REPLACEMENTS)
+    .map(index => items[index]);
+  if (duplicates.length === 0) return competencies;
+
+  const duplicateIds = new Set(duplicates.map(({question}) => question.id));
+  const keptQuestions = items.filter(({question}) => !duplicateIds.has(question.id)).map(({question}) => question.question);
+  const replacements = await Promise.all(duplicates.map(({question, competency}) =>
+    regenerateKitQuestion({
+      jobDescription,
+      competencyName: competency.name,
+      competencyDescription: competency.description,
+      question: question.question,
+      modelAnswer: question.modelAnswer,
+      surroundingQuestions: items.filter(item => item.question !== question).map(item => item.question.question),
+      directive: 'regenerate',
+      difficulty: question.difficulty,
+      type: question.type,
+    }).catch(error => {
+      console.error("Failed to replace a duplicate question:", error);
+      return null;
+    })
+  ));
+
+  const replaced = new Map<string, KitCompetency['questions'][number]>();
+  replacements.forEach((replacement, i) => {
+    const {question} = duplicates[i];
+    if (!replacement || (question.difficulty && replacement.difficulty !== question.difficulty) || (question.type && replacement.type !== question.type)) return;
+    const others = [...keptQuestions, ...Array.from(replaced.values()).map(q => q.question)];
+    if (findSimilarQuestions([replacement.question], others).length > 0) return;
+    replaced.set(question.id!, {...replacement, requirementIds: question.requirementIds});
+  });
+
+  return competencies.map(c => ({
+    ...c,
+    questions: c.questions.map(q => replaced.get(q.id!) ?? q),
+  }));
+}
+
+/**
+ * Runs every SQL model answer against its sample data, repairing it where needed,
+ * before the kit is shown. Replacement questions were verified when they were
+ * regenerated, so questions with a verification result are skipped.
+ */
+async function verifySqlAnswers(
+  competencies: GenerateInterviewKitOutput['competencies']
+): Promise<GenerateInterviewKitOutput['competencies']> {
+  return Promise.all(competencies.map(async c => ({
+    ...c,
+    questions: await Promise.all(c.questions.map(q => (q.sqlExercise?.verified === undefined ? verifySqlQuestion(q) : q))),
+  })));
+}
+
+// Auto-fixing regenerates questions one by one, so it is capped to keep generation time bounded.
+const MAX_AUTO_FIXES = 5;
+
+type ReviewItem = {question: KitCompetency['questions'][number]; competency: KitCompetency};
+
+/**
+ * Attaches a second-pass review to every question. Low-confidence questions are
+ * regenerated once with the reviewer's issues and reviewed again; a fix replaces
+ * the original only if its review is better. Reviewing is best effort: if it
+ * fails, the kit is returned without reviews.
+ */
+async function reviewAnswers(
+  jobDescription: string,
+  competencies: GenerateInterviewKitOutput['competencies']
+): Promise<GenerateInterviewKitOutput['competencies']> {
+  const review = async (items: ReviewItem[]) => {
+    const {reviews} = await reviewModelAnswers({
+      jobDescription,
+      questions: items.map(({question, competency}) => ({
+        id: question.id!,
+        competencyName: competency.name,
+        question: question.question,
+        modelAnswerText: modelAnswerToText(question.modelAnswer),
+      })),
+    });
+    return new Map(reviews.map(({id, ...rest}) => [id, rest]));
+  };
+
+  const items: ReviewItem[] = competencies.flatMap(competency => competency.questions.map(question => ({question, competency})));
+  let reviews: Awaited<ReturnType<typeof review>>;
+  try {
+    reviews = await review(items);
+  } catch (error) {
+    console.error("Failed to review the model answers:", error);
+    return competencies;
+  }
+
+  const lowConfidence = items.filter(({question}) => isLowConfidenceReview(reviews.get(question.id!))).slice(0, MAX_AUTO_FIXES);
+  const fixes = await Promise.all(lowConfidence.map(({question, competency}) =>
+    regenerateKitQuestion({
+      jobDescription,
+      competencyName: competency.name,
+      competencyDescription: competency.description,
+      question: question.question,
+      modelAnswer: question.modelAnswer,
+      surroundingQuestions: items.filter(item => item.question !== question).map(item => item.question.question),
+      directive: 'fix_issues',
+      reviewIssues: reviews.get(question.id!)!.issues.map(issue => issue.description),
+    }).catch(error => {
+      console.error("Failed to fix a low-confidence question:", error);
+      return null;
+    })
+  ));
+  // A fix keeps the topic of the question it replaces, and so its requirements.
+  const fixed = fixes.flatMap((fix, i) => (fix ? [{
+    question: {...fix, requirementIds: lowConfidence[i].question.requirementIds},
+    competency: lowConfidence[i].competency,
+    replaces: lowConfidence[i].question.id!,
+  }] : []));
+
+  const replacements = new Map<string, KitCompetency['questions'][number]>();
+  if (fixed.length > 0) {
+    try {
+      const fixReviews = await review(fixed);
+      fixed.forEach(({question, replaces}) => {
+        const fixReview = fixReviews.get(question.id!);
+        if (fixReview && fixReview.confidence > reviews.get(replaces)!.confidence) {
+          replacements.set(replaces, {...question, review: fixReview});
+        }
+      });
+    } catch (error) {
+      console.error("Failed to review the fixed questions:", error);
+    }
+  }
+
+  return competencies.map(c => ({
+    ...c,
+    questions: c.questions.map(q => replacements.get(q.id!) ?? {...q, review: reviews.get(q.id!)}),
+  }));
+}
+
+// Kept apart from the flow so the flow can collect the version of every prompt the generation calls.
+async function buildInterviewKit(
+  input: GenerateInterviewKitInput,
+  {sendChunk, streamingRequested, abortSignal}: {sendChunk: (question: StreamedQuestion) => void; streamingRequested: boolean; abortSignal: AbortSignal}
+): Promise<GenerateInterviewKitOutput> {
+  const settings = input.settings ?? DEFAULT_KIT_SETTINGS;
+  const plan = planQuestionMix(settings);
+  const resumeContext = await resolveResumeContext(input);
+  const hasResume = !!(resumeContext.candidateResumeText || resumeContext.candidateResumeDataUri);
+  const streamQuestions = streamingRequested ? questionStreamer(plan.count, sendChunk) : undefined;
+
+  // The project deep-dive and behavioral section are best-effort extras: a failure there must not fail the whole kit.
+  const [{output}, projectDeepDive, behavioral] = await Promise.all([
+    generateInterviewKitPrompt({
+      ...input,
+      ...resumeContext,
+      settings,
+      questionCount: plan.count,
+      minutesPerQuestion: settings.durationMinutes ? Math.max(1, Math.round(settings.durationMinutes / plan.count)) : undefined,
+      difficultyPlan: describePlan(plan.difficulty),
+      typePlan: describePlan(plan.type),
+    }, {
+      onChunk: streamQuestions && (chunk => streamQuestions(chunk.output as Partial<DraftKit> | null, false)),
+      abortSignal,
+    }),
+    hasResume
+      ? identifyPotentialProjects({
+          jobDescription: input.jobDescription,
+          candidateResume: resumeContext.candidateResumeText,
+          candidateResumeDataUri: resumeContext.candidateResumeDataUri,
+          candidateResumeFileName: input.candidateResumeFileName,
+        }, {abortSignal}).catch(error => {
+          console.error("Failed to identify projects for the deep-dive:", error);
+          return [];
+        })
+      : Promise.resolve([]),
+    settings.includeBehavioral
+      ? generateBehavioralQuestions({
+          jobDescription: input.jobDescription,
+          seniorityLevel: input.confirmedSkillMap?.seniorityLevel,
+        }, {abortSignal}).catch(error => {
+          console.error("Failed to generate the behavioral section:", error);
+          return [];
+        })
+      : Promise.resolve(undefined),
+  ]);
+  if (!output || !output.competencies) {
+    throw new Error("AI failed to generate interview kit content.");
+  }
+  streamQuestions?.(output, true);
+  // Everything below is more model calls, so a cancelled generation stops here.
+  abortSignal.throwIfAborted();
+
+  const requirements = normalizeRequirements(output.requirements);
+  const competencies = (output.competencies || []).map(c => ({
+    id: randomUUID(),
+    name: c.name || "Unnamed competency",
+    description: c.description || "",
+    questions: (c.questions || []).map(q => normalizeQuestion(q, requirements)),
+  }));
+
+  const validatedOutput: GenerateInterviewKitOutput = {
+    id: randomUUID(),
+    requirements,
+    competencies: await reviewAnswers(
+      input.jobDescription,
+      await verifySqlAnswers(await replaceDuplicateQuestions(
+        input.jobDescription,
+        await enforceQuestionPlan(input.jobDescription, requirements, competencies, plan)
+      ))
+    ),
+    scoringRubric: normalizeRubricWeights(output.scoringRubric || []).map(r => ({
+      ...r,
+      id: randomUUID(),
+      criterion: r.criterion || "Unnamed criterion",
+      description: r.description || "",
+    })),
+    projectDeepDive,
+    behavioral,
+  };
+  
+  return validatedOutput;
+}
+
+export const generateInterviewKitFlow = ai.defineFlow(
+  {
+    name: 'generateInterviewKitFlow',
+    inputSchema: GenerateInterviewKitInputSchema,
+    outputSchema: GenerateInterviewKitOutputSchema,
+    streamSchema: StreamedQuestionSchema,
+  },
+  async (input, context) => {
+    const {result, promptVersions} = await collectPromptVersions(() => buildInterviewKit(input, context));
+    return {...result, promptVersions};
+  }
+);
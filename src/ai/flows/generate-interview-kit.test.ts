@@ -0,0 +1,230 @@
+import { clearFixtures, useFixtures } from '@/ai/testing';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateInterviewKit, type GenerateInterviewKitInput } from '@/ai/flows/generate-interview-kit';
+import { streamInterviewKit, type StreamedQuestion } from '@/ai/flows/generate-interview-kit-flow';
+
+const input: GenerateInterviewKitInput = {
+  jobDescription: 'Backend engineer. Must know PostgreSQL query tuning, Redis caching and Kafka consumers.',
+  unstopProfileLink: 'https://unstop.com/u/candidate',
+  settings: { questionCount: 3 },
+};
+
+const point = (text: string) => ({ type: 'point', text, weight: 3 });
+
+const kit = {
+  requirements: [
+    { id: 'R1', text: 'PostgreSQL query tuning', quote: 'PostgreSQL query tuning' },
+    { id: 'R2', text: 'Redis caching', quote: 'Redis caching' },
+  ],
+  competencies: [
+    {
+      name: 'Databases',
+      description: 'Relational and in-memory data stores.',
+      questions: [
+        {
+          question: 'How would you find out why a PostgreSQL query ignores its index?',
+          modelAnswer: [point('Read the EXPLAIN ANALYZE plan.')],
+          requirementIds: ['R1', 'R9'],
+        },
+        {
+          question: 'When should a Redis cache entry be invalidated instead of expiring?',
+          modelAnswer: [point('When readers must never see stale data.')],
+          requirementIds: ['R2'],
+        },
+      ],
+    },
+    {
+      name: 'Streaming',
+      description: 'Event processing with Kafka.',
+      questions: [
+        {
+          question: 'How do Kafka consumer groups rebalance partitions after a crash?',
+          modelAnswer: [point('The group coordinator reassigns the partitions.')],
+        },
+      ],
+    },
+  ],
+  scoringRubric: [
+    { criterion: 'Technical Depth', description: 'Goes beyond definitions.', weight: 3 },
+    { criterion: 'Communication', description: 'Explains clearly.', weight: 1 },
+  ],
+};
+
+describe('generateInterviewKit', () => {
+  afterEach(clearFixtures);
+
+  it('assigns a unique id to the kit, its competencies, questions and rubric criteria', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const result = await generateInterviewKit(input);
+
+    const ids = [
+      result.id,
+      ...result.competencies.flatMap(c => [c.id, ...c.questions.map(q => q.id)]),
+      ...result.scoringRubric.map(r => r.id),
+    ];
+    assert.equal(ids.length, 1 + 2 + 3 + 2);
+    assert.ok(ids.every(id => typeof id === 'string' && id.length > 0));
+    assert.equal(new Set(ids).size, ids.length);
+  });
+
+  it('keeps the questions in order and drops unknown requirement ids', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const result = await generateInterviewKit(input);
+
+    assert.deepEqual(result.competencies.map(c => c.name), ['Databases', 'Streaming']);
+    assert.deepEqual(
+      result.competencies.flatMap(c => c.questions.map(q => q.question)),
+      kit.competencies.flatMap(c => c.questions.map(q => q.question))
+    );
+    assert.deepEqual(result.competencies[0].questions.map(q => q.requirementIds), [['R1'], ['R2']]);
+    assert.equal(result.competencies[1].questions[0].requirementIds, undefined);
+  });
+
+  it('normalizes the rubric weights to sum to 1', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const result = await generateInterviewKit(input);
+
+    assert.deepEqual(result.scoringRubric.map(r => r.weight), [0.75, 0.25]);
+  });
+
+  it('records the version of every prompt that worked on the kit', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const result = await generateInterviewKit({ ...input, settings: { questionCount: 4 } });
+
+    assert.deepEqual(result.promptVersions, { generateInterviewKit: 'v1', padInterviewKit: 'v1', reviewModelAnswers: 'v1' });
+  });
+
+  it('fills in missing question text, competency names and rubric criteria', async () => {
+    useFixtures('generateInterviewKit', {
+      '*': {
+        competencies: [
+          { name: '', description: '', questions: [{ question: '', modelAnswer: [point('Anything.')] }] },
+          { name: 'Databases', description: 'Data stores.', questions: kit.competencies[0].questions },
+        ],
+        scoringRubric: [{ criterion: '', description: '', weight: 1 }],
+      },
+    });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const result = await generateInterviewKit(input);
+
+    assert.equal(result.competencies[0].name, 'Unnamed competency');
+    assert.equal(result.competencies[0].questions[0].question, 'Missing question text');
+    assert.equal(result.scoringRubric[0].criterion, 'Unnamed criterion');
+  });
+
+  it('tops up a kit that came back short with the padding prompt', async () => {
+    useFixtures('generateInterviewKit', {
+      '*': kit,
+      padInterviewKit: {
+        questions: [{
+          competencyName: 'streaming',
+          question: 'How would you make a Kafka consumer process each message exactly once?',
+          modelAnswer: [point('Commit offsets in the same transaction as the writes.')],
+        }],
+      },
+    });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const result = await generateInterviewKit({ ...input, settings: { questionCount: 4 } });
+
+    assert.deepEqual(result.competencies.map(c => c.questions.length), [2, 2]);
+    assert.equal(result.competencies[1].questions[1].question, 'How would you make a Kafka consumer process each message exactly once?');
+  });
+
+  describe('duplicate questions', () => {
+    const duplicateKit = {
+      ...kit,
+      competencies: [{
+        name: 'Databases',
+        description: 'Relational data stores.',
+        questions: [
+          { question: 'How does PostgreSQL use a B-tree index to answer a range query efficiently?', modelAnswer: [point('It walks the leaf pages in order.')], difficulty: 'medium' },
+          { question: 'How does PostgreSQL use a B-tree index to answer range queries efficiently?', modelAnswer: [point('Leaf pages are linked.')], difficulty: 'hard' },
+          kit.competencies[1].questions[0],
+        ],
+      }],
+    };
+    const replacement = (difficulty: string) => ({
+      question: 'How would you detect and fix bloat in a heavily updated PostgreSQL table?',
+      modelAnswer: [point('Check pg_stat_user_tables and run VACUUM.')],
+      difficulty,
+    });
+
+    it('replaces a duplicate with a question of the same difficulty', async () => {
+      useFixtures('generateInterviewKit', { '*': duplicateKit });
+      useFixtures('regenerateQuestion', { '*': replacement('hard') });
+      useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+      const result = await generateInterviewKit(input);
+
+      assert.deepEqual(result.competencies[0].questions.map(q => [q.question, q.difficulty]).slice(0, 2), [
+        [duplicateKit.competencies[0].questions[0].question, 'medium'],
+        ['How would you detect and fix bloat in a heavily updated PostgreSQL table?', 'hard'],
+      ]);
+      assert.equal(result.promptVersions?.regenerateQuestion, 'v1');
+      assert.ok(!('promptVersions' in result.competencies[0].questions[1]));
+    });
+
+    it('keeps the duplicate when the replacement has another difficulty', async () => {
+      useFixtures('generateInterviewKit', { '*': duplicateKit });
+      useFixtures('regenerateQuestion', { '*': replacement('easy') });
+      useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+      const result = await generateInterviewKit(input);
+
+      assert.equal(result.competencies[0].questions[1].question, duplicateKit.competencies[0].questions[1].question);
+    });
+  });
+
+  it('streams every question once, in order, with its competency and the progress', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const streamed: StreamedQuestion[] = [];
+    const result = await streamInterviewKit(input, { onQuestion: question => streamed.push(question) });
+
+    assert.deepEqual(
+      streamed.map(s => [s.competencyName, s.question.question, s.count, s.total]),
+      kit.competencies.flatMap(c => c.questions.map(q => [c.name, q.question])).map((pair, i) => [...pair, i + 1, 3])
+    );
+    assert.deepEqual(streamed[0].requirements?.map(r => r.id), ['R1', 'R2']);
+    assert.ok(streamed.slice(1).every(s => s.requirements === undefined));
+    assert.deepEqual(streamed[0].question.requirementIds, ['R1']);
+    assert.equal(result.competencies.flatMap(c => c.questions).length, 3);
+  });
+
+  it('streams no more questions than the kit was asked for', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+
+    const streamed: StreamedQuestion[] = [];
+    await streamInterviewKit({ ...input, settings: { questionCount: 2 } }, { onQuestion: question => streamed.push(question) });
+
+    assert.deepEqual(streamed.map(s => [s.count, s.total]), [[1, 2], [2, 2]]);
+  });
+
+  it('stops when the generation is aborted', async () => {
+    useFixtures('generateInterviewKit', { '*': kit });
+    useFixtures('reviewModelAnswers', { '*': { reviews: [] } });
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(streamInterviewKit(input, { onQuestion: () => {}, abortSignal: controller.signal }));
+  });
+
+  it('fails when the model returns no kit', async () => {
+    useFixtures('generateInterviewKit', { '*': '' });
+
+    await assert.rejects(generateInterviewKit(input));
+  });
+});
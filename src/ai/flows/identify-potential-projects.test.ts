@@ -0,0 +1,48 @@
+import { clearFixtures, useFixtures } from '@/ai/testing';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyPotentialProjects } from '@/ai/flows/identify-potential-projects';
+
+const project = (projectName: string) => ({
+  projectName,
+  summary: 'A service handling real traffic.',
+  keySkills: 'Go, PostgreSQL',
+  followUpQuestions: ['Why PostgreSQL over a document store?'],
+  redFlagChecks: ['Which parts did you write yourself?'],
+  expectedDepth: 'Can explain the schema and its indexes.',
+});
+
+describe('identifyPotentialProjects', () => {
+  afterEach(clearFixtures);
+
+  it('returns the projects with a unique id each', async () => {
+    useFixtures('identifyPotentialProjects', { '*': [project('Payments API'), project('Search indexer')] });
+
+    const result = await identifyPotentialProjects({
+      jobDescription: 'Backend engineer with Go and PostgreSQL.',
+      candidateResume: '## Projects\n- Payments API\n- Search indexer',
+    });
+
+    assert.deepEqual(result.map(p => p.projectName), ['Payments API', 'Search indexer']);
+    assert.ok(result.every(p => p.id));
+    assert.notEqual(result[0].id, result[1].id);
+  });
+
+  it('stops when the caller aborts', async () => {
+    useFixtures('identifyPotentialProjects', { '*': [project('Payments API')] });
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(identifyPotentialProjects({
+      jobDescription: 'Backend engineer with Go and PostgreSQL.',
+      candidateResume: '## Projects\n- Payments API',
+    }, { abortSignal: controller.signal }));
+  });
+
+  it('fails without a resume, before calling the model', async () => {
+    await assert.rejects(
+      identifyPotentialProjects({ jobDescription: 'Backend engineer with Go and PostgreSQL.' }),
+      /A resume is required/
+    );
+  });
+});
@@ -12,14 +12,20 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {defineVersionedPrompt} from '@/ai/versioned-prompt';
 import {z} from 'genkit';
+import {randomUUID} from 'crypto';
+import {ProjectSummarySchema} from '@/ai/schemas/interview-kit';
+import {resolveResumeContext} from '@/lib/resume-extraction';
 
 /**
  * Input schema for the IdentifyPotentialProjects flow.
  */
 const IdentifyPotentialProjectsInputSchema = z.object({
   jobDescription: z.string().describe('The job description for the role.'),
-  candidateResume: z.string().describe('The candidate\'s resume text.'),
+  candidateResume: z.string().optional().describe('The candidate\'s resume text. When omitted, it is extracted from candidateResumeDataUri.'),
+  candidateResumeDataUri: z.string().optional().describe('The candidate\'s resume file as a data URI, used when no resume text is given.'),
+  candidateResumeFileName: z.string().optional().describe('The filename of the resume, used to detect its format.'),
 });
 
 /**
@@ -27,15 +33,6 @@ const IdentifyPotentialProjectsInputSchema = z.object({
  */
 export type IdentifyPotentialProjectsInput = z.infer<typeof IdentifyPotentialProjectsInputSchema>;
 
-/**
- * Schema for summarizing a project experience.
- */
-const ProjectSummarySchema = z.object({
-  projectName: z.string().describe('The name of the project.'),
-  summary: z.string().describe('A brief summary of the project and its relevance to real-world problems.'),
-  keySkills: z.string().describe('Relevant key skills used.'),
-});
-
 /**
  * Type definition for the project summary schema.
  */
@@ -54,26 +51,22 @@ export type IdentifyPotentialProjectsOutput = z.infer<typeof IdentifyPotentialPr
 /**
  * Main function to execute the IdentifyPotentialProjects flow.
  * @param input - The input containing the job description and candidate resume.
+ * @param options - An abort signal that cancels the model call.
  * @returns A promise resolving to the list of potential project experiences.
  */
-export async function identifyPotentialProjects(input: IdentifyPotentialProjectsInput): Promise<IdentifyPotentialProjectsOutput> {
-  return identifyPotentialProjectsFlow(input);
+export async function identifyPotentialProjects(
+  input: IdentifyPotentialProjectsInput,
+  options: {abortSignal?: AbortSignal} = {}
+): Promise<IdentifyPotentialProjectsOutput> {
+  const {result} = await identifyPotentialProjectsFlow.run(input, {abortSignal: options.abortSignal});
+  return result;
 }
 
-const identifyPotentialProjectsPrompt = ai.definePrompt({
-  name: 'identifyPotentialProjectsPrompt',
+const identifyPotentialProjectsPrompt = defineVersionedPrompt({
+  name: 'identifyPotentialProjects',
+  flow: 'identifyPotentialProjects',
   input: {schema: IdentifyPotentialProjectsInputSchema},
   output: {schema: IdentifyPotentialProjectsOutputSchema},
-  prompt: `You are an expert recruiter. Analyze the job description and candidate\'s resume to identify projects
-that are relevant for discussion during an interview. Focus on extracting projects where the candidate gained
-valuable experience and solved real-world problems.
-
-Job Description: {{jobDescription}}
-Candidate Resume: {{candidateResume}}
-
-Identify and summarize these projects, highlighting their relevance to real-world applications and the skills
-the candidate utilized.
-`
 });
 
 const identifyPotentialProjectsFlow = ai.defineFlow(
@@ -82,8 +75,27 @@ const identifyPotentialProjectsFlow = ai.defineFlow(
     inputSchema: IdentifyPotentialProjectsInputSchema,
     outputSchema: IdentifyPotentialProjectsOutputSchema,
   },
-  async input => {
-    const {output} = await identifyPotentialProjectsPrompt(input);
-    return output!;
+  async (input, {abortSignal}) => {
+    const resumeContext = await resolveResumeContext({
+      candidateResumeText: input.candidateResume,
+      candidateResumeDataUri: input.candidateResumeDataUri,
+      candidateResumeFileName: input.candidateResumeFileName,
+    });
+    if (!resumeContext.candidateResumeText && !resumeContext.candidateResumeDataUri) {
+      throw new Error("A resume is required to identify potential projects.");
+    }
+
+    const {output} = await identifyPotentialProjectsPrompt({
+      ...input,
+      candidateResume: resumeContext.candidateResumeText,
+      candidateResumeDataUri: resumeContext.candidateResumeDataUri,
+    }, {abortSignal});
+
+    return (output || []).map(project => ({
+      ...project,
+      id: randomUUID(),
+      followUpQuestions: project.followUpQuestions || [],
+      redFlagChecks: project.redFlagChecks || [],
+    }));
   }
 );
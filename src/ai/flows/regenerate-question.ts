@@ -0,0 +1,113 @@
+'use server';
+
+/**
+ * @fileOverview Regenerates a single question of an interview kit.
+ *
+ * - regenerateQuestion - A function that replaces one question-answer pair according to a directive.
+ * - RegenerateQuestionInput - The input type for the regenerateQuestion function.
+ * - RegenerateQuestionOutput - The return type for the regenerateQuestion function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { collectPromptVersions, defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import {
+  ModelAnswerBlockSchema,
+  QuestionAnswerPairSchema,
+  QuestionDifficultySchema,
+  QuestionTypeSchema,
+} from '@/ai/schemas/interview-kit';
+import { verifySqlQuestion } from '@/ai/flows/verify-sql-answer';
+import {
+  modelAnswerToText,
+  normalizeCodingExercise,
+  normalizeModelAnswer,
+  normalizePartialCreditScale,
+  normalizeSqlExercise,
+} from '@/lib/interview-kit';
+
+const RegenerateQuestionDirectiveSchema = z.enum([
+  'regenerate',
+  'harder',
+  'easier',
+  'more_practical',
+  'follow_up',
+  'more_like_this',
+  'fix_issues',
+]);
+
+export type RegenerateQuestionDirective = z.infer<typeof RegenerateQuestionDirectiveSchema>;
+
+const RegenerateQuestionInputSchema = z.object({
+  jobDescription: z.string().describe('The job description the kit was generated for.'),
+  competencyName: z.string().describe('The competency the question belongs to.'),
+  competencyDescription: z.string().optional().describe('A description of the competency.'),
+  question: z.string().describe('The current question text that should be replaced.'),
+  modelAnswer: z.array(ModelAnswerBlockSchema).describe('The current model answer of the question that should be replaced.'),
+  surroundingQuestions: z.array(z.string()).describe('The other questions in the kit. The new question must not duplicate any of them.'),
+  directive: RegenerateQuestionDirectiveSchema.describe('How the new question should differ from the current one.'),
+  reviewIssues: z.array(z.string()).optional().describe("The reviewer's issues with the current question and answer, for the 'fix_issues' directive."),
+  difficulty: QuestionDifficultySchema.optional().describe('The difficulty the new question must have, e.g. to keep the kit on its question plan.'),
+  type: QuestionTypeSchema.optional().describe('The type the new question must have, e.g. to keep the kit on its question plan.'),
+});
+
+export type RegenerateQuestionInput = z.infer<typeof RegenerateQuestionInputSchema>;
+
+// The caller carries the replaced question's requirement links over, so the model does not set them.
+const RegeneratedQuestionSchema = QuestionAnswerPairSchema.omit({review: true, requirementIds: true});
+const RegenerateQuestionOutputSchema = RegeneratedQuestionSchema.extend({
+  promptVersions: z.record(z.string()).describe('The version of every prompt that wrote the question, by prompt name.'),
+});
+export type RegenerateQuestionOutput = z.infer<typeof RegenerateQuestionOutputSchema>;
+
+export async function regenerateQuestion(input: RegenerateQuestionInput): Promise<RegenerateQuestionOutput> {
+  return regenerateQuestionFlow(input);
+}
+
+const directiveInstructions: Record<RegenerateQuestionDirective, string> = {
+  regenerate: 'Write a different question that assesses the same competency at a similar difficulty.',
+  harder: 'Write a noticeably harder question on the same topic, e.g. by adding constraints, edge cases, scale or trade-offs.',
+  easier: 'Write a noticeably easier question on the same topic that checks the fundamentals.',
+  more_practical: 'Write a more practical, hands-on version of the question grounded in a realistic scenario from the role.',
+  follow_up: 'Write a follow-up question that digs one level deeper into the current question, as an interviewer would after a good answer.',
+  more_like_this: 'Write a new question in the same style, format and difficulty as the current one, but on a different aspect of the competency.',
+  fix_issues: "Keep the current question's topic, type and difficulty, but fix every issue a reviewer found with it: correct the model answer and, if the question is ambiguous or not grounded in the Job Description, reword it.",
+};
+
+const regenerateQuestionPrompt = defineVersionedPrompt({
+  name: 'regenerateQuestion',
+  flow: 'regenerateQuestion',
+  input: {schema: RegenerateQuestionInputSchema.extend({directiveInstruction: z.string(), modelAnswerText: z.string()})},
+  output: {schema: RegeneratedQuestionSchema},
+});
+
+const regenerateQuestionFlow = ai.defineFlow(
+  {
+    name: 'regenerateQuestionFlow',
+    inputSchema: RegenerateQuestionInputSchema,
+    outputSchema: RegenerateQuestionOutputSchema,
+  },
+  async input => {
+    const {result, promptVersions} = await collectPromptVersions(async () => {
+      const {output} = await regenerateQuestionPrompt({
+        ...input,
+        directiveInstruction: directiveInstructions[input.directive],
+        modelAnswerText: modelAnswerToText(input.modelAnswer),
+      });
+      if (!output || !output.question) {
+        throw new Error("AI failed to regenerate the question.");
+      }
+
+      return verifySqlQuestion({
+        ...output,
+        id: randomUUID(),
+        modelAnswer: normalizeModelAnswer(output.modelAnswer),
+        partialCreditScale: normalizePartialCreditScale(output.partialCreditScale),
+        codingExercise: normalizeCodingExercise(output.codingExercise),
+        sqlExercise: normalizeSqlExercise(output.sqlExercise),
+      });
+    });
+    return {...result, promptVersions};
+  }
+);
@@ -0,0 +1,42 @@
+import { clearFixtures, useFixtures } from '@/ai/testing';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { reviewCandidateProfile } from '@/ai/flows/review-candidate-profile';
+
+const input = {
+  resumeDataUri: 'data:text/plain;base64,',
+  resumeText: '## Experience\n- Backend engineer at Acme, 2021-Present',
+};
+
+describe('reviewCandidateProfile', () => {
+  afterEach(clearFixtures);
+
+  it('derives the flat list of technical skills from the skills', async () => {
+    useFixtures('reviewCandidateProfile', {
+      '*': {
+        name: 'Asha Rao',
+        education: [],
+        workHistory: [{ company: 'Acme', title: 'Backend Engineer', highlights: ['Cut p99 latency by 40%.'] }],
+        projects: [],
+        certifications: [],
+        skills: [
+          { name: 'Go', proficiency: 'advanced', evidence: ['Built the payments service in Go'] },
+          { name: 'PostgreSQL', proficiency: 'intermediate', evidence: [] },
+          { name: 'Go', category: 'Language', proficiency: 'advanced', evidence: [] },
+        ],
+      },
+    });
+
+    const result = await reviewCandidateProfile(input);
+
+    assert.equal(result.name, 'Asha Rao');
+    assert.deepEqual(result.technicalSkills, ['Go', 'PostgreSQL']);
+    assert.equal(result.workHistory[0].highlights.length, 1);
+  });
+
+  it('fails when the model returns no profile', async () => {
+    useFixtures('reviewCandidateProfile', { '*': '' });
+
+    await assert.rejects(reviewCandidateProfile(input));
+  });
+});
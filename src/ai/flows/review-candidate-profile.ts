@@ -0,0 +1,70 @@
+// review-candidate-profile.ts
+'use server';
+
+/**
+ * @fileOverview This flow parses a resume into a structured candidate profile.
+ *
+ * It takes a resume file (as a data URI) as input and returns the candidate's education,
+ * work history, projects, certifications and technical skills with supporting evidence.
+ */
+
+import {ai} from '@/ai/genkit';
+import {defineVersionedPrompt} from '@/ai/versioned-prompt';
+import {z} from 'genkit';
+import {extractResumeText} from '@/lib/resume-extraction';
+import {CandidateProfileSchema} from '@/ai/schemas/candidate-profile';
+
+const ReviewCandidateProfileInputSchema = z.object({
+  resumeDataUri: z
+    .string()
+    .describe(
+      "The candidate's resume file as a data URI (PDF/DOC/DOCX), must include MIME type and Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'"
+    ),
+  resumeFileName: z.string().optional().describe('The filename of the resume, used to detect its format.'),
+  resumeText: z.string().optional().describe('The resume as plain text. When omitted, it is extracted from resumeDataUri.'),
+});
+
+export type ReviewCandidateProfileInput = z.infer<typeof ReviewCandidateProfileInputSchema>;
+
+const ReviewCandidateProfileOutputSchema = CandidateProfileSchema.extend({
+  technicalSkills: z.array(z.string()).describe("A flat list of the candidate's technical skill names. Derived from skills; do not generate this field."),
+});
+
+export type ReviewCandidateProfileOutput = z.infer<typeof ReviewCandidateProfileOutputSchema>;
+
+export async function reviewCandidateProfile(input: ReviewCandidateProfileInput): Promise<ReviewCandidateProfileOutput> {
+  return reviewCandidateProfileFlow(input);
+}
+
+const reviewCandidateProfilePrompt = defineVersionedPrompt({
+  name: 'reviewCandidateProfile',
+  flow: 'reviewCandidateProfile',
+  input: {schema: ReviewCandidateProfileInputSchema},
+  output: {schema: CandidateProfileSchema},
+});
+
+const reviewCandidateProfileFlow = ai.defineFlow(
+  {
+    name: 'reviewCandidateProfileFlow',
+    inputSchema: ReviewCandidateProfileInputSchema,
+    outputSchema: ReviewCandidateProfileOutputSchema,
+  },
+  async input => {
+    // Send extracted text when possible; the file is only attached if extraction fails.
+    const resumeText = input.resumeText ?? await extractResumeText(input.resumeDataUri, input.resumeFileName);
+    const {output} = await reviewCandidateProfilePrompt(resumeText ? {...input, resumeText} : input);
+    if (!output) {
+      throw new Error("AI failed to parse the candidate profile.");
+    }
+
+    return {
+      ...output,
+      education: output.education || [],
+      workHistory: (output.workHistory || []).map(w => ({...w, highlights: w.highlights || []})),
+      projects: (output.projects || []).map(p => ({...p, techStack: p.techStack || []})),
+      certifications: output.certifications || [],
+      skills: (output.skills || []).map(s => ({...s, evidence: s.evidence || []})),
+      technicalSkills: Array.from(new Set((output.skills || []).map(s => s.name))),
+    };
+  }
+);
@@ -0,0 +1,71 @@
+'use server';
+
+/**
+ * @fileOverview A second-pass reviewer that critiques generated questions and their model answers.
+ *
+ * - reviewModelAnswers - A function that checks each question/answer pair for factual errors, ambiguity and JD relevance.
+ * - ReviewModelAnswersInput - The input type for the reviewModelAnswers function.
+ * - ReviewModelAnswersOutput - The return type for the reviewModelAnswers function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { AnswerReviewSchema } from '@/ai/schemas/interview-kit';
+import { normalizeAnswerReview } from '@/lib/interview-kit';
+
+const ReviewModelAnswersInputSchema = z.object({
+  jobDescription: z.string().describe('The job description the questions were generated for.'),
+  questions: z.array(z.object({
+    id: z.string(),
+    competencyName: z.string().describe('The competency the question assesses.'),
+    question: z.string(),
+    modelAnswerText: z.string().describe('The model answer as markdown-style text.'),
+  })).describe('The question/answer pairs to review.'),
+});
+
+export type ReviewModelAnswersInput = z.infer<typeof ReviewModelAnswersInputSchema>;
+
+const ReviewModelAnswersOutputSchema = z.object({
+  reviews: z.array(AnswerReviewSchema.extend({
+    id: z.string().describe('The id of the reviewed question, copied from the input.'),
+  })),
+});
+
+export type ReviewModelAnswersOutput = z.infer<typeof ReviewModelAnswersOutputSchema>;
+
+export async function reviewModelAnswers(input: ReviewModelAnswersInput): Promise<ReviewModelAnswersOutput> {
+  return reviewModelAnswersFlow(input);
+}
+
+const reviewModelAnswersPrompt = defineVersionedPrompt({
+  name: 'reviewModelAnswers',
+  flow: 'reviewModelAnswers',
+  input: {schema: ReviewModelAnswersInputSchema},
+  output: {schema: ReviewModelAnswersOutputSchema},
+});
+
+const reviewModelAnswersFlow = ai.defineFlow(
+  {
+    name: 'reviewModelAnswersFlow',
+    inputSchema: ReviewModelAnswersInputSchema,
+    outputSchema: ReviewModelAnswersOutputSchema,
+  },
+  async input => {
+    if (input.questions.length === 0) {
+      return { reviews: [] };
+    }
+    const {output} = await reviewModelAnswersPrompt(input);
+    if (!output) {
+      throw new Error("AI failed to review the model answers.");
+    }
+
+    // Reviews for unknown ids are dropped; questions without a review are simply left unreviewed.
+    const ids = new Set(input.questions.map(q => q.id));
+    return {
+      reviews: (output.reviews || [])
+        .filter(review => ids.has(review.id))
+        .map(review => ({ id: review.id, ...normalizeAnswerReview(review)! })),
+    };
+  }
+);
@@ -0,0 +1,42 @@
+import { clearFixtures, useFixtures } from '@/ai/testing';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeJD } from '@/ai/flows/summarize-jd';
+
+const analysis = {
+  roleTitle: 'Data Engineer',
+  summary: 'Builds and runs batch pipelines on AWS.',
+  seniorityLevel: 'mid',
+  mustHaveSkills: ['Python', ' SQL ', 'python', 'Airflow', ''],
+  niceToHaveSkills: ['Spark', 'sql', 'Spark'],
+  tools: ['AWS S3', 'AWS S3', 'Airflow'],
+};
+
+describe('summarizeJD', () => {
+  afterEach(clearFixtures);
+
+  it('returns the analysis with the skill lists trimmed and deduplicated, keeping the first spelling', async () => {
+    useFixtures('summarizeJD', { '*': analysis });
+
+    const result = await summarizeJD({ jobDescription: 'Data Engineer, 3+ years of Python, SQL and Airflow.' });
+
+    assert.equal(result.roleTitle, 'Data Engineer');
+    assert.equal(result.seniorityLevel, 'mid');
+    assert.deepEqual(result.mustHaveSkills, ['Python', 'SQL', 'Airflow']);
+    assert.deepEqual(result.tools, ['AWS S3', 'Airflow']);
+  });
+
+  it('drops nice-to-have skills that are also must-haves, ignoring case', async () => {
+    useFixtures('summarizeJD', { '*': analysis });
+
+    const result = await summarizeJD({ jobDescription: 'Data Engineer' });
+
+    assert.deepEqual(result.niceToHaveSkills, ['Spark']);
+  });
+
+  it('fails when the model returns no analysis', async () => {
+    useFixtures('summarizeJD', { '*': '' });
+
+    await assert.rejects(summarizeJD({ jobDescription: 'Data Engineer' }));
+  });
+});
@@ -9,7 +9,9 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {defineVersionedPrompt} from '@/ai/versioned-prompt';
 import {z} from 'genkit';
+import {SkillMapSchema} from '@/ai/schemas/jd-analysis';
 
 const SummarizeJDInputSchema = z.object({
   jobDescription: z
@@ -18,7 +20,8 @@ const SummarizeJDInputSchema = z.object({
 });
 export type SummarizeJDInput = z.infer<typeof SummarizeJDInputSchema>;
 
-const SummarizeJDOutputSchema = z.object({
+const SummarizeJDOutputSchema = SkillMapSchema.extend({
+  roleTitle: z.string().describe('The job title, as stated in the job description.'),
   summary: z.string().describe('A concise summary of the job description.'),
 });
 export type SummarizeJDOutput = z.infer<typeof SummarizeJDOutputSchema>;
@@ -27,14 +30,11 @@ export async function summarizeJD(input: SummarizeJDInput): Promise<SummarizeJDO
   return summarizeJDFlow(input);
 }
 
-const prompt = ai.definePrompt({
-  name: 'summarizeJDPrompt',
+const prompt = defineVersionedPrompt({
+  name: 'summarizeJD',
+  flow: 'summarizeJD',
   input: {schema: SummarizeJDInputSchema},
   output: {schema: SummarizeJDOutputSchema},
-  prompt: `You are a senior recruiter. Given a job description, summarize the key requirements and responsibilities of the job description in a concise manner.
-
-Job Description:
-{{jobDescription}}`,
 });
 
 const summarizeJDFlow = ai.defineFlow(
@@ -45,6 +45,23 @@ const summarizeJDFlow = ai.defineFlow(
   },
   async input => {
     const {output} = await prompt(input);
-    return output!;
+    if (!output) {
+      throw new Error("AI failed to analyze the job description.");
+    }
+
+    // "Python" and "python" are the same skill, so only the first spelling is kept.
+    const dedupe = (items: string[]) => {
+      const seen = new Set<string>();
+      return (items || []).map(i => i.trim()).filter(i => i && !seen.has(i.toLowerCase()) && seen.add(i.toLowerCase()));
+    };
+    const mustHaveSkills = dedupe(output.mustHaveSkills);
+    // A skill can only be one of must-have or nice-to-have; must-have wins.
+    const mustHave = new Set(mustHaveSkills.map(s => s.toLowerCase()));
+    return {
+      ...output,
+      mustHaveSkills,
+      niceToHaveSkills: dedupe(output.niceToHaveSkills).filter(s => !mustHave.has(s.toLowerCase())),
+      tools: dedupe(output.tools),
+    };
   }
 );
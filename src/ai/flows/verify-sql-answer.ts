@@ -0,0 +1,109 @@
+'use server';
+
+/**
+ * @fileOverview Verifies the SQL model answer of a question by running it against the question's sample data.
+ *
+ * An answer that fails or returns no rows is sent back to the model once, with the
+ * error, to repair the query or the sample data. An answer that still fails is kept
+ * but marked as unverified so the interviewer knows not to rely on it.
+ *
+ * - verifySqlAnswer - A function that runs and, if needed, repairs a SQL model answer.
+ * - verifySqlQuestion - A function that applies verifySqlAnswer to a question's model answer and sample data.
+ * - VerifySqlAnswerInput - The input type for the verifySqlAnswer function.
+ * - VerifySqlAnswerOutput - The return type for the verifySqlAnswer function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { defineVersionedPrompt } from '@/ai/versioned-prompt';
+import { z } from 'zod';
+import { runSqlQueries } from '@/lib/sql-runner';
+import { sqlAnswerQuery, withSqlAnswerQuery } from '@/lib/interview-kit';
+import type { QuestionAnswerPair } from '@/types/interview-kit';
+
+const VerifySqlAnswerInputSchema = z.object({
+  question: z.string().describe('The interview question the query answers.'),
+  setupSql: z.string().describe('The SQLite statements that create and seed the sample tables.'),
+  answerQuery: z.string().describe('The model answer query.'),
+});
+
+export type VerifySqlAnswerInput = z.infer<typeof VerifySqlAnswerInputSchema>;
+
+const VerifySqlAnswerOutputSchema = z.object({
+  setupSql: z.string(),
+  answerQuery: z.string(),
+  verified: z.boolean(),
+  verificationError: z.string().optional(),
+});
+
+export type VerifySqlAnswerOutput = z.infer<typeof VerifySqlAnswerOutputSchema>;
+
+export async function verifySqlAnswer(input: VerifySqlAnswerInput): Promise<VerifySqlAnswerOutput> {
+  return verifySqlAnswerFlow(input);
+}
+
+/** Verifies a question's SQL answer, returning the question with the repaired query, sample data and verification result. */
+export async function verifySqlQuestion<T extends Pick<QuestionAnswerPair, 'question' | 'modelAnswer' | 'sqlExercise'>>(question: T): Promise<T> {
+  const answerQuery = sqlAnswerQuery(question.modelAnswer);
+  if (!question.sqlExercise || !answerQuery) return question;
+
+  try {
+    const result = await verifySqlAnswer({ question: question.question, setupSql: question.sqlExercise.setupSql, answerQuery });
+    return {
+      ...question,
+      modelAnswer: withSqlAnswerQuery(question.modelAnswer, result.answerQuery),
+      sqlExercise: { setupSql: result.setupSql, verified: result.verified, verificationError: result.verificationError },
+    };
+  } catch (error) {
+    console.error("Failed to verify the SQL answer:", error);
+    return { ...question, sqlExercise: { setupSql: question.sqlExercise.setupSql } };
+  }
+}
+
+const RepairSqlAnswerPromptInputSchema = VerifySqlAnswerInputSchema.extend({
+  error: z.string().describe('Why the query did not produce a usable result.'),
+});
+
+const repairSqlAnswerPrompt = defineVersionedPrompt({
+  name: 'repairSqlAnswer',
+  flow: 'verifySqlAnswer',
+  input: {schema: RepairSqlAnswerPromptInputSchema},
+  output: {schema: z.object({
+    setupSql: z.string().describe('The corrected SQLite statements that create and seed the sample tables.'),
+    answerQuery: z.string().describe('The corrected model answer query, without backtick fences.'),
+  })},
+});
+
+// A usable answer runs without errors and returns at least one row; an empty result usually means the sample data misses the case the question is about.
+async function checkAnswer(setupSql: string, answerQuery: string): Promise<string | undefined> {
+  const [result] = await runSqlQueries(setupSql, [answerQuery]);
+  if (result.status === 'error') return result.error;
+  if (result.rows.length === 0) return 'The query returned no rows against the sample data.';
+  return undefined;
+}
+
+const verifySqlAnswerFlow = ai.defineFlow(
+  {
+    name: 'verifySqlAnswerFlow',
+    inputSchema: VerifySqlAnswerInputSchema,
+    outputSchema: VerifySqlAnswerOutputSchema,
+  },
+  async input => {
+    const error = await checkAnswer(input.setupSql, input.answerQuery);
+    if (!error) {
+      return { setupSql: input.setupSql, answerQuery: input.answerQuery, verified: true };
+    }
+
+    const {output} = await repairSqlAnswerPrompt({...input, error});
+    if (!output?.setupSql?.trim() || !output.answerQuery?.trim()) {
+      return { setupSql: input.setupSql, answerQuery: input.answerQuery, verified: false, verificationError: error };
+    }
+
+    const repaired = { setupSql: output.setupSql.trim(), answerQuery: output.answerQuery.trim() };
+    const repairError = await checkAnswer(repaired.setupSql, repaired.answerQuery);
+    if (repairError) {
+      // The repair did not help, so keep the original answer the model wrote alongside the question.
+      return { setupSql: input.setupSql, answerQuery: input.answerQuery, verified: false, verificationError: error };
+    }
+    return { ...repaired, verified: true };
+  }
+);
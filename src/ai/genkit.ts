@@ -1,7 +1,23 @@
 import {genkit} from 'genkit';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
+import {configuredProviders, defaultModel, recordModel, type ModelProvider} from '@/ai/models';
+import {openAICompatible} from '@/ai/providers/openai-compatible';
+import {ollama} from '@/ai/providers/ollama';
+import {fake} from '@/ai/providers/fake';
+
+// Only the providers the configured models use are loaded, so e.g. an all-Ollama setup needs no Google key.
+const plugins: Record<ModelProvider, () => GenkitPlugin> = {
+  googleai: () => googleAI(),
+  openai: () => openAICompatible({
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+  }),
+  ollama: () => ollama({serverAddress: process.env.OLLAMA_HOST || 'http://localhost:11434'}),
+  fake: () => fake({fixturesDir: process.env.FAKE_MODEL_FIXTURES || '.data/model-fixtures', recordModel: recordModel()}),
+};
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: Array.from(configuredProviders(), provider => plugins[provider]()),
+  model: defaultModel(),
 });
@@ -0,0 +1,102 @@
+/**
+ * Which model each flow runs on, selected by environment variables.
+ *
+ * Models are named "<provider>/<model>", where the provider is one of:
+ * - "googleai" - Gemini through the Google AI API (GOOGLE_API_KEY or GEMINI_API_KEY).
+ * - "openai" - Any OpenAI-compatible chat completions endpoint (OPENAI_BASE_URL, OPENAI_API_KEY).
+ * - "ollama" - A local Ollama server, or anything speaking its HTTP API (OLLAMA_HOST).
+ * - "fake" - Recorded answers instead of a live model, for tests and offline demos: "fake/replay"
+ *   replays them from FAKE_MODEL_FIXTURES, and "fake/record" records the answers of AI_RECORD_MODEL.
+ *
+ * AI_MODEL sets the model for every flow, and AI_MODEL_<FLOW> overrides it for one
+ * flow, with the flow name in upper snake case, e.g. AI_MODEL_SUMMARIZE_JD=ollama/llama3.1
+ * for a cheap local model on summarizeJD and AI_MODEL_GENERATE_INTERVIEW_KIT=googleai/gemini-2.5-pro
+ * for a strong one on generateInterviewKit. Without either, a flow runs on the model
+ * its prompt file names (see src/ai/prompt-files.ts), else the Gemini default.
+ */
+
+import { FAKE_MODEL_MODES } from '@/ai/providers/fake';
+import { promptFileModels } from '@/ai/prompt-files';
+
+export const MODEL_PROVIDERS = ['googleai', 'openai', 'ollama', 'fake'] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export const DEFAULT_MODEL = 'googleai/gemini-2.0-flash';
+
+/** The flows whose model can be overridden. Flows with several prompts use the same model for all of them. */
+const AI_FLOW_NAMES = [
+  'summarizeJD',
+  'generateInterviewKit',
+  'customizeInterviewKit',
+  'regenerateQuestion',
+  'fillRequirementGaps',
+  'reviewModelAnswers',
+  'verifySqlAnswer',
+  'generateBehavioralQuestions',
+  'identifyPotentialProjects',
+  'reviewCandidateProfile',
+  'generateInitialQuestions',
+] as const;
+
+export type AiFlowName = (typeof AI_FLOW_NAMES)[number];
+
+/** The environment variable that overrides a flow's model, e.g. "AI_MODEL_SUMMARIZE_JD". */
+export const flowModelEnvVar = (flow: AiFlowName) =>
+  `AI_MODEL_${flow.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+
+const providerOf = (model: string) => model.split('/')[0] as ModelProvider;
+
+function checkModel(model: string, source: string): string {
+  if (!(MODEL_PROVIDERS as readonly string[]).includes(model.split('/')[0]) || !model.includes('/')) {
+    throw new Error(`${source} must name a model as "<provider>/<model>" with one of the providers ${MODEL_PROVIDERS.join(', ')}, got "${model}".`);
+  }
+  if (providerOf(model) === 'fake' && !(FAKE_MODEL_MODES as readonly string[]).includes(model.slice('fake/'.length))) {
+    throw new Error(`${source} must be one of ${FAKE_MODEL_MODES.map(mode => `fake/${mode}`).join(', ')} to use the fake model, got "${model}".`);
+  }
+  return model;
+}
+
+/** The model of every flow without an override: AI_MODEL, else `fallback`, which defaults to the Gemini default. */
+export function defaultModel(fallback = DEFAULT_MODEL): string {
+  const model = process.env.AI_MODEL?.trim();
+  return model ? checkModel(model, 'AI_MODEL') : fallback;
+}
+
+/**
+ * The model a flow runs on: its AI_MODEL_<FLOW> override, else the default model.
+ * `fallback` is the model a prompt version was written for, used when neither is set.
+ * The fake model keeps one fixture file per flow, so it is named after the flow and,
+ * when a prompt is given, the prompt, whose fixtures can then answer it alone,
+ * e.g. "fake/replay/summarizeJD" or "fake/replay/generateInterviewKit/padInterviewKit".
+ */
+export function modelFor(flow: AiFlowName, fallback?: string, prompt?: string): string {
+  const override = process.env[flowModelEnvVar(flow)]?.trim();
+  const model = override
+    ? checkModel(override, flowModelEnvVar(flow))
+    : defaultModel(fallback ? checkModel(fallback, 'The model of a prompt file') : undefined);
+  return providerOf(model) === 'fake' ? [model, flow, prompt].filter(Boolean).join('/') : model;
+}
+
+/** The real model whose answers "fake/record" records: AI_RECORD_MODEL, else the Gemini default. */
+export function recordModel(): string {
+  const model = process.env.AI_RECORD_MODEL?.trim() || DEFAULT_MODEL;
+  if (providerOf(checkModel(model, 'AI_RECORD_MODEL')) === 'fake') {
+    throw new Error(`AI_RECORD_MODEL must name a real model, got "${model}".`);
+  }
+  return model;
+}
+
+/**
+ * The providers the configured models use, so only those plugins are loaded and need credentials.
+ * The models of the prompt files count unless AI_MODEL replaces them all.
+ */
+export function configuredProviders(): Set<ModelProvider> {
+  const models = [
+    defaultModel(),
+    ...AI_FLOW_NAMES.map(flow => modelFor(flow)),
+    ...(process.env.AI_MODEL?.trim() ? [] : promptFileModels().map(model => checkModel(model, 'The model of a prompt file'))),
+  ];
+  if (models.some(model => model.startsWith('fake/record/'))) models.push(recordModel());
+  return new Set(models.map(providerOf));
+}
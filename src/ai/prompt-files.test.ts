@@ -0,0 +1,66 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync } from 'fs';
+import path from 'path';
+import { loadPromptVersions, pickPromptVersion, promptVersionEnvVar, promptVersionWeights } from '@/ai/prompt-files';
+
+const prompts = readdirSync(path.join(process.cwd(), 'src/ai/prompts'));
+
+describe('loadPromptVersions', () => {
+  it('reads the front matter and template of every prompt file', () => {
+    for (const prompt of prompts) {
+      for (const version of loadPromptVersions(prompt)) {
+        assert.match(version.version, /^v\d+$/, prompt);
+        assert.ok(version.author, prompt);
+        assert.ok(version.template.length > 0, prompt);
+        assert.ok(!version.template.startsWith('---'), prompt);
+      }
+    }
+  });
+
+  it('keeps a quoted description with a colon in it', () => {
+    assert.equal(
+      loadPromptVersions('generateInterviewKit')[0].description,
+      'Generates the full kit: JD requirements, competencies, questions and rubric.'
+    );
+  });
+
+  it('fails for a prompt without version files', () => {
+    assert.throws(() => loadPromptVersions('noSuchPrompt'), /No versions of the prompt "noSuchPrompt"/);
+  });
+});
+
+describe('promptVersionWeights', () => {
+  const envVar = promptVersionEnvVar('summarizeJD');
+  afterEach(() => delete process.env[envVar]);
+
+  it('runs the newest version without a setting', () => {
+    assert.equal(envVar, 'PROMPT_VERSION_SUMMARIZE_JD');
+    assert.deepEqual(promptVersionWeights('summarizeJD'), [{ version: 'v1', weight: 1 }]);
+  });
+
+  it('reads pinned and weighted versions from the setting', () => {
+    process.env[envVar] = 'v1';
+    assert.deepEqual(promptVersionWeights('summarizeJD'), [{ version: 'v1', weight: 1 }]);
+    process.env[envVar] = 'v1:90';
+    assert.deepEqual(promptVersionWeights('summarizeJD'), [{ version: 'v1', weight: 90 }]);
+  });
+
+  it('rejects unknown versions and settings without any weight', () => {
+    process.env[envVar] = 'v7';
+    assert.throws(() => promptVersionWeights('summarizeJD'), /must list versions of v1/);
+    process.env[envVar] = 'v1:0';
+    assert.throws(() => promptVersionWeights('summarizeJD'), /at least one version a weight above 0/);
+  });
+});
+
+describe('pickPromptVersion', () => {
+  it('picks each version for its share of the range', () => {
+    const weights = [{ version: 'v1', weight: 90 }, { version: 'v2', weight: 10 }];
+
+    assert.equal(pickPromptVersion(weights, 0), 'v1');
+    assert.equal(pickPromptVersion(weights, 0.89), 'v1');
+    assert.equal(pickPromptVersion(weights, 0.9), 'v2');
+    assert.equal(pickPromptVersion(weights, 0.999), 'v2');
+  });
+});
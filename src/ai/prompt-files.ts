@@ -0,0 +1,132 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+/**
+ * Versioned prompt templates, kept out of the flow source files.
+ *
+ * Each prompt has a directory under src/ai/prompts holding one file per version,
+ * e.g. src/ai/prompts/summarizeJD/v2.prompt. A file is a Handlebars template
+ * after a YAML front matter block:
+ *
+ *   ---
+ *   version: v2
+ *   author: Jane Doe
+ *   model: googleai/gemini-2.0-flash
+ *   temperature: 0.4
+ *   description: Asks for the seniority level first.
+ *   draft: true
+ *   ---
+ *
+ * "model" is the model the version was written for; AI_MODEL and AI_MODEL_<FLOW>
+ * take precedence over it. A draft version only runs when selected explicitly.
+ *
+ * Without configuration a prompt runs its newest version that is not a draft.
+ * PROMPT_VERSION_<PROMPT>, with the prompt name in upper snake case, pins a
+ * version ("v1", to roll back) or splits calls between versions by weight
+ * ("v1:90,v2:10", to roll out gradually).
+ */
+
+const PROMPTS_DIR = path.join(process.cwd(), 'src/ai/prompts');
+
+const PromptFrontMatterSchema = z.object({
+  version: z.string().regex(/^v\d+$/, 'must be "v" followed by a number, e.g. "v2"'),
+  author: z.string().min(1),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  description: z.string().optional(),
+  draft: z.boolean().optional(),
+});
+
+export type PromptVersion = z.infer<typeof PromptFrontMatterSchema> & {
+  /** The Handlebars template. */
+  template: string;
+};
+
+export interface PromptVersionWeight {
+  version: string;
+  weight: number;
+}
+
+/** The environment variable that selects a prompt's versions, e.g. "PROMPT_VERSION_SUMMARIZE_JD". */
+export const promptVersionEnvVar = (prompt: string) =>
+  `PROMPT_VERSION_${prompt.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+
+function parsePromptFile(file: string): PromptVersion {
+  const match = readFileSync(file, 'utf8').match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`Prompt file ${file} must start with a front matter block between "---" lines.`);
+  }
+  let frontMatter: unknown;
+  try {
+    frontMatter = parseYaml(match[1]);
+  } catch (error) {
+    throw new Error(`Prompt file ${file} has front matter that is not valid YAML: ${(error as Error).message}`);
+  }
+  const parsed = PromptFrontMatterSchema.safeParse(frontMatter ?? {});
+  if (!parsed.success) {
+    throw new Error(`Prompt file ${file} has invalid front matter: ${parsed.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join('; ')}`);
+  }
+  if (`${parsed.data.version}.prompt` !== path.basename(file)) {
+    throw new Error(`Prompt file ${file} declares version ${parsed.data.version}; it must be named ${parsed.data.version}.prompt.`);
+  }
+  return { ...parsed.data, template: match[2].trim() };
+}
+
+const cache = new Map<string, PromptVersion[]>();
+
+/** The versions of a prompt, oldest first. */
+export function loadPromptVersions(prompt: string): PromptVersion[] {
+  if (!cache.has(prompt)) {
+    const dir = path.join(PROMPTS_DIR, prompt);
+    const files = existsSync(dir) ? readdirSync(dir).filter(file => file.endsWith('.prompt')) : [];
+    if (files.length === 0) {
+      throw new Error(`No versions of the prompt "${prompt}" found in ${dir}.`);
+    }
+    cache.set(prompt, files
+      .map(file => parsePromptFile(path.join(dir, file)))
+      .sort((a, b) => Number(a.version.slice(1)) - Number(b.version.slice(1))));
+  }
+  return cache.get(prompt)!;
+}
+
+/** The models the prompt files name, so their providers can be loaded. */
+export function promptFileModels(): string[] {
+  if (!existsSync(PROMPTS_DIR)) return [];
+  return readdirSync(PROMPTS_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .flatMap(entry => loadPromptVersions(entry.name).flatMap(version => (version.model ? [version.model] : [])));
+}
+
+/** How calls to a prompt are split between its versions, from PROMPT_VERSION_<PROMPT> or else its newest non-draft version. */
+export function promptVersionWeights(prompt: string): PromptVersionWeight[] {
+  const versions = loadPromptVersions(prompt);
+  const envVar = promptVersionEnvVar(prompt);
+  const setting = process.env[envVar]?.trim();
+  if (!setting) {
+    const latest = versions.filter(v => !v.draft).at(-1);
+    if (!latest) throw new Error(`Every version of the prompt "${prompt}" is a draft; select one with ${envVar}.`);
+    return [{ version: latest.version, weight: 1 }];
+  }
+
+  const weights = setting.split(',').map(entry => {
+    const [version, weight = '1'] = entry.split(':').map(part => part.trim());
+    if (!versions.some(v => v.version === version) || !(Number(weight) >= 0)) {
+      throw new Error(`${envVar} must list versions of ${versions.map(v => v.version).join(', ')} as "v1" or "v1:90,v2:10", got "${setting}".`);
+    }
+    return { version, weight: Number(weight) };
+  });
+  if (!weights.some(w => w.weight > 0)) {
+    throw new Error(`${envVar} must give at least one version a weight above 0, got "${setting}".`);
+  }
+  return weights;
+}
+
+/** Picks a version by weight; `random` is a number in [0, 1). */
+export function pickPromptVersion(weights: PromptVersionWeight[], random = Math.random()): string {
+  const total = weights.reduce((sum, w) => sum + w.weight, 0);
+  let remaining = random * total;
+  const picked = weights.find(w => (remaining -= w.weight) < 0);
+  return (picked ?? weights.filter(w => w.weight > 0).at(-1)!).version;
+}
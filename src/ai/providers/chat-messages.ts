@@ -0,0 +1,92 @@
+import { getStreamingCallback, type Genkit, type StreamingCallback } from 'genkit';
+import type { GenerateResponseChunkData, MessageData } from 'genkit/model';
+
+/**
+ * A Genkit message flattened to what plain chat APIs (OpenAI-compatible, Ollama)
+ * accept: a role, text and images. Other media such as a resume PDF cannot be sent
+ * to them; the resume is normally extracted to text before prompting, so a note
+ * takes the file's place and the prompt still reads sensibly.
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  text: string;
+  /** Data or https URLs of images. */
+  images: string[];
+}
+
+const roles: Record<MessageData['role'], ChatMessage['role']> = {
+  system: 'system',
+  user: 'user',
+  model: 'assistant',
+  tool: 'user',
+};
+
+/**
+ * Converts Genkit messages for a chat API. When the request has an output schema,
+ * it is appended to the last message, as Genkit does for models without native
+ * structured output; the providers declare constrained output so Genkit passes the
+ * schema on instead of adding the instructions itself.
+ */
+export function toChatMessages(messages: MessageData[], outputSchema?: Record<string, unknown>): ChatMessage[] {
+  const converted = messages.map(message => {
+    const images: string[] = [];
+    const text = message.content.map(part => {
+      if (part.text !== undefined) return part.text;
+      if (part.media) {
+        const contentType = part.media.contentType ?? part.media.url.match(/^data:([^;,]+)/)?.[1];
+        if (contentType?.startsWith('image/')) {
+          images.push(part.media.url);
+          return '';
+        }
+        return `[An attached ${contentType ?? 'file'} was omitted because this model only accepts text and images.]`;
+      }
+      return '';
+    }).join('');
+    return { role: roles[message.role], text, images };
+  });
+  if (outputSchema && converted.length > 0) {
+    const last = converted[converted.length - 1];
+    last.text += `\n\nOutput should be in JSON format and conform to the following schema:\n\n\`\`\`\n${JSON.stringify(outputSchema)}\n\`\`\`\n`;
+  }
+  return converted;
+}
+
+/** Reads an error response body for the error message, without failing if it cannot be read. */
+export async function describeFailedResponse(provider: string, response: Response): Promise<string> {
+  const body = await response.text().catch(() => '');
+  return `${provider} request failed with status ${response.status}${body ? `: ${body.slice(0, 500)}` : ''}`;
+}
+
+/** Reads a streamed response body line by line, for servers that stream JSON lines or server-sent events. */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const lines = (buffer + value).split('\n');
+    buffer = lines.pop()!;
+    yield* lines;
+  }
+  if (buffer) yield buffer;
+}
+
+/**
+ * The caller's abort signal, for fetch. Genkit passes a stand-in object when the caller
+ * gave none, which fetch rejects, so only a real AbortSignal is passed on.
+ */
+export function fetchSignal(abortSignal: AbortSignal): AbortSignal | undefined {
+  return abortSignal instanceof AbortSignal ? abortSignal : undefined;
+}
+
+/**
+ * Where a model sends the chunks of its reply, or undefined if the caller does not
+ * stream. ai.generate passes the callback through the registry rather than the
+ * runner's sendChunk, so both are checked, as Genkit does for older model runners.
+ */
+export function streamingCallback(
+  ai: Genkit,
+  { streamingRequested, sendChunk }: { streamingRequested: boolean; sendChunk: StreamingCallback<GenerateResponseChunkData> }
+): StreamingCallback<GenerateResponseChunkData> | undefined {
+  return getStreamingCallback<GenerateResponseChunkData>(ai.registry) ?? (streamingRequested ? sendChunk : undefined);
+}
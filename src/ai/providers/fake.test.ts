@@ -0,0 +1,81 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { genkit } from 'genkit';
+import { fake } from '@/ai/providers/fake';
+
+const fixturesDir = mkdtempSync(path.join(os.tmpdir(), 'fake-model-test-'));
+after(() => rmSync(fixturesDir, { recursive: true, force: true }));
+
+// The "real" model that record mode asks, answering with the prompt it got.
+const ai = genkit({ plugins: [fake({ fixturesDir, recordModel: 'test/echo' })] });
+let recordModelCalls = 0;
+ai.defineModel({ name: 'test/echo' }, async request => {
+  recordModelCalls++;
+  const prompt = request.messages.at(-1)?.content.map(part => part.text).join('') ?? '';
+  return { message: { role: 'model', content: [{ text: `Answer to: ${prompt}` }] }, finishReason: 'stop' };
+});
+
+const fixtures = () => JSON.parse(readFileSync(path.join(fixturesDir, 'summarizeJD.json'), 'utf8')) as Record<string, unknown>;
+const writeFixtures = (flow: string, answers: Record<string, unknown>) =>
+  writeFileSync(path.join(fixturesDir, `${flow}.json`), JSON.stringify(answers));
+
+describe('fake model', () => {
+  beforeEach(() => {
+    readdirSync(fixturesDir).forEach(file => rmSync(path.join(fixturesDir, file)));
+    recordModelCalls = 0;
+  });
+
+  it('records the answer of the real model under a hash of the prompt', async () => {
+    const { text } = await ai.generate({ model: 'fake/record/summarizeJD', prompt: 'Summarize this JD.' });
+
+    assert.equal(text, 'Answer to: Summarize this JD.');
+    assert.equal(recordModelCalls, 1);
+    const entries = Object.entries(fixtures());
+    assert.equal(entries.length, 1);
+    assert.match(entries[0][0], /^[0-9a-f]{16}$/);
+    assert.equal(entries[0][1], 'Answer to: Summarize this JD.');
+  });
+
+  it('replays a recorded answer by the hash of its prompt, without the real model', async () => {
+    await ai.generate({ model: 'fake/record/summarizeJD', prompt: 'First JD.' });
+    await ai.generate({ model: 'fake/record/summarizeJD', prompt: 'Second JD.' });
+    recordModelCalls = 0;
+
+    const first = await ai.generate({ model: 'fake/replay/summarizeJD', prompt: 'First JD.' });
+    const second = await ai.generate({ model: 'fake/replay/summarizeJD', prompt: 'Second JD.' });
+
+    assert.equal(first.text, 'Answer to: First JD.');
+    assert.equal(second.text, 'Answer to: Second JD.');
+    assert.equal(recordModelCalls, 0);
+  });
+
+  it('fails on a prompt that was not recorded', async () => {
+    await ai.generate({ model: 'fake/record/summarizeJD', prompt: 'First JD.' });
+
+    await assert.rejects(ai.generate({ model: 'fake/replay/summarizeJD', prompt: 'Another JD.' }), /No fixture for prompt [0-9a-f]{16} of summarizeJD/);
+  });
+
+  it('answers a prompt from its own entry before the "*" entry', async () => {
+    writeFixtures('generateInterviewKit', { padInterviewKit: 'Padding.', '*': 'Anything.' });
+
+    const padded = await ai.generate({ model: 'fake/replay/generateInterviewKit/padInterviewKit', prompt: 'Pad the kit.' });
+    const generated = await ai.generate({ model: 'fake/replay/generateInterviewKit/generateInterviewKit', prompt: 'Write a kit.' });
+
+    assert.equal(padded.text, 'Padding.');
+    assert.equal(generated.text, 'Anything.');
+  });
+
+  it('answers a recorded prompt from its recording before its own entry', async () => {
+    await ai.generate({ model: 'fake/record/summarizeJD/summarizeJD', prompt: 'Recorded JD.' });
+    writeFixtures('summarizeJD', { ...fixtures(), summarizeJD: 'Hand-written.' });
+
+    const recorded = await ai.generate({ model: 'fake/replay/summarizeJD/summarizeJD', prompt: 'Recorded JD.' });
+    const other = await ai.generate({ model: 'fake/replay/summarizeJD/summarizeJD', prompt: 'Other JD.' });
+
+    assert.equal(recorded.text, 'Answer to: Recorded JD.');
+    assert.equal(other.text, 'Hand-written.');
+  });
+});
@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { genkitPlugin } from 'genkit/plugin';
+import { GenerationCommonConfigSchema, type GenerateRequest, type GenerateResponseChunkData, type GenerateResponseData } from 'genkit/model';
+import type { Genkit, StreamingCallback } from 'genkit';
+
+/**
+ * A Genkit plugin for a deterministic fake model, for flow tests and offline demos.
+ *
+ * Models are named "fake/<mode>/<flow>", or "fake/<mode>/<flow>/<prompt>" for a prompt of the flow:
+ * - "replay" answers every prompt from the flow's fixture file and never calls a real model.
+ * - "record" sends the prompt to a real model and saves its answer to the fixture file,
+ *   so the same prompt can be replayed later.
+ *
+ * A fixture file, "<flow>.json", maps a hash of the rendered prompt to the model's answer:
+ * the JSON output for prompts with an output schema, else the text. For hand-written
+ * fixtures, an entry named after a prompt answers that prompt, and a "*" entry answers
+ * any prompt of the flow that has neither a recorded answer nor an entry of its own.
+ *
+ * When the caller streams, the answer is sent in chunks of STREAM_CHUNK_LENGTH
+ * characters before it is returned, like a real model writing it.
+ */
+
+export const FAKE_MODEL_MODES = ['replay', 'record'] as const;
+
+export type FakeModelMode = (typeof FAKE_MODEL_MODES)[number];
+
+export interface FakeModelOptions {
+  /** The directory holding one fixture file per flow. */
+  fixturesDir: string;
+  /** The real model that answers in record mode, e.g. "googleai/gemini-2.0-flash". */
+  recordModel: string;
+}
+
+export type ModelFixtures = Record<string, unknown>;
+
+/** Any prompt without a recorded answer or an entry of its own gets the answer under this key, if there is one. */
+export const ANY_PROMPT = '*';
+
+const STREAM_CHUNK_LENGTH = 200;
+
+/** The fixture key of a request: a hash of its messages and output schema, which only change with the prompt input. */
+export function fixtureKey(request: GenerateRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ messages: request.messages, schema: request.output?.schema }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+const fixturesPath = (options: FakeModelOptions, flow: string) => path.join(options.fixturesDir, `${flow}.json`);
+
+function readFixtures(file: string): ModelFixtures {
+  return existsSync(file) ? (JSON.parse(readFileSync(file, 'utf8')) as ModelFixtures) : {};
+}
+
+function defineFakeModel(ai: Genkit, mode: FakeModelMode, flow: string, prompt: string | undefined, options: FakeModelOptions) {
+  ai.defineModel(
+    {
+      name: ['fake', mode, flow, prompt].filter(Boolean).join('/'),
+      label: `Fake (${mode}) - ${prompt ? `${flow}/${prompt}` : flow}`,
+      configSchema: GenerationCommonConfigSchema,
+      // Declared constrained so Genkit passes the schema on instead of rewriting the prompt, which keeps keys stable.
+      supports: { multiturn: true, systemRole: true, media: true, tools: false, output: ['text', 'json'], constrained: 'all' },
+    },
+    async (
+      request: GenerateRequest<typeof GenerationCommonConfigSchema>,
+      streamingCallback?: StreamingCallback<GenerateResponseChunkData>
+    ): Promise<GenerateResponseData> => {
+      const file = fixturesPath(options, flow);
+      const key = fixtureKey(request);
+      let answer: unknown;
+
+      if (mode === 'record') {
+        const response = await ai.generate({
+          model: options.recordModel,
+          messages: request.messages,
+          config: request.config,
+          output: request.output?.schema ? { jsonSchema: request.output.schema } : undefined,
+        });
+        answer = request.output?.schema ? response.output : response.text;
+        // Written synchronously, so prompts of one flow answered in parallel do not overwrite each other.
+        mkdirSync(options.fixturesDir, { recursive: true });
+        writeFileSync(file, `${JSON.stringify({ ...readFixtures(file), [key]: answer }, null, 2)}\n`);
+      } else {
+        const fixtures = readFixtures(file);
+        answer = [key, prompt, ANY_PROMPT].map(name => (name && name in fixtures ? fixtures[name] : undefined)).find(a => a !== undefined);
+        if (answer === undefined) {
+          throw new Error(`No fixture for prompt ${key}${prompt ? ` (${prompt})` : ''} of ${flow} in ${file}. Record one by running the flow with AI_MODEL=fake/record.`);
+        }
+      }
+
+      const text = typeof answer === 'string' ? answer : JSON.stringify(answer);
+      for (let i = 0; streamingCallback && i < text.length; i += STREAM_CHUNK_LENGTH) {
+        streamingCallback({ content: [{ text: text.slice(i, i + STREAM_CHUNK_LENGTH) }] });
+      }
+      return {
+        message: { role: 'model', content: [{ text }] },
+        finishReason: 'stop',
+      };
+    }
+  );
+}
+
+export function fake(options: FakeModelOptions) {
+  return genkitPlugin(
+    'fake',
+    async () => {},
+    async (ai, actionType, actionName) => {
+      const [mode, flow, prompt] = actionName.split('/');
+      if (actionType === 'model' && (FAKE_MODEL_MODES as readonly string[]).includes(mode) && flow) {
+        defineFakeModel(ai, mode as FakeModelMode, flow, prompt, options);
+      }
+    }
+  );
+}
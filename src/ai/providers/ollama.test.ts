@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { genkit } from 'genkit';
+import { ollama } from '@/ai/providers/ollama';
+
+// Streams a reply in two pieces, or never answers a prompt of "hang".
+const requests: Record<string, unknown>[] = [];
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const request = JSON.parse(body);
+    requests.push(request);
+    if (request.messages.at(-1).content === 'hang') return;
+    if (!request.stream) {
+      res.end(JSON.stringify({ message: { content: 'Hello there.' }, done_reason: 'stop', prompt_eval_count: 3, eval_count: 2 }));
+      return;
+    }
+    res.write(`${JSON.stringify({ message: { content: 'Hello' }, done: false })}\n`);
+    res.end(`${JSON.stringify({ message: { content: ' there.' }, done: true, done_reason: 'length', prompt_eval_count: 3, eval_count: 2 })}\n`);
+  });
+});
+let ai: ReturnType<typeof genkit>;
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  ai = genkit({ plugins: [ollama({ serverAddress: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` })] });
+});
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('ollama', () => {
+  it('answers in one piece when the caller does not stream', async () => {
+    const response = await ai.generate({ model: 'ollama/llama3.1', prompt: 'Hi' });
+
+    assert.equal(response.text, 'Hello there.');
+    assert.equal(requests.at(-1)?.stream, false);
+  });
+
+  it('sends each piece of a streamed reply as a chunk', async () => {
+    const { stream, response } = ai.generateStream({ model: 'ollama/llama3.1', prompt: 'Hi' });
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk.text);
+
+    assert.deepEqual(chunks, ['Hello', ' there.']);
+    assert.equal((await response).text, 'Hello there.');
+    assert.equal((await response).finishReason, 'length');
+    assert.equal((await response).usage.outputTokens, 2);
+  });
+
+  it('cancels the request when the caller aborts', async () => {
+    // ai.generate does not hand its abort signal on to models in this Genkit version, so the model is run directly.
+    const model = await ai.registry.lookupAction('/model/ollama/llama3.1');
+    const controller = new AbortController();
+    const generation = model.run({ messages: [{ role: 'user', content: [{ text: 'hang' }] }] }, { abortSignal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(generation, { name: 'AbortError' });
+  });
+});
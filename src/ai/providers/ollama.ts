@@ -0,0 +1,108 @@
+import { genkitPlugin } from 'genkit/plugin';
+import { GenerationCommonConfigSchema, type GenerateRequest, type GenerateResponseData } from 'genkit/model';
+import type { Genkit } from 'genkit';
+import { describeFailedResponse, fetchSignal, readLines, streamingCallback, toChatMessages } from '@/ai/providers/chat-messages';
+
+/**
+ * A Genkit plugin for a local Ollama server, or any server implementing Ollama's
+ * /api/chat endpoint. Nothing leaves the machine, and no API key is needed.
+ *
+ * Models are resolved on first use, so any "ollama/<model>" name works once the
+ * model has been pulled (e.g. `ollama pull llama3.1`). When the caller streams, the
+ * reply is streamed too, one JSON object per line, each sent on as a chunk.
+ */
+
+export interface OllamaOptions {
+  /** The server's base URL, e.g. "http://localhost:11434". */
+  serverAddress: string;
+}
+
+interface OllamaChatResponse {
+  message?: { content: string };
+  /** Set instead of a message when the server fails partway through a streamed reply. */
+  error?: string;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+const toResponseData = (text: string, chat: OllamaChatResponse): GenerateResponseData => ({
+  message: { role: 'model', content: [{ text }] },
+  finishReason: chat.done_reason === 'length' ? 'length' : 'stop',
+  usage: { inputTokens: chat.prompt_eval_count, outputTokens: chat.eval_count },
+});
+
+function defineOllamaModel(ai: Genkit, model: string, options: OllamaOptions) {
+  ai.defineModel(
+    {
+      apiVersion: 'v2',
+      name: `ollama/${model}`,
+      label: `Ollama - ${model}`,
+      configSchema: GenerationCommonConfigSchema,
+      supports: { multiturn: true, systemRole: true, media: true, tools: false, output: ['text', 'json'], constrained: 'all' },
+    },
+    async (
+      request: GenerateRequest<typeof GenerationCommonConfigSchema>,
+      runOptions
+    ): Promise<GenerateResponseData> => {
+      const sendChunk = streamingCallback(ai, runOptions);
+      const messages = toChatMessages(request.messages, request.output?.schema).map(({ role, text, images }) => ({
+        role,
+        content: text,
+        // Ollama takes images as bare base64; remote image URLs are not supported.
+        ...(images.length > 0 ? { images: images.flatMap(url => url.match(/^data:[^;]+;base64,(.*)$/)?.slice(1) ?? []) } : {}),
+      }));
+      const response = await fetch(`${options.serverAddress.replace(/\/+$/, '')}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: !!sendChunk,
+          // Ollama constrains the reply to the schema while decoding.
+          ...(request.output?.schema ? { format: request.output.schema } : {}),
+          options: {
+            temperature: request.config?.temperature,
+            top_p: request.config?.topP,
+            top_k: request.config?.topK,
+            num_predict: request.config?.maxOutputTokens,
+            stop: request.config?.stopSequences,
+          },
+        }),
+        signal: fetchSignal(runOptions.abortSignal),
+      });
+      if (!response.ok) {
+        throw new Error(await describeFailedResponse('Ollama', response));
+      }
+      if (!sendChunk) {
+        const chat = (await response.json()) as OllamaChatResponse;
+        return toResponseData(chat.message?.content ?? '', chat);
+      }
+
+      // The last line of a streamed reply carries the finish reason and token counts.
+      let text = '';
+      let chat: OllamaChatResponse = {};
+      for await (const line of readLines(response)) {
+        if (!line.trim()) continue;
+        chat = JSON.parse(line) as OllamaChatResponse;
+        if (chat.error) throw new Error(`Ollama request failed: ${chat.error}`);
+        const content = chat.message?.content;
+        if (content) {
+          text += content;
+          sendChunk({ content: [{ text: content }] });
+        }
+      }
+      return toResponseData(text, chat);
+    }
+  );
+}
+
+export function ollama(options: OllamaOptions) {
+  return genkitPlugin(
+    'ollama',
+    async () => {},
+    async (ai, actionType, actionName) => {
+      if (actionType === 'model') defineOllamaModel(ai, actionName, options);
+    }
+  );
+}
@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { genkit } from 'genkit';
+import { openAICompatible } from '@/ai/providers/openai-compatible';
+
+// Streams a reply in two pieces followed by the usage, or never answers a prompt of "hang".
+const requests: Record<string, unknown>[] = [];
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const request = JSON.parse(body);
+    requests.push(request);
+    if (request.messages.at(-1).content === 'hang') return;
+    if (!request.stream) {
+      res.end(JSON.stringify({
+        choices: [{ message: { content: 'Hello there.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      }));
+      return;
+    }
+    const event = (data: unknown) => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+    res.write(event({ choices: [{ delta: { role: 'assistant', content: 'Hello' }, finish_reason: null }] }));
+    res.write(event({ choices: [{ delta: { content: ' there.' }, finish_reason: 'length' }] }));
+    res.write(event({ choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } }));
+    res.end(event('[DONE]'));
+  });
+});
+let ai: ReturnType<typeof genkit>;
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  ai = genkit({ plugins: [openAICompatible({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` })] });
+});
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('openAICompatible', () => {
+  it('answers in one piece when the caller does not stream', async () => {
+    const response = await ai.generate({ model: 'openai/gpt-4o-mini', prompt: 'Hi' });
+
+    assert.equal(response.text, 'Hello there.');
+    assert.equal(requests.at(-1)?.stream, undefined);
+  });
+
+  it('sends each delta of a streamed reply as a chunk', async () => {
+    const { stream, response } = ai.generateStream({ model: 'openai/gpt-4o-mini', prompt: 'Hi' });
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk.text);
+
+    assert.deepEqual(chunks, ['Hello', ' there.']);
+    assert.deepEqual(requests.at(-1)?.stream_options, { include_usage: true });
+    assert.equal((await response).text, 'Hello there.');
+    assert.equal((await response).finishReason, 'length');
+    assert.equal((await response).usage.totalTokens, 5);
+  });
+
+  it('cancels the request when the caller aborts', async () => {
+    // ai.generate does not hand its abort signal on to models in this Genkit version, so the model is run directly.
+    const model = await ai.registry.lookupAction('/model/openai/gpt-4o-mini');
+    const controller = new AbortController();
+    const generation = model.run({ messages: [{ role: 'user', content: [{ text: 'hang' }] }] }, { abortSignal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(generation, { name: 'AbortError' });
+  });
+});
@@ -0,0 +1,140 @@
+import { genkitPlugin } from 'genkit/plugin';
+import { GenerationCommonConfigSchema, type GenerateRequest, type GenerateResponseData } from 'genkit/model';
+import type { Genkit } from 'genkit';
+import { describeFailedResponse, fetchSignal, readLines, streamingCallback, toChatMessages } from '@/ai/providers/chat-messages';
+
+/**
+ * A Genkit plugin for any OpenAI-compatible chat completions endpoint: OpenAI itself,
+ * Azure OpenAI, OpenRouter, vLLM, LM Studio and similar servers.
+ *
+ * Models are resolved on first use, so any "openai/<model>" name works as long as
+ * the endpoint serves that model. When the caller streams, the reply is streamed too,
+ * as server-sent events whose deltas are sent on as chunks.
+ */
+
+export interface OpenAICompatibleOptions {
+  /** The API base URL, up to and including the version, e.g. "https://api.openai.com/v1". */
+  baseUrl: string;
+  apiKey?: string;
+}
+
+type OpenAIContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIChatCompletion {
+  choices: { message: { content: string | null }; finish_reason: string | null }[];
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatCompletionChunk {
+  choices?: { delta: { content?: string | null }; finish_reason: string | null }[];
+  usage?: OpenAIUsage | null;
+  /** Sent instead of choices when the server fails partway through a streamed reply. */
+  error?: { message?: string };
+}
+
+const finishReasons: Record<string, GenerateResponseData['finishReason']> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'blocked',
+};
+
+const toResponseData = (text: string, finishReason: string | null | undefined, usage: OpenAIUsage | null | undefined): GenerateResponseData => ({
+  message: { role: 'model', content: [{ text }] },
+  finishReason: finishReasons[finishReason ?? ''] ?? 'other',
+  usage: {
+    inputTokens: usage?.prompt_tokens,
+    outputTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens,
+  },
+});
+
+function defineOpenAICompatibleModel(ai: Genkit, model: string, options: OpenAICompatibleOptions) {
+  ai.defineModel(
+    {
+      apiVersion: 'v2',
+      name: `openai/${model}`,
+      label: `OpenAI-compatible - ${model}`,
+      configSchema: GenerationCommonConfigSchema,
+      supports: { multiturn: true, systemRole: true, media: true, tools: false, output: ['text', 'json'], constrained: 'all' },
+    },
+    async (
+      request: GenerateRequest<typeof GenerationCommonConfigSchema>,
+      runOptions
+    ): Promise<GenerateResponseData> => {
+      const sendChunk = streamingCallback(ai, runOptions);
+      const messages = toChatMessages(request.messages, request.output?.schema).map(({ role, text, images }) => ({
+        role,
+        content: (images.length === 0
+          ? text
+          : [{ type: 'text', text }, ...images.map(url => ({ type: 'image_url', image_url: { url } }))]) as OpenAIContent,
+      }));
+      const response = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.config?.temperature,
+          top_p: request.config?.topP,
+          max_tokens: request.config?.maxOutputTokens,
+          stop: request.config?.stopSequences,
+          // The schema is in the prompt; JSON mode makes sure the reply parses. Strict json_schema mode is not
+          // used since many compatible servers lack it and it rejects schemas with optional fields.
+          ...(request.output?.schema ? { response_format: { type: 'json_object' } } : {}),
+          // Without include_usage a streamed reply has no token counts.
+          ...(sendChunk ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: fetchSignal(runOptions.abortSignal),
+      });
+      if (!response.ok) {
+        throw new Error(await describeFailedResponse('OpenAI-compatible', response));
+      }
+      if (!sendChunk) {
+        const completion = (await response.json()) as OpenAIChatCompletion;
+        const choice = completion.choices[0];
+        return toResponseData(choice?.message.content ?? '', choice?.finish_reason, completion.usage);
+      }
+
+      // Each event is a "data:" line with a chunk of the completion, until "data: [DONE]".
+      // The usage comes in a last chunk without choices.
+      let text = '';
+      let finishReason: string | null = null;
+      let usage: OpenAIUsage | null | undefined;
+      for await (const line of readLines(response)) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1];
+        if (!data) continue;
+        if (data === '[DONE]') break;
+        const chunk = JSON.parse(data) as OpenAIChatCompletionChunk;
+        if (chunk.error) throw new Error(`OpenAI-compatible request failed: ${chunk.error.message ?? 'unknown error'}`);
+        const choice = chunk.choices?.[0];
+        const content = choice?.delta.content;
+        if (content) {
+          text += content;
+          sendChunk({ content: [{ text: content }] });
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+        usage = chunk.usage ?? usage;
+      }
+      return toResponseData(text, finishReason, usage);
+    }
+  );
+}
+
+export function openAICompatible(options: OpenAICompatibleOptions) {
+  return genkitPlugin(
+    'openai',
+    async () => {},
+    async (ai, actionType, actionName) => {
+      if (actionType === 'model') defineOpenAICompatibleModel(ai, actionName, options);
+    }
+  );
+}
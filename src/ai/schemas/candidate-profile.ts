@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Zod schema for the structured candidate profile parsed from a resume.
+ *
+ * - CandidateProfileSchema - Education, work history, projects, certifications and evidenced skills.
+ */
+
+import {z} from 'genkit';
+
+const EducationSchema = z.object({
+  institution: z.string().describe('The school, college or university.'),
+  degree: z.string().describe('The degree or qualification, e.g. "B.Tech".'),
+  fieldOfStudy: z.string().optional().describe('The major or field of study.'),
+  startDate: z.string().optional().describe('Start date as written on the resume, normalized to "YYYY-MM" or "YYYY" where possible.'),
+  endDate: z.string().optional().describe('End date, normalized like startDate, or "Present".'),
+  grade: z.string().optional().describe('GPA, percentage or class, if stated.'),
+});
+
+const WorkExperienceSchema = z.object({
+  company: z.string().describe('The employer.'),
+  title: z.string().describe('The job title.'),
+  startDate: z.string().optional().describe('Start date, normalized to "YYYY-MM" or "YYYY" where possible.'),
+  endDate: z.string().optional().describe('End date, normalized like startDate, or "Present".'),
+  highlights: z.array(z.string()).describe('Key responsibilities and achievements, as short bullet points.'),
+});
+
+const ProjectSchema = z.object({
+  name: z.string().describe('The project name.'),
+  description: z.string().describe('One or two sentences on what the project does and its outcome.'),
+  techStack: z.array(z.string()).describe('Technologies, languages and tools used in the project.'),
+  role: z.string().optional().describe("The candidate's role or contribution, if stated."),
+});
+
+const CertificationSchema = z.object({
+  name: z.string().describe('The certification name.'),
+  issuer: z.string().optional().describe('The issuing organization.'),
+  date: z.string().optional().describe('The date obtained, if stated.'),
+});
+
+export const SkillProficiencySchema = z.enum(['beginner', 'intermediate', 'advanced', 'expert']);
+
+const SkillSchema = z.object({
+  name: z.string().describe('The skill, e.g. "PostgreSQL".'),
+  category: z.string().optional().describe('A category such as "Language", "Framework", "Database", "Cloud" or "Tool".'),
+  proficiency: SkillProficiencySchema.describe('Estimated proficiency, based only on the evidence in the resume (duration, depth and recency of use).'),
+  evidence: z.array(z.string()).describe('Short snippets copied verbatim from the resume that demonstrate the skill.'),
+});
+
+export const CandidateProfileSchema = z.object({
+  name: z.string().optional().describe("The candidate's name."),
+  headline: z.string().optional().describe("A one-line summary of the candidate's profile."),
+  education: z.array(EducationSchema).describe('Education history, most recent first.'),
+  workHistory: z.array(WorkExperienceSchema).describe('Work history including internships, most recent first.'),
+  projects: z.array(ProjectSchema).describe('Projects described in the resume.'),
+  certifications: z.array(CertificationSchema).describe('Certifications listed in the resume.'),
+  skills: z.array(SkillSchema).describe('Technical skills with evidence and estimated proficiency.'),
+});
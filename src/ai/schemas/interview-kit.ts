@@ -0,0 +1,197 @@
+/**
+ * @fileOverview Zod schemas shared by the interview kit flows.
+ *
+ * Flow files are marked 'use server' and may only export async functions, so
+ * schemas that more than one flow (or the client) relies on live here.
+ *
+ * - QuestionDifficultySchema - The difficulty levels a question can be tagged with.
+ * - QuestionTypeSchema - The kinds of technical question a kit can mix.
+ * - ModelAnswerBlockSchema - One code or point block of a structured model answer.
+ * - PartialCreditLevelSchema - One level of a question's partial-credit scale.
+ * - CodingLanguageSchema - The languages the local code runner can execute.
+ * - CodingTestCaseSchema - One input/expected-output test of a coding exercise.
+ * - CodingExerciseSchema - A runnable coding exercise: signature, starter code and hidden tests.
+ * - SqlExerciseSchema - The sample schema and data a SQL question's answer runs against.
+ * - AnswerReviewSchema - A second-pass review of a question and its model answer.
+ * - JdRequirementSchema - One requirement of the job description, with the JD text it was taken from.
+ * - QuestionAnswerPairSchema - A single question with its model answer and interviewer guidance.
+ * - CompetencySchema - A competency and the questions that assess it.
+ * - ScoringCriterionSchema - A weighted scoring rubric criterion.
+ * - ProjectSummarySchema - A resume project to deep-dive into, with probing questions.
+ * - BehavioralQuestionSchema - A behavioral question with its STAR evaluation guide.
+ * - InterviewKitSchema - The full kit: JD requirements, competencies, scoring rubric and the prompt versions behind it.
+ * - KitSettingsSchema - The recruiter's question count, duration, difficulty and type mix.
+ * - GenerateInterviewKitInputSchema - The JD, candidate sources and settings a kit is generated from.
+ * - StreamedQuestionSchema - A question sent while its kit is still being generated, with its competency and the progress so far.
+ */
+
+import {z} from 'genkit';
+import {SkillMapSchema} from '@/ai/schemas/jd-analysis';
+
+export const QuestionDifficultySchema = z.enum(['easy', 'medium', 'hard']);
+
+export const QuestionTypeSchema = z.enum(['conceptual', 'scenario', 'coding', 'system_design']);
+
+export const ModelAnswerBlockSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('point'),
+    text: z.string().describe('One self-contained point a strong answer makes, in a sentence or two. No leading bullet characters.'),
+    weight: z.number().describe('How important the point is for a good answer: 3 = essential, 2 = important, 1 = nice to have.'),
+  }),
+  z.object({
+    type: z.literal('code'),
+    language: z.string().optional().describe("The language of the code, e.g. 'python' or 'sql'."),
+    source: z.string().describe('The code or query itself, without backtick fences.'),
+    original: z.string().optional().describe('Only for questions that ask to fix, refactor or optimize given code: the original code the candidate is shown. The source then holds the improved version.'),
+  }),
+]);
+
+export const PartialCreditLevelSchema = z.object({
+  credit: z.number().describe('The share of full marks this level earns, between 0 and 1 (e.g. 1, 0.5, 0.25, 0).'),
+  description: z.string().describe('What an answer at this level covers or misses.'),
+});
+
+export const CodingLanguageSchema = z.enum(['javascript', 'typescript', 'python']);
+
+export const CodingTestCaseSchema = z.object({
+  args: z.string().describe('The arguments of the call as a JSON array, e.g. "[[2, 7, 11, 15], 9]".'),
+  expected: z.string().describe('The expected return value as JSON, e.g. "[0, 1]".'),
+  description: z.string().optional().describe("What the test checks, e.g. 'empty input' or 'duplicates'."),
+});
+
+export const CodingExerciseSchema = z.object({
+  language: CodingLanguageSchema.describe("The language the candidate solves the exercise in: 'javascript', 'typescript' or 'python'."),
+  functionName: z.string().describe('The name of the function the candidate implements, e.g. "two_sum" or "twoSum".'),
+  signature: z.string().describe('The full signature of the function, e.g. "def two_sum(nums: list[int], target: int) -> list[int]".'),
+  starterCode: z.string().describe('The code the candidate starts from: the signature with an empty body, without backtick fences.'),
+  tests: z.array(CodingTestCaseSchema).describe('4-8 hidden tests covering the typical case and the edge cases. Return values must be JSON-serializable.'),
+});
+
+export const SqlExerciseSchema = z.object({
+  setupSql: z.string().describe('SQLite statements that create a small sample schema (2-4 tables) and seed 5-15 rows per table, chosen so that the model answer returns a non-empty, meaningful result.'),
+  verified: z.boolean().optional().describe('Whether the model answer ran against the sample data. Do not generate this field; it will be added later.'),
+  verificationError: z.string().optional().describe('Why the model answer could not be verified. Do not generate this field; it will be added later.'),
+});
+
+export const AnswerReviewIssueSchema = z.object({
+  kind: z.enum(['factual_error', 'ambiguity', 'off_jd', 'other'])
+    .describe("'factual_error' (the answer is wrong or misleading), 'ambiguity' (the question allows several reasonable readings), 'off_jd' (the question is not grounded in the job description) or 'other'."),
+  description: z.string().describe('The problem, specific enough to fix it, e.g. which point of the answer is wrong and why.'),
+});
+
+export const AnswerReviewSchema = z.object({
+  confidence: z.number().describe('How confident the reviewer is that the question is clear, relevant and its model answer correct, between 0 and 1.'),
+  issues: z.array(AnswerReviewIssueSchema).describe('The problems found. Empty when there are none.'),
+});
+
+export const JdRequirementSchema = z.object({
+  id: z.string().describe('A short identifier: "R1", "R2" and so on, in the order the requirements appear in the JD.'),
+  text: z.string().describe("The requirement as a short skill or responsibility, e.g. 'Query optimization in PostgreSQL'."),
+  quote: z.string().describe('The sentence or phrase of the JD the requirement comes from, copied verbatim so it can be found in the JD text.'),
+});
+
+export const QuestionAnswerPairSchema = z.object({
+  id: z.string().optional().describe("A unique identifier. Do not generate this field; it will be added later."),
+  question: z.string().describe("A crisp, direct, and deeply technical interview question."),
+  modelAnswer: z.array(ModelAnswerBlockSchema).describe("The gold-standard answer as an ordered list of blocks: 'point' blocks for the points a strong answer makes and, where the question calls for it, 'code' blocks for code or queries. A code block comes first, followed by the points that explain it."),
+  difficulty: QuestionDifficultySchema.optional().describe("How hard the question is for a candidate at the role's level: 'easy', 'medium' or 'hard'."),
+  type: QuestionTypeSchema.optional().describe("The kind of question: 'conceptual' (explain or compare concepts), 'scenario' (analyze or solve a realistic situation), 'coding' (write or review code or queries) or 'system_design' (design a system or architecture)."),
+  interviewerNote: z.string().optional().describe("A strategic note for the interviewer: what the question really probes and how to steer the conversation. Never shown to the candidate."),
+  whatGoodLooksLike: z.string().optional().describe("One or two sentences describing the signals of a strong answer beyond the model answer's points."),
+  commonMistakes: z.array(z.string()).optional().describe("2-3 mistakes or misconceptions candidates commonly show on this question."),
+  partialCreditScale: z.array(PartialCreditLevelSchema).optional().describe("3-4 levels from full credit (1) down to no credit (0), describing what earns each."),
+  codingExercise: CodingExerciseSchema.optional().describe("Only for 'coding' questions that ask the candidate to implement a function: a runnable exercise the interviewer can test the candidate's solution against."),
+  sqlExercise: SqlExerciseSchema.optional().describe("Only for questions whose model answer is a SQL query: the sample schema and data the query runs against."),
+  review: AnswerReviewSchema.optional().describe("Do not generate this field; it is added by a separate review."),
+  requirementIds: z.array(z.string()).optional().describe("The ids of the JD requirements this question assesses, e.g. [\"R2\"]. Usually one, at most three."),
+});
+
+export const CompetencySchema = z.object({
+  id: z.string().optional().describe("A unique identifier. Do not generate this field; it will be added later."),
+  name: z.string().describe("A short name for the competency, e.g. 'SQL & Data Modelling'."),
+  description: z.string().describe("One sentence describing what this competency covers, grounded in the job description."),
+  questions: z.array(QuestionAnswerPairSchema).describe("The questions that assess this competency."),
+});
+
+export const ScoringCriterionSchema = z.object({
+  id: z.string().optional().describe("A unique identifier. Do not generate this field; it will be added later."),
+  criterion: z.string().describe("The name of the evaluation criterion, e.g. 'Technical Depth'."),
+  description: z.string().describe("What an interviewer should look for when scoring this criterion."),
+  weight: z.number().describe("The relative weight of this criterion, between 0 and 1. All weights should sum to 1.0."),
+});
+
+export const ProjectSummarySchema = z.object({
+  id: z.string().optional().describe("A unique identifier. Do not generate this field; it will be added later."),
+  projectName: z.string().describe('The name of the project.'),
+  summary: z.string().describe('A brief summary of the project and its relevance to real-world problems.'),
+  keySkills: z.string().describe('Relevant key skills used.'),
+  followUpQuestions: z.array(z.string()).describe('3-5 probing follow-up questions about design decisions, trade-offs, failures and measurable results.'),
+  redFlagChecks: z.array(z.string()).describe("2-3 checks that distinguish the candidate's personal ownership from the team's contribution."),
+  expectedDepth: z.string().describe("The depth of answer to expect given the candidate's seniority and the role."),
+});
+
+export const BehavioralQuestionSchema = z.object({
+  id: z.string().optional().describe("A unique identifier. Do not generate this field; it will be added later."),
+  competency: z.string().describe("The behavioral or culture-fit competency the question assesses, e.g. 'Ownership' or 'Stakeholder Communication'."),
+  question: z.string().describe("An open-ended behavioral question, e.g. 'Tell me about a time when...'."),
+  starCriteria: z.object({
+    situation: z.string().describe('What a strong answer establishes about the context.'),
+    task: z.string().describe("What a strong answer makes clear about the candidate's own responsibility."),
+    action: z.string().describe('The actions a strong answer describes, in the first person.'),
+    result: z.string().describe('The outcome and learning a strong answer reports, ideally measurable.'),
+  }).describe('What to listen for in each part of a STAR (Situation, Task, Action, Result) answer.'),
+  goodSignals: z.array(z.string()).describe('2-3 examples of what a strong answer sounds like.'),
+  poorSignals: z.array(z.string()).describe('2-3 examples of what a weak or concerning answer sounds like.'),
+  followUpProbes: z.array(z.string()).describe('2-3 follow-up probes to get past a rehearsed or vague answer.'),
+});
+
+export const InterviewKitSchema = z.object({
+  id: z.string().optional().describe("A unique identifier. Do not generate this field; it will be added later."),
+  requirements: z.array(JdRequirementSchema).optional()
+    .describe('Every distinct technical skill, tool or responsibility the job description asks for, each quoted from the JD. Questions reference them by id.'),
+  competencies: z.array(CompetencySchema)
+    .describe('Between 5 and 7 core competencies derived from the job description, each owning its questions. Across all competencies there must be exactly the requested number of questions.'),
+  scoringRubric: z.array(ScoringCriterionSchema)
+    .describe('Between 3 and 5 weighted scoring criteria tied to the key skills of the role. Weights must sum to 1.0.'),
+  projectDeepDive: z.array(ProjectSummarySchema).optional()
+    .describe('Resume projects to deep-dive into. Do not generate this field; it is added from the candidate resume.'),
+  behavioral: z.array(BehavioralQuestionSchema).optional()
+    .describe('The opt-in behavioral and culture-fit section. Do not generate this field; it is added separately.'),
+  promptVersions: z.record(z.string()).optional()
+    .describe('The version of every prompt that worked on the kit, by prompt name. Do not generate this field; it will be added later.'),
+});
+
+export const KitSettingsSchema = z.object({
+  questionCount: z.number().int().min(1).max(60).describe('The total number of questions in the kit.'),
+  durationMinutes: z.number().int().positive().optional().describe('How long the interview lasts, used to pace the questions.'),
+  difficultyDistribution: z.object({easy: z.number().min(0), medium: z.number().min(0), hard: z.number().min(0)}).optional()
+    .describe('Relative weights of easy, medium and hard questions. When omitted, difficulty is left to the model.'),
+  questionTypeMix: z.object({
+    conceptual: z.number().min(0),
+    scenario: z.number().min(0),
+    coding: z.number().min(0),
+    system_design: z.number().min(0),
+  }).optional()
+    .describe('Relative weights of each question type. When omitted, the mix is left to the model.'),
+  includeBehavioral: z.boolean().optional().describe('Whether to add a separate behavioral and culture-fit section to the kit.'),
+});
+
+export const GenerateInterviewKitInputSchema = z.object({
+  jobDescription: z.string().describe('The job description to generate an interview kit for.'),
+  unstopProfileLink: z.string().describe("Primary Source - COMPULSORY, conceptually treat this as if you are accessing and deeply analyzing the candidate's entire live profile for skills, projects, experience, education, academic achievements."),
+  candidateResumeDataUri: z.string().optional().describe("Primary Source - OPTIONAL, but CRUCIAL if provided. This is the full data URI (which includes Base64 encoded content of the PDF/DOCX file) of the candidate's resume. You MUST analyze it with extreme depth as if you are reading the original document, extracting all relevant skills, experiences, specific projects (including their tech stack, goals, accomplishments, challenges), educational background, academic achievements, and past work experiences. The quality of your questions depends on this deep analysis."),
+  candidateResumeFileName: z.string().optional().describe("The filename of the resume, for context."),
+  candidateResumeText: z.string().optional().describe("The candidate's resume as plain text, with '## ' section headings and '- ' bullet points. When omitted, it is extracted from candidateResumeDataUri; the file itself is only sent to the model if extraction fails."),
+  confirmedSkillMap: SkillMapSchema.optional().describe('The skill map the recruiter confirmed after analyzing the JD. When present, it defines which JD skills and tools the kit covers and how they are prioritized.'),
+  candidateExperienceContext: z.string().optional().describe('Optional brief context about the target candidate’s experience level, current role, or past tech stack. E.g., "Junior developer, 1-2 years exp, proficient in React" or "Senior architect, 10+ years, extensive AWS and microservices experience." This supplements the resume if provided.'),
+  settings: KitSettingsSchema.optional().describe('The question count, interview duration, difficulty distribution and question type mix. Defaults to 30 questions with the mix left to the model.'),
+});
+
+export const StreamedQuestionSchema = z.object({
+  competencyName: z.string(),
+  competencyDescription: z.string(),
+  question: QuestionAnswerPairSchema,
+  requirements: z.array(JdRequirementSchema).optional().describe('The JD requirements the question ids refer to. Sent with the first question only.'),
+  count: z.number().describe('How many questions have been sent so far, this one included.'),
+  total: z.number().describe('How many questions the kit was asked for.'),
+});
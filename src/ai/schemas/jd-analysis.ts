@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Zod schemas for the job description analysis step.
+ *
+ * - SeniorityLevelSchema - The seniority levels a JD can target.
+ * - SkillMapSchema - The recruiter-confirmed skills and tools a kit should cover.
+ */
+
+import {z} from 'genkit';
+
+export const SeniorityLevelSchema = z.enum(['intern', 'junior', 'mid', 'senior', 'lead', 'principal']);
+
+export const SkillMapSchema = z.object({
+  seniorityLevel: SeniorityLevelSchema.describe('The seniority level the role targets.'),
+  mustHaveSkills: z.array(z.string()).describe('Skills the candidate must have. Most questions should cover these.'),
+  niceToHaveSkills: z.array(z.string()).describe('Skills that are a plus but not required. Cover these lightly.'),
+  tools: z.array(z.string()).describe('Specific tools, platforms and technologies named in the JD.'),
+});
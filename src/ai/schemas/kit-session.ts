@@ -0,0 +1,50 @@
+/**
+ * @fileOverview Zod schema for a saved interview kit session.
+ *
+ * Sessions arrive from the client through the saveKitSession server action, so
+ * they are parsed against this schema before they are stored.
+ *
+ * - QuestionEvaluationSchema - The panel's score, notes and ticked answer points for one question.
+ * - KitSessionSchema - A kit with the JD, candidate and evaluations it was saved with.
+ */
+
+import {z} from 'genkit';
+import {CandidateProfileSchema} from '@/ai/schemas/candidate-profile';
+import {
+  CompetencySchema,
+  InterviewKitSchema,
+  KitSettingsSchema,
+  QuestionAnswerPairSchema,
+  ScoringCriterionSchema,
+} from '@/ai/schemas/interview-kit';
+
+export const QuestionEvaluationSchema = z.object({
+  score: z.number().min(0).optional(),
+  notes: z.string(),
+  checkedPoints: z.array(z.string()),
+});
+
+// A saved kit has been through the flows, so every part of it has its id.
+const SavedInterviewKitSchema = InterviewKitSchema.extend({
+  id: z.string(),
+  competencies: z.array(CompetencySchema.extend({
+    id: z.string(),
+    questions: z.array(QuestionAnswerPairSchema.extend({id: z.string()})),
+  })),
+  scoringRubric: z.array(ScoringCriterionSchema.extend({id: z.string()})),
+});
+
+export const KitSessionSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  jobDescription: z.string(),
+  unstopProfileLink: z.string(),
+  candidateResumeFileName: z.string().optional(),
+  kit: SavedInterviewKitSchema,
+  evaluations: z.record(QuestionEvaluationSchema),
+  rubricScores: z.record(z.number().min(0)).optional(),
+  scoreScale: z.union([z.literal(5), z.literal(10)]),
+  editedQuestionIds: z.array(z.string()),
+  candidateProfile: CandidateProfileSchema.extend({technicalSkills: z.array(z.string())}).optional(),
+  settings: KitSettingsSchema.optional(),
+});
@@ -0,0 +1,34 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AiFlowName } from '@/ai/models';
+import type { ModelFixtures } from '@/ai/providers/fake';
+
+/**
+ * Test setup for flows: every flow runs on the fake model, replaying fixtures that
+ * each test writes to a temporary directory. Import this before any flow, since the
+ * model is configured when Genkit starts.
+ */
+
+const fixturesDir = mkdtempSync(path.join(os.tmpdir(), 'model-fixtures-'));
+process.on('exit', () => rmSync(fixturesDir, { recursive: true, force: true }));
+
+process.env.AI_MODEL = 'fake/replay';
+process.env.FAKE_MODEL_FIXTURES = fixturesDir;
+for (const name of Object.keys(process.env)) {
+  if (name.startsWith('AI_MODEL_')) delete process.env[name];
+}
+
+/**
+ * Sets the model's answers for a flow's prompts: usually a single "*" entry answering
+ * all of them, or entries named after the prompts, e.g. "padInterviewKit", for flows
+ * whose prompts need different answers.
+ */
+export function useFixtures(flow: AiFlowName, fixtures: ModelFixtures) {
+  writeFileSync(path.join(fixturesDir, `${flow}.json`), JSON.stringify(fixtures));
+}
+
+/** Removes every fixture, so a flow a test did not set up fails instead of reusing another test's answers. */
+export function clearFixtures() {
+  for (const file of readdirSync(fixturesDir)) rmSync(path.join(fixturesDir, file));
+}
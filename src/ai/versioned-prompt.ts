@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { GenerateOptions, z } from 'genkit';
+import { ai } from '@/ai/genkit';
+import { modelFor, type AiFlowName } from '@/ai/models';
+import { loadPromptVersions, pickPromptVersion, promptVersionWeights } from '@/ai/prompt-files';
+
+/** Per-call options passed on to the prompt: onChunk streams the output as it is generated. */
+export type VersionedPromptOptions = Pick<GenerateOptions, 'onChunk' | 'abortSignal'>;
+
+export interface VersionedPromptResult<O extends z.ZodTypeAny> {
+  output: z.infer<O> | null;
+  /** The prompt version that produced the output, e.g. "v2". */
+  promptVersion: string;
+}
+
+/** Called with the name of a versioned prompt and its result, before the calling flow post-processes the output. */
+export type PromptOutputListener = (name: string, result: VersionedPromptResult<z.ZodTypeAny>) => void;
+
+const outputListeners = new Set<PromptOutputListener>();
+
+/**
+ * Passes the raw result of every versioned prompt call to listener, until the
+ * returned function is called. The eval harness uses it to score what a prompt
+ * wrote separately from the kit its flow makes of it.
+ */
+export function listenToPromptOutputs(listener: PromptOutputListener): () => void {
+  outputListeners.add(listener);
+  return () => outputListeners.delete(listener);
+}
+
+interface PromptVersionCollection {
+  versions: Record<string, string>;
+  /** The collection of the enclosing collectPromptVersions call, which sees the same versions. */
+  parent?: PromptVersionCollection;
+}
+
+const collections = new AsyncLocalStorage<PromptVersionCollection>();
+
+/**
+ * Runs fn and returns what it resolves with, along with the version of every
+ * versioned prompt called within it, by prompt name. Within fn each prompt keeps
+ * the version it was first picked at, so one kit never mixes two versions of a
+ * prompt while PROMPT_VERSION_<PROMPT> splits calls between them. Calls can be
+ * nested, as when a flow calls another flow: the versions the inner call picks
+ * are collected by the outer one too, and follow the outer one's picks.
+ */
+export async function collectPromptVersions<T>(fn: () => Promise<T>): Promise<{ result: T; promptVersions: Record<string, string> }> {
+  const collection: PromptVersionCollection = { versions: {}, parent: collections.getStore() };
+  const result = await collections.run(collection, fn);
+  return { result, promptVersions: collection.versions };
+}
+
+// The version a prompt already runs at in the enclosing collections, else a new pick, recorded in all of them.
+function collectedPromptVersion(name: string, pick: () => string): string {
+  const enclosing: PromptVersionCollection[] = [];
+  for (let collection = collections.getStore(); collection; collection = collection.parent) enclosing.push(collection);
+  const version = enclosing.map(collection => collection.versions[name]).find(Boolean) ?? pick();
+  enclosing.forEach(collection => { collection.versions[name] = version; });
+  return version;
+}
+
+/**
+ * Defines a prompt from its version files in src/ai/prompts/<name>. Every version
+ * is registered with Genkit as a variant of "<name>Prompt", so each can be run
+ * from the developer UI, and every call runs the version picked by the prompt's
+ * PROMPT_VERSION_<PROMPT> setting.
+ */
+export function defineVersionedPrompt<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(options: {
+  name: string;
+  /** The flow whose model setting the prompt follows. */
+  flow: AiFlowName;
+  input: { schema: I };
+  output: { schema: O };
+}): (input: z.infer<I>, options?: VersionedPromptOptions) => Promise<VersionedPromptResult<O>> {
+  const prompts = new Map(loadPromptVersions(options.name).map(version => [
+    version.version,
+    ai.definePrompt({
+      name: `${options.name}Prompt`,
+      variant: version.version,
+      model: modelFor(options.flow, version.model, options.name),
+      ...(version.temperature !== undefined ? { config: { temperature: version.temperature } } : {}),
+      input: options.input,
+      output: options.output,
+      prompt: version.template,
+    }),
+  ]));
+  // Read once, like the model settings, so a bad setting fails at startup rather than on the first call.
+  const weights = promptVersionWeights(options.name);
+
+  return async (input, callOptions) => {
+    // Genkit does not hand the signal on to the model, so a prompt called after its caller aborted must not start.
+    callOptions?.abortSignal?.throwIfAborted();
+    const promptVersion = collectedPromptVersion(options.name, () => pickPromptVersion(weights));
+    const { output } = await prompts.get(promptVersion)!(input, callOptions);
+    outputListeners.forEach(listener => listener(options.name, { output, promptVersion }));
+    return { output, promptVersion };
+  };
+}
@@ -0,0 +1,21 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Running candidate code and queries is opt-in: the /api/code routes are off unless
+ * CODE_RUNNER_ENABLED is "true" and CODE_RUNNER_TOKEN is set, and then they only
+ * serve requests that send the token as "Authorization: Bearer <token>".
+ */
+export function checkCodeRunnerAccess(request: Request): Response | null {
+  const token = process.env.CODE_RUNNER_TOKEN;
+  if (process.env.CODE_RUNNER_ENABLED !== 'true' || !token) {
+    return Response.json({ error: 'Running coding exercises is disabled on this server.' }, { status: 403 });
+  }
+  const given = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  // Hashed first, so the comparison takes the same time whatever the lengths.
+  if (!timingSafeEqual(digest(given), digest(token))) {
+    return Response.json({ error: 'A valid code runner token is required.' }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { CodingExerciseSchema } from '@/ai/schemas/interview-kit';
+import { checkCodeRunnerAccess } from '@/app/api/code/access';
+import { runCodingTests } from '@/lib/code-runner';
+import { normalizeCodingExercise } from '@/lib/interview-kit';
+
+const RunRequestSchema = z.object({
+  exercise: CodingExerciseSchema,
+  solution: z.string().max(50_000),
+});
+
+export async function POST(request: Request) {
+  const denied = checkCodeRunnerAccess(request);
+  if (denied) return denied;
+
+  const parsed = RunRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid run request.', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  // The function name is spliced into the test harness, so only exercises that normalize cleanly are run.
+  const exercise = normalizeCodingExercise(parsed.data.exercise);
+  if (!exercise) {
+    return Response.json({ error: 'The exercise has no valid function name or tests.' }, { status: 400 });
+  }
+
+  try {
+    return Response.json(await runCodingTests(exercise, parsed.data.solution));
+  } catch (error) {
+    console.error('Failed to run the solution:', error);
+    return Response.json({ error: 'The solution could not be run on this server.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { checkCodeRunnerAccess } from '@/app/api/code/access';
+import { runSqlQueries } from '@/lib/sql-runner';
+import { sqlQueryIsOrdered, sqlResultsMatch } from '@/lib/interview-kit';
+
+const SqlRunRequestSchema = z.object({
+  setupSql: z.string().min(1).max(50_000),
+  answerQuery: z.string().min(1).max(20_000),
+  query: z.string().min(1).max(20_000),
+});
+
+// Each run starts two worker threads, so only a few run at a time and the rest are turned away.
+const MAX_CONCURRENT_RUNS = 4;
+let activeRuns = 0;
+
+export async function POST(request: Request) {
+  const denied = checkCodeRunnerAccess(request);
+  if (denied) return denied;
+
+  const parsed = SqlRunRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid SQL run request.', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  if (activeRuns >= MAX_CONCURRENT_RUNS) {
+    return Response.json({ error: 'Too many queries are running. Please try again shortly.' }, { status: 429 });
+  }
+  activeRuns++;
+  try {
+    const { setupSql, answerQuery, query } = parsed.data;
+    const [expected, actual] = await runSqlQueries(setupSql, [answerQuery, query]);
+    return Response.json({ expected, actual, matches: sqlResultsMatch(expected, actual, sqlQueryIsOrdered(answerQuery)) });
+  } finally {
+    activeRuns--;
+  }
+}
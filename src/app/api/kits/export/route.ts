@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { InterviewKitSchema } from '@/ai/schemas/interview-kit';
+import { QuestionEvaluationSchema } from '@/ai/schemas/kit-session';
+import { exportKit } from '@/lib/kit-export';
+import type { InterviewKit } from '@/types/interview-kit';
+
+const ExportRequestSchema = z.object({
+  format: z.enum(['pdf', 'docx', 'markdown']),
+  audience: z.enum(['interviewer', 'candidate']),
+  title: z.string().min(1),
+  kit: InterviewKitSchema,
+  evaluations: z.record(QuestionEvaluationSchema).default({}),
+  rubricScores: z.record(z.number().min(0)).default({}),
+  scoreScale: z.union([z.literal(5), z.literal(10)]).default(10),
+});
+
+export async function POST(request: Request) {
+  const parsed = ExportRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid export request.', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { format, ...input } = parsed.data;
+  const file = await exportKit({ ...input, kit: input.kit as InterviewKit }, format);
+
+  return new Response(file.body, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+    },
+  });
+}
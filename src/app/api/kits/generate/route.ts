@@ -0,0 +1,47 @@
+import { GenerateInterviewKitInputSchema } from '@/ai/schemas/interview-kit';
+import { streamInterviewKit } from '@/ai/flows/generate-interview-kit-flow';
+import type { InterviewKit, KitGenerationEvent, StreamedQuestion } from '@/types/interview-kit';
+
+/**
+ * Generates a kit, sending each question as soon as the model has written it.
+ * The response is newline-delimited JSON: "question" events, then one "kit" or
+ * "error" event. Closing the connection cancels the generation.
+ */
+export async function POST(request: Request) {
+  const parsed = GenerateInterviewKitInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid kit generation request.', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: KitGenerationEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      try {
+        const kit = await streamInterviewKit(parsed.data, {
+          onQuestion: question => send({ type: 'question', ...(question as StreamedQuestion) }),
+          abortSignal: abort.signal,
+        });
+        send({ type: 'kit', kit: kit as InterviewKit });
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error("Failed to generate the interview kit:", error);
+          send({ type: 'error', error: 'The interview kit could not be generated.' });
+        }
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  });
+}
@@ -1,101 +1,267 @@
 
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Loader2, FileUp, Briefcase, RotateCcw } from 'lucide-react';
-import { generateInterviewKit, GenerateInterviewKitOutput } from '@/ai/flows/generate-interview-kit';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, FileUp, Briefcase, RotateCcw, Sparkles, ScanSearch } from 'lucide-react';
+import { customizeInterviewKit } from '@/ai/flows/customize-interview-kit';
+import { regenerateQuestion, type RegenerateQuestionDirective } from '@/ai/flows/regenerate-question';
+import { reviewCandidateProfile, type ReviewCandidateProfileOutput } from '@/ai/flows/review-candidate-profile';
+import { summarizeJD, type SummarizeJDOutput } from '@/ai/flows/summarize-jd';
+import { fillRequirementGaps } from '@/ai/flows/fill-requirement-gaps';
 import { useToast } from "@/hooks/use-toast"
 import { ThemeToggle } from '@/components/theme-toggle';
-import { Checkbox } from '@/components/ui/checkbox';
-
-// Helper component to render the model answer with special handling for code blocks
-const ModelAnswer = ({ answer, questionId }: { answer: string; questionId: string }) => {
-    // Split the answer by the code block delimiter to separate code from text
-    const parts = answer.split(/```(?:[a-z]*)?\n/);
-
-    return (
-        <div className="space-y-4">
-            {parts.map((part, index) => {
-                if (index % 2 === 1) {
-                    // This is a code block
-                    const codeContent = part.trim();
-                    const codeBlockId = `${questionId}-code-${index}`;
-                    return (
-                        <div key={codeBlockId} className="space-y-2">
-                           <div className="flex items-start space-x-3">
-                                <Checkbox id={codeBlockId} className="mt-1 flex-shrink-0" />
-                                <label htmlFor={codeBlockId} className="text-sm font-semibold w-full">Code Snippet:</label>
-                           </div>
-                           <div className="pl-7 w-full">
-                                <pre className="bg-muted p-4 rounded-md overflow-x-auto text-sm w-full">
-                                    <code>{codeContent}</code>
-                                </pre>
-                           </div>
-                        </div>
-                    );
-                } else {
-                    // This is a text section, which may contain bullet points
-                    const textContent = part.trim();
-                    if (!textContent) return null;
-
-                    const bullets = textContent.split('\n').map(b => b.trim()).filter(b => b.startsWith('-'));
-
-                    if (bullets.length === 0 && textContent.length > 0) {
-                        // Handle text that isn't a bulleted list
-                        const pointId = `${questionId}-text-${index}`;
-                        return (
-                             <div key={pointId} className="flex items-start space-x-3">
-                                 <Checkbox id={pointId} className="mt-1 flex-shrink-0" />
-                                 <label htmlFor={pointId} className="text-sm font-normal w-full">
-                                    {textContent}
-                                </label>
-                            </div>
-                        )
-                    }
-
-                    return (
-                        <div key={`${questionId}-text-section-${index}`} className="space-y-2">
-                             {bullets.length > 0 && index === 0 && (
-                                 <h5 className="font-semibold text-sm">Explanation:</h5>
-                             )}
-                             {bullets.map((bullet, bulletIndex) => {
-                                const bulletId = `${questionId}-bullet-${index}-${bulletIndex}`;
-                                const bulletText = bullet.substring(1).trim();
-                                return (
-                                    <div key={bulletId} className="flex items-start space-x-3 pl-7">
-                                        <Checkbox id={bulletId} className="mt-1 flex-shrink-0" />
-                                        <label htmlFor={bulletId} className="text-sm font-normal w-full">
-                                            {bulletText}
-                                        </label>
-                                    </div>
-                                );
-                             })}
-                        </div>
-                    );
-                }
-            })}
-        </div>
-    );
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { QuestionCard } from '@/components/interview-kit/question-card';
+import { ScoreSummary } from '@/components/interview-kit/score-summary';
+import { ScoringRubric } from '@/components/interview-kit/scoring-rubric';
+import { RecentKits } from '@/components/interview-kit/recent-kits';
+import { ExportMenu } from '@/components/interview-kit/export-menu';
+import { CandidateProfilePanel } from '@/components/interview-kit/candidate-profile-panel';
+import { ProjectDeepDive } from '@/components/interview-kit/project-deep-dive';
+import { JdAnalysisCard } from '@/components/interview-kit/jd-analysis-card';
+import { KitSettingsFields } from '@/components/interview-kit/kit-settings-fields';
+import { BehavioralSection } from '@/components/interview-kit/behavioral-section';
+import { JdCoverage } from '@/components/interview-kit/jd-coverage';
+import { PreviouslyAskedAlert } from '@/components/interview-kit/previously-asked';
+import { GenerationProgress } from '@/components/interview-kit/generation-progress';
+import { DEFAULT_KIT_SETTINGS, calculateKitScore, requirementCoverage, rescaleScore } from '@/lib/interview-kit';
+import { kitFromStreamedQuestions, streamKitGeneration } from '@/lib/kit-generation';
+import { extractCandidateResume } from '@/lib/candidate-resume';
+import type { ResumeContext } from '@/lib/resume-extraction';
+import { deleteKitSession, findPreviouslyAskedQuestions, getKitSession, listRecentKitSessions, saveKitSession } from '@/lib/kit-sessions';
+import type {
+  InterviewKit,
+  JdAnalysisSelection,
+  KitSession,
+  KitSettings,
+  KitSessionSummary,
+  PreviouslyAskedQuestion,
+  QuestionAnswerPair,
+  QuestionEvaluation,
+  ScoreScale,
+  StreamedQuestion,
+} from '@/types/interview-kit';
+
+const emptyEvaluation: QuestionEvaluation = { notes: '', checkedPoints: [] };
+
+/** The form input a kit was generated from, which is saved with it. */
+type KitInputs = Pick<KitSession, 'jobDescription' | 'unstopProfileLink' | 'candidateResumeFileName' | 'settings'>;
+
+const AUTOSAVE_DELAY_MS = 800;
+
+// Uses the first line of the JD (usually the role title) as a human-readable session title.
+const titleFromJobDescription = (jobDescription: string) => {
+  const firstLine = jobDescription.split('\n').map(l => l.trim()).find(Boolean) ?? 'Untitled kit';
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
 };
 
+// Keeps the open kit in the URL so a refresh reopens it.
+const setKitIdInUrl = (id: string | null) => {
+  const url = new URL(window.location.href);
+  if (id) {
+    url.searchParams.set('kit', id);
+  } else {
+    url.searchParams.delete('kit');
+  }
+  window.history.replaceState(null, '', url);
+};
+
+// Every skill and tool the analysis found starts out included, at the priority the JD gave it.
+const selectionFromAnalysis = (analysis: SummarizeJDOutput): JdAnalysisSelection => ({
+  seniorityLevel: analysis.seniorityLevel,
+  skills: [
+    ...analysis.mustHaveSkills.map(name => ({ name, priority: 'must_have' as const, included: true })),
+    ...analysis.niceToHaveSkills.map(name => ({ name, priority: 'nice_to_have' as const, included: true })),
+  ],
+  tools: analysis.tools.map(name => ({ name, included: true })),
+});
 
 export default function Home() {
   const [jobDescription, setJobDescription] = useState('');
   const [unstopProfileLink, setUnstopProfileLink] = useState('');
   const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [resumeFileName, setResumeFileName] = useState<string | undefined>();
   const [isLoading, setIsLoading] = useState(false);
-  const [interviewKit, setInterviewKit] = useState<GenerateInterviewKitOutput | null>(null);
+  // The questions of the kit being generated, shown as they arrive.
+  const [streamedQuestions, setStreamedQuestions] = useState<StreamedQuestion[]>([]);
+  const [interviewKit, setInterviewKit] = useState<InterviewKit | null>(null);
+  // Set along with the kit, so editing the form afterwards drafts the next kit rather than changing this one.
+  const [kitInputs, setKitInputs] = useState<KitInputs | null>(null);
+  // The resume text extracted on generation (or the file, if none could be), reused by every later flow.
+  const [resume, setResume] = useState<ResumeContext | undefined>();
+  const [editedQuestionIds, setEditedQuestionIds] = useState<Set<string>>(new Set());
+  const [isRefining, setIsRefining] = useState(false);
+  const [regeneratingQuestionIds, setRegeneratingQuestionIds] = useState<Set<string>>(new Set());
+  const [fillingRequirementIds, setFillingRequirementIds] = useState<Set<string>>(new Set());
+  const [previouslyAsked, setPreviouslyAsked] = useState<PreviouslyAskedQuestion[]>([]);
+  const [evaluations, setEvaluations] = useState<Record<string, QuestionEvaluation>>({});
+  const [rubricScores, setRubricScores] = useState<Record<string, number>>({});
+  const [scoreScale, setScoreScale] = useState<ScoreScale>(10);
+  const [recentSessions, setRecentSessions] = useState<KitSessionSummary[]>([]);
+  const [candidateProfile, setCandidateProfile] = useState<ReviewCandidateProfileOutput | null>(null);
+  const [isProfileLoading, setIsProfileLoading] = useState(false);
+  const [jdAnalysis, setJdAnalysis] = useState<SummarizeJDOutput | null>(null);
+  const [jdSelection, setJdSelection] = useState<JdAnalysisSelection | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [kitSettings, setKitSettings] = useState<KitSettings>(DEFAULT_KIT_SETTINGS);
+  const [activeKitTab, setActiveKitTab] = useState('questions');
+  // Technical interviewers can hide the behavioral section from the view and from exports.
+  const [showBehavioral, setShowBehavioral] = useState(true);
   const { toast } = useToast();
   const resumeInputRef = useRef<HTMLInputElement>(null);
+  const generationController = useRef<AbortController | null>(null);
+  // Serialized form of the last saved session, so unchanged state is not written again.
+  const lastSavedSnapshot = useRef<string | null>(null);
+
+  const refreshRecentSessions = useCallback(async () => {
+    try {
+      setRecentSessions(await listRecentKitSessions());
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  const restoreSession = useCallback((session: KitSession) => {
+    setJobDescription(session.jobDescription);
+    setUnstopProfileLink(session.unstopProfileLink);
+    setResumeFile(null);
+    setResumeFileName(session.candidateResumeFileName);
+    setResume(undefined);
+    setInterviewKit(session.kit);
+    setKitInputs({
+      jobDescription: session.jobDescription,
+      unstopProfileLink: session.unstopProfileLink,
+      candidateResumeFileName: session.candidateResumeFileName,
+      settings: session.settings,
+    });
+    setActiveKitTab('questions');
+    setEvaluations(session.evaluations);
+    setRubricScores(session.rubricScores ?? {});
+    setScoreScale(session.scoreScale);
+    setEditedQuestionIds(new Set(session.editedQuestionIds));
+    setCandidateProfile(session.candidateProfile ?? null);
+    setKitSettings(session.settings ?? DEFAULT_KIT_SETTINGS);
+    setJdAnalysis(null);
+    setJdSelection(null);
+    if (resumeInputRef.current) {
+      resumeInputRef.current.value = "";
+    }
+    const { createdAt, updatedAt, ...snapshot } = session;
+    lastSavedSnapshot.current = JSON.stringify(snapshot);
+    setKitIdInUrl(session.id);
+  }, []);
+
+  // Reopen the kit referenced in the URL (if any) and load the recent kits list.
+  useEffect(() => {
+    const kitId = new URLSearchParams(window.location.search).get('kit');
+    if (kitId) {
+      getKitSession(kitId)
+        .then(session => {
+          if (session) {
+            restoreSession(session);
+          } else {
+            setKitIdInUrl(null);
+          }
+        })
+        .catch(error => console.error(error));
+    }
+    refreshRecentSessions();
+  }, [restoreSession, refreshRecentSessions]);
+
+  // Autosave the open kit together with the panel's scores and notes.
+  useEffect(() => {
+    if (!interviewKit || !kitInputs) return;
+    const session: Omit<KitSession, 'createdAt' | 'updatedAt'> = {
+      id: interviewKit.id,
+      title: titleFromJobDescription(kitInputs.jobDescription),
+      jobDescription: kitInputs.jobDescription,
+      unstopProfileLink: kitInputs.unstopProfileLink,
+      candidateResumeFileName: kitInputs.candidateResumeFileName,
+      kit: interviewKit,
+      evaluations,
+      rubricScores,
+      scoreScale,
+      editedQuestionIds: Array.from(editedQuestionIds),
+      candidateProfile: candidateProfile ?? undefined,
+      settings: kitInputs.settings,
+    };
+    const snapshot = JSON.stringify(session);
+    if (snapshot === lastSavedSnapshot.current) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        await saveKitSession(session);
+        lastSavedSnapshot.current = snapshot;
+        refreshRecentSessions();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Error Saving Kit",
+          description: "Your latest changes could not be saved. They will be retried on the next change.",
+          variant: "destructive",
+        })
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [interviewKit, kitInputs, evaluations, rubricScores, scoreScale, editedQuestionIds, candidateProfile, refreshRecentSessions, toast]);
+
+  // Only the question texts matter for the repeat check, so scoring and notes do not trigger it. They are
+  // compared as a string, since every change to the kit makes a new array even if the questions stay the same.
+  const kitId = interviewKit?.id;
+  const candidateLink = kitInputs?.unstopProfileLink;
+  const kitQuestionsKey = useMemo(
+    () => JSON.stringify(interviewKit?.competencies.flatMap(c => c.questions.map(q => ({ id: q.id, question: q.question }))) ?? []),
+    [interviewKit]
+  );
+
+  // Warn when the candidate already saw some of these questions in an earlier kit. The check is best effort.
+  useEffect(() => {
+    if (!kitId || !candidateLink?.trim()) {
+      setPreviouslyAsked([]);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      findPreviouslyAskedQuestions(kitId, candidateLink, JSON.parse(kitQuestionsKey))
+        .then(matches => { if (!cancelled) setPreviouslyAsked(matches); })
+        .catch(error => console.error(error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [kitId, candidateLink, kitQuestionsKey]);
+
+  const previouslyAskedByQuestion = useMemo(
+    () => new Map(previouslyAsked.map(match => [match.questionId, match])),
+    [previouslyAsked]
+  );
+
+  // Questions are numbered sequentially across competencies.
+  const questionNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    interviewKit?.competencies.flatMap(c => c.questions).forEach((q, index) => numbers.set(q.id, index + 1));
+    return numbers;
+  }, [interviewKit]);
+
+  const coverage = useMemo(() => interviewKit && requirementCoverage(interviewKit), [interviewKit]);
+
+  const kitScore = useMemo(
+    () => interviewKit && calculateKitScore(interviewKit, evaluations, rubricScores, scoreScale),
+    [interviewKit, evaluations, rubricScores, scoreScale]
+  );
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
       setResumeFile(event.target.files[0]);
+      setResumeFileName(event.target.files[0]?.name);
     }
   };
 
@@ -108,8 +274,49 @@ export default function Home() {
     });
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const clearJdAnalysis = () => {
+    setJdAnalysis(null);
+    setJdSelection(null);
+  };
+
+  // The analysis describes a specific JD, so it is dropped as soon as the JD text changes.
+  const handleJobDescriptionChange = (value: string) => {
+    setJobDescription(value);
+    if (jdAnalysis) clearJdAnalysis();
+  };
+
+  const handleAnalyzeJD = async () => {
+    if (!jobDescription.trim()) {
+        toast({
+            title: "Job Description Required",
+            description: "Please provide a job description to analyze.",
+            variant: "destructive",
+        })
+        return;
+    }
+    setIsAnalyzing(true);
+    try {
+        const analysis = await summarizeJD({ jobDescription });
+        setJdAnalysis(analysis);
+        setJdSelection(selectionFromAnalysis(analysis));
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Analyzing Job Description",
+            description: "There was an issue analyzing the job description. Please try again.",
+            variant: "destructive",
+        })
+    } finally {
+        setIsAnalyzing(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    generateKit();
+  };
+
+  const generateKit = async () => {
     if (!jobDescription) {
         toast({
             title: "Job Description Required",
@@ -127,25 +334,62 @@ export default function Home() {
         return;
     }
     setIsLoading(true);
+    setStreamedQuestions([]);
     setInterviewKit(null);
+    setKitInputs(null);
+    setActiveKitTab('questions');
+    setEditedQuestionIds(new Set());
+    setEvaluations({});
+    setRubricScores({});
+    setCandidateProfile(null);
+    const controller = new AbortController();
+    generationController.current = controller;
+    // Kept outside of state too, so a cancelled generation can build its kit from them.
+    const received: StreamedQuestion[] = [];
+    const inputs: KitInputs = {
+      jobDescription,
+      unstopProfileLink,
+      candidateResumeFileName: resumeFile?.name,
+      settings: kitSettings,
+    };
 
     try {
-        let resumeDataUri: string | undefined;
-        let resumeFileName: string | undefined;
+        let extracted: ResumeContext | undefined;
 
         if (resumeFile) {
-            resumeDataUri = await fileToDataUri(resumeFile);
-            resumeFileName = resumeFile.name;
+            const dataUri = await fileToDataUri(resumeFile);
+            extracted = await extractCandidateResume(dataUri, resumeFile.name);
+            loadCandidateProfile(dataUri, resumeFile.name, extracted.candidateResumeText);
         }
+        setResume(extracted);
 
-        const kit = await generateInterviewKit({ 
-            jobDescription, 
+        const kit = await streamKitGeneration({
+            jobDescription,
             unstopProfileLink,
-            candidateResumeDataUri: resumeDataUri,
-            candidateResumeFileName: resumeFileName,
+            ...extracted,
+            candidateResumeFileName: resumeFile?.name,
+            confirmedSkillMap: jdSelection ? {
+                seniorityLevel: jdSelection.seniorityLevel,
+                mustHaveSkills: jdSelection.skills.filter(s => s.included && s.priority === 'must_have').map(s => s.name),
+                niceToHaveSkills: jdSelection.skills.filter(s => s.included && s.priority === 'nice_to_have').map(s => s.name),
+                tools: jdSelection.tools.filter(t => t.included).map(t => t.name),
+            } : undefined,
+            settings: kitSettings,
+        }, {
+            signal: controller.signal,
+            onQuestion: question => {
+                received.push(question);
+                setStreamedQuestions([...received]);
+            },
         });
         setInterviewKit(kit);
+        setKitInputs(inputs);
+        setKitIdInUrl(kit.id);
     } catch (error) {
+        if (controller.signal.aborted) {
+            keepCancelledKit(received, inputs);
+            return;
+        }
         console.error(error);
         toast({
             title: "Error Generating Kit",
@@ -153,18 +397,294 @@ export default function Home() {
             variant: "destructive",
         })
     } finally {
+        generationController.current = null;
+        setStreamedQuestions([]);
         setIsLoading(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationController.current?.abort();
+  };
+
+  // A cancelled generation keeps the questions received so far as a kit, which skips the plan, duplicate check and review.
+  const keepCancelledKit = (questions: StreamedQuestion[], inputs: KitInputs) => {
+    if (questions.length === 0) {
+      toast({
+        title: "Generation Cancelled",
+        description: "No questions had been generated yet.",
+      })
+      return;
+    }
+    const kit = kitFromStreamedQuestions(questions);
+    setInterviewKit(kit);
+    setKitInputs(inputs);
+    setKitIdInUrl(kit.id);
+    toast({
+      title: "Generation Cancelled",
+      description: `Kept the ${questions.length} ${questions.length === 1 ? 'question' : 'questions'} generated so far.`,
+    })
+  };
+
+  // Parses the resume into a profile alongside kit generation; a failure here never blocks the kit.
+  const loadCandidateProfile = async (dataUri: string, fileName: string, resumeText?: string) => {
+    setIsProfileLoading(true);
+    try {
+        setCandidateProfile(await reviewCandidateProfile({ resumeDataUri: dataUri, resumeFileName: fileName, resumeText }));
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Analyzing Resume",
+            description: "The candidate profile could not be built from the resume. The kit is unaffected.",
+            variant: "destructive",
+        })
+    } finally {
+        setIsProfileLoading(false);
+    }
+  };
+
+  const handleQuestionChange = (questionId: string, changes: Pick<QuestionAnswerPair, 'question' | 'modelAnswer' | 'sqlExercise'>) => {
+    setInterviewKit(kit => kit && {
+      ...kit,
+      competencies: kit.competencies.map(c => ({
+        ...c,
+        // The review was of the generated wording, so it no longer applies after a hand edit.
+        questions: c.questions.map(q => (q.id === questionId ? { ...q, ...changes, review: undefined } : q)),
+      })),
+    });
+    setEditedQuestionIds(ids => new Set(ids).add(questionId));
+    // Checked points are keyed by their position in the answer, so they no longer line up after an edit.
+    handleEvaluationChange(questionId, { checkedPoints: [] });
+  };
+
+  const handleEvaluationChange = (questionId: string, changes: Partial<QuestionEvaluation>) => {
+    setEvaluations(current => ({
+      ...current,
+      [questionId]: { ...emptyEvaluation, ...current[questionId], ...changes },
+    }));
+  };
+
+  const handleRubricScoreChange = (criterionId: string, score: number | undefined) => {
+    setRubricScores(current => {
+      const next = { ...current };
+      if (score === undefined) {
+        delete next[criterionId];
+      } else {
+        next[criterionId] = score;
+      }
+      return next;
+    });
+  };
+
+  const handleScoreScaleChange = (scale: ScoreScale) => {
+    // Rescale existing scores proportionally so switching between 1-5 and 1-10 keeps their meaning.
+    setEvaluations(current => Object.fromEntries(
+      Object.entries(current).map(([id, evaluation]) => [id, {
+        ...evaluation,
+        score: evaluation.score === undefined ? undefined : rescaleScore(evaluation.score, scoreScale, scale),
+      }])
+    ));
+    setRubricScores(current => Object.fromEntries(
+      Object.entries(current).map(([id, score]) => [id, rescaleScore(score, scoreScale, scale)])
+    ));
+    setScoreScale(scale);
+  };
+
+  const handleRegenerateQuestion = async (questionId: string, directive: RegenerateQuestionDirective) => {
+    if (!interviewKit) return;
+    const competency = interviewKit.competencies.find(c => c.questions.some(q => q.id === questionId));
+    const current = competency?.questions.find(q => q.id === questionId);
+    if (!competency || !current) return;
+
+    setRegeneratingQuestionIds(ids => new Set(ids).add(questionId));
+
+    try {
+        const { promptVersions, ...replacement } = await regenerateQuestion({
+            jobDescription,
+            competencyName: competency.name,
+            competencyDescription: competency.description,
+            question: current.question,
+            modelAnswer: current.modelAnswer,
+            surroundingQuestions: interviewKit.competencies
+                .flatMap(c => c.questions)
+                .filter(q => q.id !== questionId)
+                .map(q => q.question),
+            directive,
+            reviewIssues: current.review?.issues.map(issue => issue.description),
+        });
+        setInterviewKit(kit => kit && {
+            ...kit,
+            competencies: kit.competencies.map(c => ({
+                ...c,
+                questions: c.questions.map(q => (q.id === questionId ? { ...replacement, id: replacement.id!, requirementIds: current.requirementIds } : q)),
+            })),
+            promptVersions: { ...kit.promptVersions, ...promptVersions },
+        });
+        setEditedQuestionIds(ids => {
+            const next = new Set(ids);
+            next.delete(questionId);
+            return next;
+        });
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Regenerating Question",
+            description: "There was an issue regenerating this question. Please try again.",
+            variant: "destructive",
+        })
+    } finally {
+        setRegeneratingQuestionIds(ids => {
+            const next = new Set(ids);
+            next.delete(questionId);
+            return next;
+        });
+    }
+  };
+
+  const handleRefine = async () => {
+    if (!interviewKit) return;
+    setIsRefining(true);
+
+    try {
+        const refinedKit = await customizeInterviewKit({
+            jobDescription,
+            unstopProfileLink,
+            ...resume,
+            candidateResumeFileName: resumeFileName,
+            competencies: interviewKit.competencies,
+            scoringRubric: interviewKit.scoringRubric,
+            editedQuestionIds: Array.from(editedQuestionIds),
+        });
+        setInterviewKit({
+            ...interviewKit,
+            competencies: refinedKit.competencies,
+            scoringRubric: refinedKit.scoringRubric,
+            promptVersions: { ...interviewKit.promptVersions, ...refinedKit.promptVersions },
+        });
+        toast({
+            title: "Kit Refined",
+            description: "The interview kit has been refined. Your manual edits were kept as-is.",
+        })
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Refining Kit",
+            description: "There was an issue refining the interview kit. Please try again.",
+            variant: "destructive",
+        })
+    } finally {
+        setIsRefining(false);
+    }
+  };
+
+  // Adds one question per uncovered requirement to the competency the model placed it in.
+  const handleFillRequirementGaps = async (requirementIds: string[]) => {
+    if (!interviewKit?.requirements || requirementIds.length === 0) return;
+    const ids = new Set(requirementIds);
+    setFillingRequirementIds(current => new Set([...current, ...ids]));
+
+    try {
+        const { questions, promptVersions } = await fillRequirementGaps({
+            jobDescription,
+            requirements: interviewKit.requirements.filter(r => ids.has(r.id)),
+            competencies: interviewKit.competencies.map(c => ({
+                id: c.id,
+                name: c.name,
+                description: c.description,
+                questions: c.questions.map(q => q.question),
+            })),
+        });
+        setInterviewKit(kit => kit && {
+            ...kit,
+            competencies: kit.competencies.map(c => ({
+                ...c,
+                questions: [
+                    ...c.questions,
+                    ...questions.filter(q => q.competencyId === c.id).map(({ competencyId, ...q }) => ({ ...q, id: q.id! })),
+                ],
+            })),
+            promptVersions: { ...kit.promptVersions, ...promptVersions },
+        });
+        toast({
+            title: questions.length === 1 ? "Question Added" : `${questions.length} Questions Added`,
+            description: "The new questions were added to the end of their competencies.",
+        })
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Filling Gaps",
+            description: "There was an issue generating questions for the uncovered requirements. Please try again.",
+            variant: "destructive",
+        })
+    } finally {
+        setFillingRequirementIds(current => new Set([...current].filter(id => !ids.has(id))));
+    }
+  };
+
+  const handleShowBehavioralChange = (show: boolean) => {
+    setShowBehavioral(show);
+    if (!show && activeKitTab === 'behavioral') setActiveKitTab('questions');
+  };
+
   const handleRestart = () => {
     setJobDescription('');
     setUnstopProfileLink('');
     setResumeFile(null);
+    setResumeFileName(undefined);
+    setResume(undefined);
     setInterviewKit(null);
+    setKitInputs(null);
+    setActiveKitTab('questions');
+    setEditedQuestionIds(new Set());
+    setEvaluations({});
+    setRubricScores({});
+    setCandidateProfile(null);
+    clearJdAnalysis();
     if (resumeInputRef.current) {
       resumeInputRef.current.value = "";
     }
+    setKitIdInUrl(null);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+        const session = await getKitSession(id);
+        if (!session) {
+            toast({
+                title: "Kit Not Found",
+                description: "This kit no longer exists.",
+                variant: "destructive",
+            })
+            refreshRecentSessions();
+            return;
+        }
+        restoreSession(session);
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Opening Kit",
+            description: "There was an issue opening the saved kit. Please try again.",
+            variant: "destructive",
+        })
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+        await deleteKitSession(id);
+        if (interviewKit?.id === id) {
+            lastSavedSnapshot.current = null;
+            handleRestart();
+        }
+        refreshRecentSessions();
+    } catch (error) {
+        console.error(error);
+        toast({
+            title: "Error Deleting Kit",
+            description: "There was an issue deleting the saved kit. Please try again.",
+            variant: "destructive",
+        })
+    }
   };
 
 
@@ -196,7 +716,7 @@ export default function Home() {
                       id="job-description"
                       placeholder="Paste the job description here..."
                       value={jobDescription}
-                      onChange={(e) => setJobDescription(e.target.value)}
+                      onChange={(e) => handleJobDescriptionChange(e.target.value)}
                       required
                       className="min-h-[200px]"
                     />
@@ -216,7 +736,7 @@ export default function Home() {
                      <div className="relative">
                         <Input
                             id="resume-display"
-                            placeholder={resumeFile ? resumeFile.name : "Upload a PDF or DOCX file"}
+                            placeholder={resumeFileName ?? "Upload a PDF, DOC or DOCX file"}
                             readOnly
                             className="pr-10 cursor-pointer"
                             onClick={() => document.getElementById('resume')?.click()}
@@ -234,36 +754,73 @@ export default function Home() {
                         />
                     </div>
                   </div>
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? (
-                      <>
+                  <KitSettingsFields settings={kitSettings} onChange={setKitSettings} disabled={isLoading} />
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" className="flex-1" onClick={handleAnalyzeJD} disabled={isLoading || isAnalyzing}>
+                      {isAnalyzing ? (
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Generating...
-                      </>
-                    ) : (
-                      'Generate Kit'
-                    )}
-                  </Button>
+                      ) : (
+                        <ScanSearch className="mr-2 h-4 w-4" />
+                      )}
+                      Analyze JD
+                    </Button>
+                    <Button type="submit" className="flex-1" disabled={isLoading || isAnalyzing}>
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Generating...
+                        </>
+                      ) : (
+                        'Generate Kit'
+                      )}
+                    </Button>
+                  </div>
                 </form>
               </CardContent>
             </Card>
+            {(interviewKit || isLoading) && (
+              <div className="mt-8">
+                <CandidateProfilePanel
+                  profile={candidateProfile}
+                  isLoading={isProfileLoading}
+                  questions={interviewKit?.competencies.flatMap(c => c.questions.map(q => q.question)) ?? []}
+                />
+              </div>
+            )}
+            <div className="mt-8">
+              <RecentKits
+                sessions={recentSessions}
+                activeSessionId={interviewKit?.id}
+                disabled={isLoading || isRefining}
+                onOpen={handleOpenSession}
+                onDelete={handleDeleteSession}
+              />
+            </div>
           </div>
           <div className="lg:col-span-2">
             {isLoading && (
-              <div className="flex items-center justify-center h-full">
-                <div className="text-center">
-                    <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
-                    <p className="mt-4 text-lg text-muted-foreground">Generating your interview kit...</p>
-                    <p className="text-sm text-muted-foreground">This may take a moment.</p>
-                </div>
-              </div>
+              <GenerationProgress
+                questions={streamedQuestions}
+                total={streamedQuestions.at(-1)?.total ?? kitSettings.questionCount}
+                onCancel={handleCancelGeneration}
+              />
             )}
-            {!isLoading && !interviewKit && (
+            {!isLoading && !interviewKit && jdAnalysis && jdSelection && (
+                <JdAnalysisCard
+                    analysis={jdAnalysis}
+                    selection={jdSelection}
+                    isGenerating={isLoading}
+                    onSelectionChange={setJdSelection}
+                    onGenerate={generateKit}
+                    onDismiss={clearJdAnalysis}
+                />
+            )}
+            {!isLoading && !interviewKit && !jdAnalysis && (
                 <div className="flex flex-col items-center justify-center h-full rounded-lg border border-dashed p-8 text-center bg-card">
                     <Briefcase className="h-16 w-16 text-muted-foreground/50" />
                     <h3 className="mt-4 text-xl font-semibold">Your Interview Kit Will Appear Here</h3>
                     <p className="mt-2 text-sm text-muted-foreground">
-                        Fill out the form on the left to generate a list of technical questions.
+                        Fill out the form on the left to generate a list of technical questions, or analyze the JD first to confirm the skills it should cover.
                     </p>
                 </div>
             )}
@@ -272,27 +829,115 @@ export default function Home() {
                 <div>
                     <div className="flex justify-between items-center flex-wrap gap-4 mb-4">
                         <h2 className="text-2xl font-bold">Generated Technical Questions</h2>
-                        <Button variant="outline" onClick={handleRestart}>
-                            <RotateCcw className="mr-2 h-4 w-4" />
-                            Generate New Kit
-                        </Button>
+                        <div className="flex flex-wrap gap-2">
+                            <Button variant="outline" onClick={handleRefine} disabled={isRefining || regeneratingQuestionIds.size > 0}>
+                                {isRefining ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Sparkles className="mr-2 h-4 w-4" />
+                                )}
+                                Refine with AI
+                            </Button>
+                            <ExportMenu
+                                title={titleFromJobDescription(kitInputs?.jobDescription ?? jobDescription)}
+                                kit={showBehavioral ? interviewKit : { ...interviewKit, behavioral: undefined }}
+                                evaluations={evaluations}
+                                rubricScores={rubricScores}
+                                scoreScale={scoreScale}
+                                disabled={isRefining}
+                            />
+                            <Button variant="outline" onClick={handleRestart} disabled={isRefining}>
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                                Generate New Kit
+                            </Button>
+                        </div>
                     </div>
-                  <div className="space-y-4">
-                    {interviewKit.questions.map((q, index) => (
-                      <Card key={q.id}>
-                        <CardHeader>
-                          <CardTitle>Question {index + 1}</CardTitle>
-                        </CardHeader>
-                        <CardContent className="space-y-4">
-                          <p className="font-semibold text-base">{q.question}</p>
-                          <div>
-                            <h4 className="font-medium mb-2 text-base">Model Answer:</h4>
-                             <ModelAnswer answer={q.modelAnswer} questionId={q.id!} />
-                          </div>
-                        </CardContent>
-                      </Card>
-                    ))}
-                  </div>
+                  {kitScore && (
+                    <ScoreSummary
+                      kitScore={kitScore}
+                      scoreScale={scoreScale}
+                      onScoreScaleChange={handleScoreScaleChange}
+                    />
+                  )}
+                  <ScoringRubric
+                    rubric={interviewKit.scoringRubric}
+                    rubricScores={rubricScores}
+                    scoreScale={scoreScale}
+                    onRubricScoreChange={handleRubricScoreChange}
+                  />
+                  <Tabs value={activeKitTab} onValueChange={setActiveKitTab}>
+                    <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+                      <TabsList>
+                        <TabsTrigger value="questions">Technical Questions ({questionNumbers.size})</TabsTrigger>
+                        <TabsTrigger value="projects">Project Deep-dive ({interviewKit.projectDeepDive?.length ?? 0})</TabsTrigger>
+                        <TabsTrigger value="coverage">JD Coverage</TabsTrigger>
+                        {interviewKit.behavioral && showBehavioral && (
+                          <TabsTrigger value="behavioral">Behavioral ({interviewKit.behavioral.length})</TabsTrigger>
+                        )}
+                      </TabsList>
+                      {interviewKit.behavioral && (
+                        <div className="flex items-center gap-2">
+                          <Switch id="show-behavioral" checked={showBehavioral} onCheckedChange={handleShowBehavioralChange} />
+                          <Label htmlFor="show-behavioral">Show behavioral section</Label>
+                        </div>
+                      )}
+                    </div>
+                    <TabsContent value="questions">
+                      <PreviouslyAskedAlert matches={previouslyAsked} questionNumbers={questionNumbers} onOpenKit={handleOpenSession} />
+                      <Accordion type="multiple" defaultValue={interviewKit.competencies.slice(0, 1).map(c => c.id)} className="space-y-4">
+                        {interviewKit.competencies.map((competency) => (
+                          <AccordionItem key={competency.id} value={competency.id} className="border rounded-lg px-4 bg-card">
+                            <AccordionTrigger className="hover:no-underline">
+                              <div className="text-left">
+                                <p className="text-lg font-semibold">{competency.name}</p>
+                                <p className="text-sm font-normal text-muted-foreground">
+                                  {competency.description} ({competency.questions.length} questions)
+                                </p>
+                              </div>
+                            </AccordionTrigger>
+                            <AccordionContent className="space-y-4">
+                              {competency.questions.map((q) => (
+                                <QuestionCard
+                                  key={q.id}
+                                  question={q}
+                                  number={questionNumbers.get(q.id)!}
+                                  edited={editedQuestionIds.has(q.id)}
+                                  disabled={isRefining}
+                                  isRegenerating={regeneratingQuestionIds.has(q.id)}
+                                  requirements={interviewKit.requirements?.filter(r => q.requirementIds?.includes(r.id))}
+                                  previouslyAsked={previouslyAskedByQuestion.get(q.id)}
+                                  evaluation={evaluations[q.id] ?? emptyEvaluation}
+                                  scoreScale={scoreScale}
+                                  onEvaluationChange={(changes) => handleEvaluationChange(q.id, changes)}
+                                  onChange={(changes) => handleQuestionChange(q.id, changes)}
+                                  onRegenerate={(directive) => handleRegenerateQuestion(q.id, directive)}
+                                />
+                              ))}
+                            </AccordionContent>
+                          </AccordionItem>
+                        ))}
+                      </Accordion>
+                    </TabsContent>
+                    <TabsContent value="projects">
+                      <ProjectDeepDive projects={interviewKit.projectDeepDive ?? []} />
+                    </TabsContent>
+                    <TabsContent value="coverage">
+                      <JdCoverage
+                        jobDescription={jobDescription}
+                        requirements={interviewKit.requirements ?? []}
+                        coverage={coverage!}
+                        questionNumbers={questionNumbers}
+                        fillingIds={fillingRequirementIds}
+                        disabled={isRefining}
+                        onFillGaps={handleFillRequirementGaps}
+                      />
+                    </TabsContent>
+                    {interviewKit.behavioral && showBehavioral && (
+                      <TabsContent value="behavioral">
+                        <BehavioralSection questions={interviewKit.behavioral} />
+                      </TabsContent>
+                    )}
+                  </Tabs>
                 </div>
               </div>
             )}
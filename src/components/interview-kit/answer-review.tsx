@@ -0,0 +1,36 @@
+"use client"
+
+import { AlertTriangle, Info } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ANSWER_REVIEW_ISSUE_LABELS, isLowConfidenceReview } from '@/lib/interview-kit';
+import type { AnswerReview } from '@/types/interview-kit';
+
+export function AnswerReviewBadge({ review }: { review: AnswerReview }) {
+  const confidence = Math.round(review.confidence * 100);
+  return isLowConfidenceReview(review)
+    ? <Badge variant="destructive">Low confidence · {confidence}%</Badge>
+    : <Badge variant="outline">Confidence {confidence}%</Badge>;
+}
+
+// Lists the reviewer's issues; low-confidence answers get a warning so they are checked before the interview.
+export function AnswerReviewIssues({ review }: { review: AnswerReview }) {
+  if (review.issues.length === 0) return null;
+  const lowConfidence = isLowConfidenceReview(review);
+
+  return (
+    <Alert variant={lowConfidence ? 'destructive' : 'default'}>
+      {lowConfidence ? <AlertTriangle className="h-4 w-4" /> : <Info className="h-4 w-4" />}
+      <AlertTitle>{lowConfidence ? 'Check this answer before using it' : 'Reviewer notes'}</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc space-y-1 pl-5">
+          {review.issues.map((issue, i) => (
+            <li key={i}>
+              <span className="font-medium">{ANSWER_REVIEW_ISSUE_LABELS[issue.kind]}:</span> {issue.description}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { MessageSquareMore, ThumbsDown, ThumbsUp, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { BehavioralQuestion } from '@/ai/flows/generate-behavioral-questions';
+
+interface BehavioralSectionProps {
+  questions: BehavioralQuestion[];
+}
+
+const starSteps = [
+  { key: 'situation', label: 'Situation' },
+  { key: 'task', label: 'Task' },
+  { key: 'action', label: 'Action' },
+  { key: 'result', label: 'Result' },
+] as const;
+
+export function BehavioralSection({ questions }: BehavioralSectionProps) {
+  if (questions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-8 text-center bg-card">
+        <Users className="h-12 w-12 text-muted-foreground/50" />
+        <h3 className="mt-4 text-lg font-semibold">No Behavioral Questions</h3>
+        <p className="mt-2 text-sm text-muted-foreground">
+          The behavioral section could not be generated for this kit. Try generating the kit again.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {questions.map((q, index) => (
+        <Card key={q.id ?? index}>
+          <CardHeader className="space-y-2">
+            <Badge variant="secondary" className="w-fit">{q.competency}</Badge>
+            <CardTitle className="text-lg">{q.question}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div>
+              <h4 className="mb-2 font-semibold">STAR Evaluation Guide</h4>
+              <dl className="grid gap-3 sm:grid-cols-2">
+                {starSteps.map(step => (
+                  <div key={step.key} className="rounded-md border p-3">
+                    <dt className="font-medium">{step.label}</dt>
+                    <dd className="mt-1 text-muted-foreground">{q.starCriteria[step.key]}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <h4 className="mb-2 flex items-center gap-2 font-semibold">
+                  <ThumbsUp className="h-4 w-4" /> Good Signals
+                </h4>
+                <ul className="list-disc space-y-1 pl-6">
+                  {q.goodSignals.map((signal, i) => <li key={i}>{signal}</li>)}
+                </ul>
+              </div>
+              <div>
+                <h4 className="mb-2 flex items-center gap-2 font-semibold">
+                  <ThumbsDown className="h-4 w-4" /> Poor Signals
+                </h4>
+                <ul className="list-disc space-y-1 pl-6">
+                  {q.poorSignals.map((signal, i) => <li key={i}>{signal}</li>)}
+                </ul>
+              </div>
+            </div>
+            <div>
+              <h4 className="mb-2 flex items-center gap-2 font-semibold">
+                <MessageSquareMore className="h-4 w-4" /> Follow-up Probes
+              </h4>
+              <ol className="list-decimal space-y-1 pl-6">
+                {q.followUpProbes.map((probe, i) => <li key={i}>{probe}</li>)}
+              </ol>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
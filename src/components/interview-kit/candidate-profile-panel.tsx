@@ -0,0 +1,150 @@
+"use client"
+
+import { useMemo } from 'react';
+import { Award, Briefcase, FolderGit2, GraduationCap, Loader2, Wrench } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { ReviewCandidateProfileOutput } from '@/ai/flows/review-candidate-profile';
+
+interface CandidateProfilePanelProps {
+  profile: ReviewCandidateProfileOutput | null;
+  isLoading?: boolean;
+  /** The kit's question texts, used to highlight the skills the questions draw on. */
+  questions: string[];
+}
+
+const formatDates = (start?: string, end?: string) =>
+  start || end ? `${start ?? '?'} – ${end ?? 'Present'}` : undefined;
+
+const proficiencyVariant = {
+  beginner: 'outline',
+  intermediate: 'secondary',
+  advanced: 'default',
+  expert: 'default',
+} as const;
+
+export function CandidateProfilePanel({ profile, isLoading, questions }: CandidateProfilePanelProps) {
+  const coveredSkills = useMemo(() => {
+    const text = questions.join('\n').toLowerCase();
+    return new Set(profile?.skills.filter(s => text.includes(s.name.toLowerCase())).map(s => s.name));
+  }, [profile, questions]);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center gap-3 p-6 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Analyzing the candidate's resume...
+        </CardContent>
+      </Card>
+    );
+  }
+  if (!profile) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{profile.name || 'Candidate Profile'}</CardTitle>
+        <CardDescription>
+          {profile.headline || 'Parsed from the uploaded resume.'}
+          {coveredSkills.size > 0 && ' Highlighted skills are referenced by questions in the kit.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple" defaultValue={['skills']}>
+          <AccordionItem value="skills">
+            <AccordionTrigger className="text-sm">
+              <span className="flex items-center gap-2"><Wrench className="h-4 w-4" /> Skills ({profile.skills.length})</span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3">
+              {profile.skills.map(skill => (
+                <div
+                  key={skill.name}
+                  className={cn("rounded-md border p-2", coveredSkills.has(skill.name) && "border-primary bg-muted")}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{skill.name}</span>
+                    <Badge variant={proficiencyVariant[skill.proficiency]} className="capitalize">{skill.proficiency}</Badge>
+                  </div>
+                  {skill.evidence.map((snippet, index) => (
+                    <p key={index} className="mt-1 text-xs italic text-muted-foreground">“{snippet}”</p>
+                  ))}
+                </div>
+              ))}
+            </AccordionContent>
+          </AccordionItem>
+          {profile.workHistory.length > 0 && (
+            <AccordionItem value="work">
+              <AccordionTrigger className="text-sm">
+                <span className="flex items-center gap-2"><Briefcase className="h-4 w-4" /> Work History ({profile.workHistory.length})</span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-3">
+                {profile.workHistory.map((job, index) => (
+                  <div key={index}>
+                    <p className="font-medium">{job.title} · {job.company}</p>
+                    <p className="text-xs text-muted-foreground">{formatDates(job.startDate, job.endDate)}</p>
+                    <ul className="mt-1 list-disc pl-4 text-xs">
+                      {job.highlights.map((h, i) => <li key={i}>{h}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          )}
+          {profile.projects.length > 0 && (
+            <AccordionItem value="projects">
+              <AccordionTrigger className="text-sm">
+                <span className="flex items-center gap-2"><FolderGit2 className="h-4 w-4" /> Projects ({profile.projects.length})</span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-3">
+                {profile.projects.map((project, index) => (
+                  <div key={index}>
+                    <p className="font-medium">{project.name}</p>
+                    <p className="text-xs text-muted-foreground">{project.description}</p>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {project.techStack.map(tech => <Badge key={tech} variant="outline" className="text-xs">{tech}</Badge>)}
+                    </div>
+                  </div>
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          )}
+          {profile.education.length > 0 && (
+            <AccordionItem value="education">
+              <AccordionTrigger className="text-sm">
+                <span className="flex items-center gap-2"><GraduationCap className="h-4 w-4" /> Education ({profile.education.length})</span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-2">
+                {profile.education.map((edu, index) => (
+                  <div key={index}>
+                    <p className="font-medium">{edu.degree}{edu.fieldOfStudy ? `, ${edu.fieldOfStudy}` : ''}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[edu.institution, formatDates(edu.startDate, edu.endDate), edu.grade].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          )}
+          {profile.certifications.length > 0 && (
+            <AccordionItem value="certifications">
+              <AccordionTrigger className="text-sm">
+                <span className="flex items-center gap-2"><Award className="h-4 w-4" /> Certifications ({profile.certifications.length})</span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-1">
+                {profile.certifications.map((cert, index) => (
+                  <p key={index}>
+                    <span className="font-medium">{cert.name}</span>
+                    <span className="text-xs text-muted-foreground">{[cert.issuer, cert.date].filter(Boolean).map(v => ` · ${v}`).join('')}</span>
+                  </p>
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          )}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useMemo, useState } from 'react';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import { Check, Copy, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { diffCodeLines, splitHighlightedLines } from '@/lib/interview-kit';
+
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('go', go);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+
+// Model answers use whatever tag the model picked, so common aliases are mapped onto the registered languages.
+const languageAliases: Record<string, string> = {
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  golang: 'go',
+  js: 'javascript', jsx: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  postgresql: 'sql', postgres: 'sql', mysql: 'sql', sqlite: 'sql', plsql: 'sql', tsql: 'sql',
+};
+
+const languageLabels: Record<string, string> = {
+  bash: 'Shell', go: 'Go', java: 'Java', javascript: 'JavaScript', python: 'Python', sql: 'SQL', typescript: 'TypeScript',
+};
+
+const resolveLanguage = (language?: string) => {
+  const name = language?.toLowerCase();
+  if (!name) return undefined;
+  const resolved = languageAliases[name] ?? name;
+  return hljs.getLanguage(resolved) ? resolved : undefined;
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Highlights the whole source, then splits it so each line can get its own number and diff marker.
+// highlight.js escapes the source, so the returned HTML is safe to inject.
+const highlightLines = (source: string, language?: string) =>
+  splitHighlightedLines(language ? hljs.highlight(source, { language, ignoreIllegals: true }).value : escapeHtml(source));
+
+interface CodeBlockProps {
+  source: string;
+  language?: string;
+  /** The code the question shows the candidate, for fix or optimize questions. Enables the diff view. */
+  original?: string;
+}
+
+export function CodeBlock({ source, language, original }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const [showDiff, setShowDiff] = useState(!!original);
+  const resolvedLanguage = resolveLanguage(language);
+
+  const rows = useMemo(() => {
+    if (showDiff && original) {
+      // Removed lines come from the original and the rest from the final code, so each side is highlighted on its own.
+      const originalHtml = highlightLines(original, resolvedLanguage);
+      const sourceHtml = highlightLines(source, resolvedLanguage);
+      let originalLine = 0;
+      let sourceLine = 0;
+      return diffCodeLines(original, source).map(line => {
+        if (line.kind === 'removed') return { kind: line.kind, html: originalHtml[originalLine++], number: undefined };
+        if (line.kind === 'unchanged') originalLine++;
+        return { kind: line.kind, html: sourceHtml[sourceLine++], number: sourceLine };
+      });
+    }
+    return highlightLines(source, resolvedLanguage)
+      .map((html, i) => ({ kind: 'unchanged' as const, html, number: i + 1 }));
+  }, [source, original, showDiff, resolvedLanguage]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="overflow-hidden rounded-md border bg-muted">
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-1 text-xs text-muted-foreground">
+        <span>{(resolvedLanguage && languageLabels[resolvedLanguage]) ?? language ?? 'Code'}</span>
+        <div className="flex items-center gap-1">
+          {original && (
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setShowDiff(show => !show)}>
+              <GitCompare className="mr-1 h-3 w-3" />
+              {showDiff ? 'Show final code' : 'Show changes'}
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={copy}>
+            {copied ? <Check className="mr-1 h-3 w-3" /> : <Copy className="mr-1 h-3 w-3" />}
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+      </div>
+      <div className="overflow-x-auto py-2">
+        <pre className="hljs min-w-fit text-sm">
+          <code>
+            {rows.map((row, i) => (
+              <div
+                key={i}
+                className={cn(
+                  "flex",
+                  row.kind === 'added' && "bg-green-500/15",
+                  row.kind === 'removed' && "bg-red-500/15"
+                )}
+              >
+                <span className="w-10 shrink-0 select-none pr-3 text-right text-muted-foreground/70">{row.number ?? ''}</span>
+                {showDiff && original && (
+                  <span className="w-4 shrink-0 select-none text-muted-foreground">
+                    {row.kind === 'added' ? '+' : row.kind === 'removed' ? '-' : ' '}
+                  </span>
+                )}
+                <span className="whitespace-pre pr-4" dangerouslySetInnerHTML={{ __html: row.html || ' ' }} />
+              </div>
+            ))}
+          </code>
+        </pre>
+      </div>
+    </div>
+  );
+}
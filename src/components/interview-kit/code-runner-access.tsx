@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// The code runner's access token, kept for the browser tab so it is asked for once per session.
+const TOKEN_STORAGE_KEY = 'code-runner-token';
+
+// Set when the server asked for a token, or has the code runner turned off.
+export type CodeRunnerAccess = 'token_required' | 'disabled' | null;
+
+/**
+ * Posts to one of the /api/code routes with the saved token. Resolves to null when the
+ * server turned the request away for access, after which `access` says why.
+ */
+export function useCodeRunnerAccess() {
+  const [access, setAccess] = useState<CodeRunnerAccess>(null);
+  const [token, setToken] = useState('');
+
+  const post = async (url: string, body: unknown): Promise<Response | null> => {
+    if (token.trim()) sessionStorage.setItem(TOKEN_STORAGE_KEY, token.trim());
+    const savedToken = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(savedToken ? { Authorization: `Bearer ${savedToken}` } : {}) },
+      body: JSON.stringify(body),
+    });
+    if (response.status === 401 || response.status === 403) {
+      if (response.status === 401) sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      setAccess(response.status === 401 ? 'token_required' : 'disabled');
+      return null;
+    }
+    setAccess(null);
+    setToken('');
+    return response;
+  };
+
+  // Whether the run button has to wait: the runner is off, or the token has not been entered yet.
+  const blocked = access === 'disabled' || (access === 'token_required' && !token.trim());
+
+  return { access, token, setToken, post, blocked };
+}
+
+interface CodeRunnerAccessNoticeProps {
+  id: string;
+  access: CodeRunnerAccess;
+  token: string;
+  onTokenChange: (token: string) => void;
+}
+
+export function CodeRunnerAccessNotice({ id, access, token, onTokenChange }: CodeRunnerAccessNoticeProps) {
+  if (access === 'disabled') {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Running coding exercises and SQL queries is turned off on this server. Set CODE_RUNNER_ENABLED and CODE_RUNNER_TOKEN to enable it.
+      </p>
+    );
+  }
+  if (access === 'token_required') {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-runner-token`} className="flex items-center gap-1">
+          <KeyRound className="h-3 w-3" /> Code runner token
+        </Label>
+        <Input
+          id={`${id}-runner-token`}
+          type="password"
+          value={token}
+          onChange={(e) => onTokenChange(e.target.value)}
+          placeholder="Ask the server's administrator for the token"
+        />
+      </div>
+    );
+  }
+  return null;
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { useState } from 'react';
+import { CheckCircle2, Loader2, Play, TerminalSquare, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CodeBlock } from '@/components/interview-kit/code-block';
+import { CodeRunnerAccessNotice, useCodeRunnerAccess } from '@/components/interview-kit/code-runner-access';
+import { useToast } from '@/hooks/use-toast';
+import { formatCodingTest, scoreFromFraction } from '@/lib/interview-kit';
+import type { CodeRunResult, CodingExercise as CodingExerciseData, ScoreScale } from '@/types/interview-kit';
+
+interface CodingExerciseProps {
+  questionId: string;
+  exercise: CodingExerciseData;
+  scoreScale: ScoreScale;
+  /** Sets the question's score to the one matching the share of passed tests. */
+  onApplyScore: (score: number) => void;
+}
+
+const languageLabels: Record<CodingExerciseData['language'], string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+};
+
+// The interviewer pastes the candidate's solution here and runs it against the exercise's hidden tests on the server.
+export function CodingExercise({ questionId, exercise, scoreScale, onApplyScore }: CodingExerciseProps) {
+  const [solution, setSolution] = useState(exercise.starterCode);
+  const [isRunning, setIsRunning] = useState(false);
+  const [run, setRun] = useState<CodeRunResult | null>(null);
+  const { access, token, setToken, post, blocked } = useCodeRunnerAccess();
+  const { toast } = useToast();
+
+  const passed = run?.results.filter(r => r.passed).length ?? 0;
+  const passScore = scoreFromFraction(passed / exercise.tests.length, scoreScale);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const response = await post('/api/code/run', { exercise, solution });
+      if (!response) return;
+      if (!response.ok) {
+        throw new Error(`Run failed with status ${response.status}`);
+      }
+      setRun(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error Running Tests",
+        description: "The solution could not be run. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 font-medium">
+          <TerminalSquare className="h-4 w-4" /> Coding Exercise
+        </h4>
+        <Badge variant="secondary">{languageLabels[exercise.language]}</Badge>
+      </div>
+      <p className="font-mono text-xs text-muted-foreground">{exercise.signature}</p>
+      {exercise.starterCode && <CodeBlock source={exercise.starterCode} language={exercise.language} />}
+
+      <div className="space-y-2">
+        <Label htmlFor={`${questionId}-solution`}>Candidate&apos;s solution</Label>
+        <Textarea
+          id={`${questionId}-solution`}
+          value={solution}
+          onChange={(e) => setSolution(e.target.value)}
+          className="min-h-[160px] font-mono text-sm"
+          spellCheck={false}
+        />
+      </div>
+      <CodeRunnerAccessNotice id={questionId} access={access} token={token} onTokenChange={setToken} />
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          size="sm"
+          onClick={handleRun}
+          disabled={isRunning || !solution.trim() || blocked}
+        >
+          {isRunning ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Play className="mr-1 h-4 w-4" />}
+          Run {exercise.tests.length} hidden test{exercise.tests.length === 1 ? '' : 's'}
+        </Button>
+        {run && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>{passed} / {exercise.tests.length} passed{run.status === 'timeout' ? ' (timed out)' : ''}</span>
+            <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => onApplyScore(passScore)}>
+              Score {passScore}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {run && (
+        <div className="space-y-2 text-sm">
+          <ul className="space-y-1">
+            {exercise.tests.map((test, i) => {
+              const result = run.results[i];
+              return (
+                <li key={i} className="flex items-start gap-2">
+                  {result?.passed
+                    ? <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+                    : <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />}
+                  <div className="min-w-0">
+                    <p>{test.description || `Test ${i + 1}`}</p>
+                    {!result?.passed && (
+                      <p className="break-all font-mono text-xs text-muted-foreground">
+                        {formatCodingTest(exercise.functionName, test)} · {
+                          !result ? 'not run' : result.error ?? `got ${result.actual}`
+                        }
+                      </p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {run.output && (
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2 font-mono text-xs">{run.output}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { Fragment, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import type { ExportAudience, ExportFormat } from '@/lib/kit-export';
+import type { InterviewKit, QuestionEvaluation, ScoreScale } from '@/types/interview-kit';
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word (DOCX)' },
+  { format: 'markdown', label: 'Markdown' },
+];
+
+const audiences: { audience: ExportAudience; label: string }[] = [
+  { audience: 'interviewer', label: 'Interviewer version (with answers)' },
+  { audience: 'candidate', label: 'Candidate version (questions only)' },
+];
+
+interface ExportMenuProps {
+  title: string;
+  kit: InterviewKit;
+  evaluations: Record<string, QuestionEvaluation>;
+  rubricScores: Record<string, number>;
+  scoreScale: ScoreScale;
+  disabled?: boolean;
+}
+
+export function ExportMenu({ title, kit, evaluations, rubricScores, scoreScale, disabled }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat, audience: ExportAudience) => {
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/kits/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, audience, title, kit, evaluations, rubricScores, scoreScale }),
+      });
+      if (!response.ok) {
+        throw new Error(`Export failed with status ${response.status}`);
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'interview-kit';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error Exporting Kit",
+        description: "There was an issue exporting the interview kit. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || isExporting}>
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {audiences.map(({ audience, label }, index) => (
+          <Fragment key={audience}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{label}</DropdownMenuLabel>
+            {formats.map(({ format, label: formatLabel }) => (
+              <DropdownMenuItem key={format} onClick={() => handleExport(format, audience)}>
+                {formatLabel}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ModelAnswer } from '@/components/interview-kit/model-answer';
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from '@/lib/interview-kit';
+import type { StreamedQuestion } from '@/types/interview-kit';
+
+interface GenerationProgressProps {
+  /** The questions received so far, in order. */
+  questions: StreamedQuestion[];
+  /** How many questions the kit was asked for. */
+  total: number;
+  onCancel: () => void;
+}
+
+// Shows each question as the model writes it. The cards are read-only: scoring starts once the kit is complete or cancelled.
+export function GenerationProgress({ questions, total, onCancel }: GenerationProgressProps) {
+  // Once every question is in, generation continues with the question plan, duplicate check and answer review.
+  const isFinishing = questions.length >= total;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center text-lg">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin text-primary" />
+              {isFinishing ? 'Reviewing your interview kit...' : 'Generating your interview kit...'}
+            </CardTitle>
+            <CardDescription>
+              {isFinishing
+                ? 'Checking the answers and the question mix. This may take a moment.'
+                : 'Questions appear as they are written. Cancel to keep the ones received so far.'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <X className="mr-1 h-4 w-4" />
+            Cancel
+          </Button>
+        </CardHeader>
+        <CardContent className="flex items-center gap-4">
+          <Progress value={Math.min(100, (questions.length / total) * 100)} className="h-2" />
+          <span className="shrink-0 text-sm font-medium tabular-nums">{questions.length} / {total}</span>
+        </CardContent>
+      </Card>
+      {questions.map(({ competencyName, question }, index) => (
+        <Card key={question.id}>
+          <CardHeader className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <CardTitle>Question {index + 1}</CardTitle>
+              <Badge variant="outline">{competencyName}</Badge>
+              {question.difficulty && <Badge variant="secondary">{DIFFICULTY_LABELS[question.difficulty]}</Badge>}
+              {question.type && <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>}
+            </div>
+            <p className="font-semibold text-base">{question.question}</p>
+          </CardHeader>
+          <CardContent>
+            <ModelAnswer
+              answer={question.modelAnswer}
+              questionId={question.id}
+              checkedPoints={[]}
+              onCheckedChange={() => {}}
+              disabled
+            />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
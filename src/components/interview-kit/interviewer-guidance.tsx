@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from 'react';
+import { ChevronDown, Lightbulb } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import { scoreFromFraction } from '@/lib/interview-kit';
+import type { QuestionAnswerPair, ScoreScale } from '@/types/interview-kit';
+
+interface InterviewerGuidanceProps {
+  question: QuestionAnswerPair;
+  scoreScale: ScoreScale;
+  /** Sets the question's score to the one matching a partial-credit level. */
+  onApplyScore: (score: number) => void;
+}
+
+export function InterviewerGuidance({ question, scoreScale, onApplyScore }: InterviewerGuidanceProps) {
+  const [open, setOpen] = useState(false);
+  const { interviewerNote, whatGoodLooksLike, commonMistakes, partialCreditScale } = question;
+  if (!interviewerNote && !whatGoodLooksLike && !commonMistakes?.length && !partialCreditScale?.length) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border bg-muted/40">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium">
+          <span className="flex items-center gap-2"><Lightbulb className="h-4 w-4" /> Interviewer Guidance</span>
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 px-3 pb-3 text-sm">
+        {interviewerNote && <p>{interviewerNote}</p>}
+        {whatGoodLooksLike && (
+          <div>
+            <h5 className="font-medium">What good looks like</h5>
+            <p className="text-muted-foreground">{whatGoodLooksLike}</p>
+          </div>
+        )}
+        {!!commonMistakes?.length && (
+          <div>
+            <h5 className="font-medium">Common mistakes</h5>
+            <ul className="list-disc pl-5 text-muted-foreground">
+              {commonMistakes.map((mistake, i) => <li key={i}>{mistake}</li>)}
+            </ul>
+          </div>
+        )}
+        {!!partialCreditScale?.length && (
+          <div>
+            <h5 className="mb-1 font-medium">Partial credit</h5>
+            <div className="space-y-1">
+              {partialCreditScale.map((level, i) => {
+                const score = scoreFromFraction(level.credit, scoreScale);
+                return (
+                  <div key={i} className="flex items-start justify-between gap-3">
+                    <p className="text-muted-foreground">
+                      <span className="font-medium text-foreground">{Math.round(level.credit * 100)}%</span> – {level.description}
+                    </p>
+                    <Button size="sm" variant="outline" className="h-7 shrink-0 px-2 text-xs" onClick={() => onApplyScore(score)}>
+                      Score {score}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
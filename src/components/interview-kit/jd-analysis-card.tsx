@@ -0,0 +1,147 @@
+"use client"
+
+import { ArrowDown, ArrowUp, Loader2, X } from 'lucide-react';
+import { badgeVariants } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { SummarizeJDOutput } from '@/ai/flows/summarize-jd';
+import type { JdAnalysisSelection, SkillPriority } from '@/types/interview-kit';
+
+const seniorityLevels: { value: JdAnalysisSelection['seniorityLevel']; label: string }[] = [
+  { value: 'intern', label: 'Intern' },
+  { value: 'junior', label: 'Junior' },
+  { value: 'mid', label: 'Mid-level' },
+  { value: 'senior', label: 'Senior' },
+  { value: 'lead', label: 'Lead' },
+  { value: 'principal', label: 'Principal' },
+];
+
+interface JdAnalysisCardProps {
+  analysis: SummarizeJDOutput;
+  selection: JdAnalysisSelection;
+  isGenerating?: boolean;
+  onSelectionChange: (selection: JdAnalysisSelection) => void;
+  onGenerate: () => void;
+  onDismiss: () => void;
+}
+
+export function JdAnalysisCard({ analysis, selection, isGenerating, onSelectionChange, onGenerate, onDismiss }: JdAnalysisCardProps) {
+  const updateSkill = (name: string, changes: Partial<JdAnalysisSelection['skills'][number]>) =>
+    onSelectionChange({
+      ...selection,
+      skills: selection.skills.map(s => (s.name === name ? { ...s, ...changes } : s)),
+    });
+
+  const renderSkillGroup = (priority: SkillPriority, title: string) => {
+    const skills = selection.skills.filter(s => s.priority === priority);
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">{title}</h4>
+        {skills.length === 0 && <p className="text-sm text-muted-foreground">None</p>}
+        {skills.map(skill => {
+          const id = `jd-skill-${skill.name}`;
+          return (
+            <div key={skill.name} className="flex items-center gap-3">
+              <Checkbox
+                id={id}
+                checked={skill.included}
+                onCheckedChange={(checked) => updateSkill(skill.name, { included: checked === true })}
+              />
+              <label htmlFor={id} className={cn('flex-1 text-sm', !skill.included && 'text-muted-foreground line-through')}>
+                {skill.name}
+              </label>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs"
+                onClick={() => updateSkill(skill.name, { priority: priority === 'must_have' ? 'nice_to_have' : 'must_have' })}
+              >
+                {priority === 'must_have' ? <ArrowDown className="mr-1 h-3 w-3" /> : <ArrowUp className="mr-1 h-3 w-3" />}
+                {priority === 'must_have' ? 'Nice-to-have' : 'Must-have'}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const includedCount = selection.skills.filter(s => s.included).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{analysis.roleTitle}</CardTitle>
+          <CardDescription>{analysis.summary}</CardDescription>
+        </div>
+        <Button size="icon" variant="ghost" onClick={onDismiss} disabled={isGenerating}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Dismiss analysis</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Label htmlFor="jd-seniority">Seniority Level</Label>
+          <Select
+            value={selection.seniorityLevel}
+            onValueChange={(value) => onSelectionChange({ ...selection, seniorityLevel: value as JdAnalysisSelection['seniorityLevel'] })}
+          >
+            <SelectTrigger id="jd-seniority" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {seniorityLevels.map(level => (
+                <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-6 md:grid-cols-2">
+          {renderSkillGroup('must_have', 'Must-have Skills')}
+          {renderSkillGroup('nice_to_have', 'Nice-to-have Skills')}
+        </div>
+        {selection.tools.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Tools</h4>
+            <p className="text-xs text-muted-foreground">Click a tool to include or exclude it.</p>
+            <div className="flex flex-wrap gap-2">
+              {selection.tools.map(tool => (
+                <button
+                  key={tool.name}
+                  type="button"
+                  className={cn(
+                    badgeVariants({ variant: tool.included ? 'secondary' : 'outline' }),
+                    !tool.included && 'text-muted-foreground line-through'
+                  )}
+                  onClick={() => onSelectionChange({
+                    ...selection,
+                    tools: selection.tools.map(t => (t.name === tool.name ? { ...t, included: !t.included } : t)),
+                  })}
+                >
+                  {tool.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button className="w-full" onClick={onGenerate} disabled={isGenerating || includedCount === 0}>
+          {isGenerating ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Generating...
+            </>
+          ) : (
+            `Generate Kit for ${includedCount} Confirmed Skill${includedCount === 1 ? '' : 's'}`
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useMemo } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { highlightJdRequirements } from '@/lib/interview-kit';
+import { cn } from '@/lib/utils';
+import type { JdRequirement } from '@/types/interview-kit';
+
+interface JdCoverageProps {
+  jobDescription: string;
+  requirements: JdRequirement[];
+  /** The ids of the questions covering each requirement. */
+  coverage: Map<string, string[]>;
+  questionNumbers: Map<string, number>;
+  /** Requirements a question is currently being generated for. */
+  fillingIds: Set<string>;
+  disabled?: boolean;
+  onFillGaps: (requirementIds: string[]) => void;
+}
+
+// Red for requirements no question covers, amber for a single question and green for several.
+const coverageClass = (count: number) =>
+  count === 0
+    ? 'bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-100'
+    : count === 1
+      ? 'bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100'
+      : 'bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-100';
+
+export function JdCoverage({ jobDescription, requirements, coverage, questionNumbers, fillingIds, disabled, onFillGaps }: JdCoverageProps) {
+  const segments = useMemo(() => highlightJdRequirements(jobDescription, requirements), [jobDescription, requirements]);
+  const quoted = new Set(segments.flatMap(s => (s.requirementId ? [s.requirementId] : [])));
+  const countOf = (id: string) => coverage.get(id)?.length ?? 0;
+  const uncovered = requirements.filter(r => countOf(r.id) === 0 && !fillingIds.has(r.id));
+
+  if (requirements.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm text-muted-foreground">
+          This kit was generated before questions were traced back to the job description. Generate a new kit to see its coverage.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Job Description</CardTitle>
+          <CardDescription>
+            Each requirement is highlighted by how many questions cover it: none, one or several. Hover over a highlight to see which.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="whitespace-pre-wrap text-sm leading-relaxed">
+            {segments.map((segment, i) => {
+              const requirement = segment.requirementId && requirements.find(r => r.id === segment.requirementId);
+              if (!requirement) return <span key={i}>{segment.text}</span>;
+              return (
+                <mark
+                  key={i}
+                  title={`${requirement.id}: ${requirement.text} (${countOf(requirement.id)} questions)`}
+                  className={cn('rounded px-0.5', coverageClass(countOf(requirement.id)))}
+                >
+                  {segment.text}
+                </mark>
+              );
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">Coverage Matrix</CardTitle>
+            <CardDescription>
+              {requirements.length - requirements.filter(r => countOf(r.id) === 0).length} of {requirements.length} requirements have at least one question.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => onFillGaps(uncovered.map(r => r.id))} disabled={disabled || uncovered.length === 0}>
+            <Sparkles className="mr-1 h-4 w-4" />
+            Fill all gaps
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Id</TableHead>
+                <TableHead>Requirement</TableHead>
+                <TableHead className="w-28">Coverage</TableHead>
+                <TableHead>Questions</TableHead>
+                <TableHead className="w-28" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requirements.map(r => {
+                const count = countOf(r.id);
+                const numbers = (coverage.get(r.id) ?? []).map(id => questionNumbers.get(id)).filter((n): n is number => n !== undefined);
+                return (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-mono text-xs">{r.id}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{r.text}</p>
+                      <p className="text-xs text-muted-foreground">
+                        &ldquo;{r.quote}&rdquo;{!quoted.has(r.id) && ' (not found in the JD text)'}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('border-transparent', coverageClass(count))}>
+                        {count === 0 ? 'Uncovered' : count === 1 ? '1 question' : `${count} questions`}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {numbers.length > 0 ? numbers.map(n => `Q${n}`).join(', ') : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {count === 0 && (
+                        <Button size="sm" variant="outline" onClick={() => onFillGaps([r.id])} disabled={disabled || fillingIds.has(r.id)}>
+                          {fillingIds.has(r.id) ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Sparkles className="mr-1 h-4 w-4" />}
+                          Fill gap
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  DEFAULT_DIFFICULTY_DISTRIBUTION,
+  DEFAULT_QUESTION_TYPE_MIX,
+  DIFFICULTY_LABELS,
+  QUESTION_TYPE_LABELS,
+  allocateByWeights,
+} from '@/lib/interview-kit';
+import type { KitSettings } from '@/types/interview-kit';
+
+const MIN_QUESTIONS = 1;
+const MAX_QUESTIONS = 60;
+
+interface KitSettingsFieldsProps {
+  settings: KitSettings;
+  disabled?: boolean;
+  onChange: (settings: KitSettings) => void;
+}
+
+interface WeightSlidersProps<K extends string> {
+  id: string;
+  weights: Record<K, number>;
+  labels: Record<K, string>;
+  questionCount: number;
+  disabled?: boolean;
+  onChange: (weights: Record<K, number>) => void;
+}
+
+// Each slider is a relative weight; the resulting number of questions is shown next to it.
+function WeightSliders<K extends string>({ id, weights, labels, questionCount, disabled, onChange }: WeightSlidersProps<K>) {
+  const counts = allocateByWeights(questionCount, weights);
+  return (
+    <div className="space-y-3 pl-6">
+      {(Object.keys(weights) as K[]).map(key => (
+        <div key={key} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <Label htmlFor={`${id}-${key}`} className="text-xs">{labels[key]}</Label>
+            <span className="text-muted-foreground">{counts[key]} question{counts[key] === 1 ? '' : 's'}</span>
+          </div>
+          <Slider
+            id={`${id}-${key}`}
+            min={0}
+            max={100}
+            step={5}
+            value={[weights[key]]}
+            onValueChange={([value]) => onChange({ ...weights, [key]: value })}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function KitSettingsFields({ settings, disabled, onChange }: KitSettingsFieldsProps) {
+  const minutesPerQuestion = settings.durationMinutes
+    ? Math.max(1, Math.round(settings.durationMinutes / settings.questionCount))
+    : undefined;
+
+  const parseWholeNumber = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="settings" className="border-b-0">
+        <AccordionTrigger className="py-2 text-sm">
+          Question Settings ({settings.questionCount} questions{settings.durationMinutes ? `, ${settings.durationMinutes} min` : ''})
+        </AccordionTrigger>
+        <AccordionContent className="space-y-4 px-1">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="question-count">Questions</Label>
+              <Input
+                id="question-count"
+                type="number"
+                min={MIN_QUESTIONS}
+                max={MAX_QUESTIONS}
+                value={settings.questionCount}
+                onChange={(e) => onChange({
+                  ...settings,
+                  questionCount: Math.min(MAX_QUESTIONS, parseWholeNumber(e.target.value) ?? MIN_QUESTIONS),
+                })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="duration">Duration (minutes)</Label>
+              <Input
+                id="duration"
+                type="number"
+                min={1}
+                placeholder="Optional"
+                value={settings.durationMinutes ?? ''}
+                onChange={(e) => onChange({ ...settings, durationMinutes: parseWholeNumber(e.target.value) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          {minutesPerQuestion && (
+            <p className="text-xs text-muted-foreground">About {minutesPerQuestion} min per question.</p>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="set-difficulty"
+                checked={!!settings.difficultyDistribution}
+                onCheckedChange={(checked) => onChange({
+                  ...settings,
+                  difficultyDistribution: checked === true ? DEFAULT_DIFFICULTY_DISTRIBUTION : undefined,
+                })}
+                disabled={disabled}
+              />
+              <Label htmlFor="set-difficulty">Set difficulty distribution</Label>
+            </div>
+            {settings.difficultyDistribution && (
+              <WeightSliders
+                id="difficulty"
+                weights={settings.difficultyDistribution}
+                labels={DIFFICULTY_LABELS}
+                questionCount={settings.questionCount}
+                disabled={disabled}
+                onChange={(difficultyDistribution) => onChange({ ...settings, difficultyDistribution })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="set-question-types"
+                checked={!!settings.questionTypeMix}
+                onCheckedChange={(checked) => onChange({
+                  ...settings,
+                  questionTypeMix: checked === true ? DEFAULT_QUESTION_TYPE_MIX : undefined,
+                })}
+                disabled={disabled}
+              />
+              <Label htmlFor="set-question-types">Set question type mix</Label>
+            </div>
+            {settings.questionTypeMix && (
+              <WeightSliders
+                id="question-type"
+                weights={settings.questionTypeMix}
+                labels={QUESTION_TYPE_LABELS}
+                questionCount={settings.questionCount}
+                disabled={disabled}
+                onChange={(questionTypeMix) => onChange({ ...settings, questionTypeMix })}
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="include-behavioral"
+              checked={!!settings.includeBehavioral}
+              onCheckedChange={(checked) => onChange({ ...settings, includeBehavioral: checked === true })}
+              disabled={disabled}
+            />
+            <Label htmlFor="include-behavioral">Add a behavioral &amp; culture-fit section</Label>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
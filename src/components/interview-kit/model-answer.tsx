@@ -0,0 +1,48 @@
+"use client"
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { CodeBlock } from '@/components/interview-kit/code-block';
+import { answerPointId } from '@/lib/interview-kit';
+import type { ModelAnswerBlock } from '@/types/interview-kit';
+
+interface ModelAnswerProps {
+    answer: ModelAnswerBlock[];
+    questionId: string;
+    checkedPoints: string[];
+    onCheckedChange: (pointId: string, checked: boolean) => void;
+    /** Shows the points without letting them be checked, e.g. while the kit is still being generated. */
+    disabled?: boolean;
+}
+
+const weightLabels: Record<number, string> = { 3: 'Essential', 2: 'Important', 1: 'Nice to have' };
+
+// Renders the model answer's blocks in order; each point doubles as a checklist item for the panelist.
+export const ModelAnswer = ({ answer, questionId, checkedPoints, onCheckedChange, disabled }: ModelAnswerProps) => {
+    return (
+        <div className="space-y-2">
+            {answer.map((block, index) => {
+                const blockId = answerPointId(questionId, index);
+                if (block.type === 'code') {
+                    return <CodeBlock key={blockId} source={block.source} language={block.language} original={block.original} />;
+                }
+                return (
+                    <div key={blockId} className="flex items-start space-x-3">
+                        <Checkbox
+                            id={blockId}
+                            checked={checkedPoints.includes(blockId)}
+                            onCheckedChange={(checked) => onCheckedChange(blockId, checked === true)}
+                            disabled={disabled}
+                            className="mt-1 flex-shrink-0"
+                        />
+                        <label htmlFor={blockId} className="text-sm font-normal w-full">
+                            {block.text}
+                        </label>
+                        {weightLabels[block.weight] && (
+                            <span className="shrink-0 text-xs text-muted-foreground">{weightLabels[block.weight]}</span>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,51 @@
+"use client"
+
+import { History } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import type { PreviouslyAskedQuestion } from '@/types/interview-kit';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+export function PreviouslyAskedBadge({ match }: { match: PreviouslyAskedQuestion }) {
+  return (
+    <Badge variant="destructive" title={`"${match.previousQuestion}" in ${match.previousKitTitle}`}>
+      Asked before
+    </Badge>
+  );
+}
+
+interface PreviouslyAskedAlertProps {
+  matches: PreviouslyAskedQuestion[];
+  questionNumbers: Map<string, number>;
+  onOpenKit: (kitId: string) => void;
+}
+
+// Warns before the interview that the candidate already saw some of these questions in an earlier round.
+export function PreviouslyAskedAlert({ matches, questionNumbers, onOpenKit }: PreviouslyAskedAlertProps) {
+  if (matches.length === 0) return null;
+  const sorted = [...matches].sort((a, b) => (questionNumbers.get(a.questionId) ?? 0) - (questionNumbers.get(b.questionId) ?? 0));
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <History className="h-4 w-4" />
+      <AlertTitle>
+        {matches.length === 1 ? '1 question was' : `${matches.length} questions were`} already asked in an earlier round
+      </AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">Consider regenerating them, or use them as deliberate follow-ups.</p>
+        <ul className="list-disc space-y-1 pl-5">
+          {sorted.map(match => (
+            <li key={match.questionId}>
+              <span className="font-medium">Q{questionNumbers.get(match.questionId)}</span> is similar to &ldquo;{match.previousQuestion}&rdquo; from{' '}
+              <button type="button" className="underline underline-offset-2" onClick={() => onOpenKit(match.previousKitId)}>
+                {match.previousKitTitle}
+              </button>{' '}
+              ({formatDate(match.previousKitDate)})
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { AlertTriangle, FolderGit2, MessageSquareMore, Target } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ProjectSummary } from '@/ai/flows/identify-potential-projects';
+
+interface ProjectDeepDiveProps {
+  projects: ProjectSummary[];
+}
+
+export function ProjectDeepDive({ projects }: ProjectDeepDiveProps) {
+  if (projects.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-8 text-center bg-card">
+        <FolderGit2 className="h-12 w-12 text-muted-foreground/50" />
+        <h3 className="mt-4 text-lg font-semibold">No Projects to Deep-Dive</h3>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Upload the candidate's resume when generating the kit to get project-specific probing questions.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {projects.map((project, index) => (
+        <Card key={project.id ?? index}>
+          <CardHeader>
+            <CardTitle className="text-lg">{project.projectName}</CardTitle>
+            <CardDescription>{project.summary}</CardDescription>
+            <p className="text-sm"><span className="font-medium">Key skills:</span> {project.keySkills}</p>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div>
+              <h4 className="mb-2 flex items-center gap-2 font-semibold">
+                <MessageSquareMore className="h-4 w-4" /> Follow-up Questions
+              </h4>
+              <ol className="list-decimal space-y-1 pl-6">
+                {project.followUpQuestions.map((question, i) => <li key={i}>{question}</li>)}
+              </ol>
+            </div>
+            <div>
+              <h4 className="mb-2 flex items-center gap-2 font-semibold">
+                <AlertTriangle className="h-4 w-4" /> Ownership Red-Flag Checks
+              </h4>
+              <ul className="list-disc space-y-1 pl-6">
+                {project.redFlagChecks.map((check, i) => <li key={i}>{check}</li>)}
+              </ul>
+            </div>
+            <div>
+              <h4 className="mb-2 flex items-center gap-2 font-semibold">
+                <Target className="h-4 w-4" /> Expected Depth
+              </h4>
+              <p className="text-muted-foreground">{project.expectedDepth}</p>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+"use client"
+
+import { Fragment, useState } from 'react';
+import { Check, Loader2, Pencil, Wand2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Separator } from '@/components/ui/separator';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ModelAnswer } from '@/components/interview-kit/model-answer';
+import { InterviewerGuidance } from '@/components/interview-kit/interviewer-guidance';
+import { CodingExercise } from '@/components/interview-kit/coding-exercise';
+import { SqlExercise } from '@/components/interview-kit/sql-exercise';
+import { AnswerReviewBadge, AnswerReviewIssues } from '@/components/interview-kit/answer-review';
+import { PreviouslyAskedBadge } from '@/components/interview-kit/previously-asked';
+import {
+  DIFFICULTY_LABELS,
+  QUESTION_TYPE_LABELS,
+  checklistCoverage,
+  modelAnswerToText,
+  normalizeModelAnswer,
+  scoreFromFraction,
+  sqlAnswerQuery,
+} from '@/lib/interview-kit';
+import type { JdRequirement, PreviouslyAskedQuestion, QuestionAnswerPair, QuestionEvaluation, ScoreScale } from '@/types/interview-kit';
+import type { RegenerateQuestionDirective } from '@/ai/flows/regenerate-question';
+
+const regenerateActions: { directive: RegenerateQuestionDirective; label: string }[] = [
+  { directive: 'regenerate', label: 'Regenerate' },
+  { directive: 'harder', label: 'Make harder' },
+  { directive: 'easier', label: 'Make easier' },
+  { directive: 'more_practical', label: 'More practical' },
+  { directive: 'follow_up', label: 'Follow-up question' },
+  { directive: 'more_like_this', label: 'More like this' },
+];
+
+interface QuestionCardProps {
+  question: QuestionAnswerPair;
+  number: number;
+  edited?: boolean;
+  disabled?: boolean;
+  isRegenerating?: boolean;
+  /** The JD requirements the question was derived from. */
+  requirements?: JdRequirement[];
+  /** The similar question the candidate was asked in an earlier kit, if any. */
+  previouslyAsked?: PreviouslyAskedQuestion;
+  evaluation: QuestionEvaluation;
+  scoreScale: ScoreScale;
+  onEvaluationChange: (changes: Partial<QuestionEvaluation>) => void;
+  onChange: (changes: Pick<QuestionAnswerPair, 'question' | 'modelAnswer' | 'sqlExercise'>) => void;
+  onRegenerate: (directive: RegenerateQuestionDirective) => void;
+}
+
+export function QuestionCard({
+  question,
+  number,
+  edited,
+  disabled,
+  isRegenerating,
+  requirements,
+  previouslyAsked,
+  evaluation,
+  scoreScale,
+  onEvaluationChange,
+  onChange,
+  onRegenerate,
+}: QuestionCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftQuestion, setDraftQuestion] = useState(question.question);
+  const [draftAnswer, setDraftAnswer] = useState(() => modelAnswerToText(question.modelAnswer));
+  const coverage = checklistCoverage(question.id, question.modelAnswer, evaluation.checkedPoints);
+  const answerQuery = sqlAnswerQuery(question.modelAnswer);
+
+  const startEditing = () => {
+    setDraftQuestion(question.question);
+    setDraftAnswer(modelAnswerToText(question.modelAnswer));
+    setIsEditing(true);
+  };
+
+  const saveEdits = () => {
+    if (draftQuestion !== question.question || draftAnswer !== modelAnswerToText(question.modelAnswer)) {
+      // Points whose text survived the edit keep their weight; code blocks keep the
+      // candidate-facing original code of the block in the same position.
+      const weights = new Map(question.modelAnswer.flatMap(b => (b.type === 'point' ? [[b.text, b.weight] as const] : [])));
+      const originals = question.modelAnswer.flatMap(b => (b.type === 'code' ? [b.original] : []));
+      let codeIndex = 0;
+      const modelAnswer = normalizeModelAnswer(draftAnswer).map(b =>
+        b.type === 'point' ? { ...b, weight: weights.get(b.text) ?? b.weight } : { ...b, original: originals[codeIndex++] }
+      );
+      // A hand-edited SQL answer has not been run against the sample data, so its verification no longer applies.
+      const sqlExercise = question.sqlExercise && sqlAnswerQuery(modelAnswer) !== answerQuery
+        ? { setupSql: question.sqlExercise.setupSql }
+        : question.sqlExercise;
+      onChange({ question: draftQuestion.trim(), modelAnswer, sqlExercise });
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle>Question {number}</CardTitle>
+          {question.difficulty && <Badge variant="secondary">{DIFFICULTY_LABELS[question.difficulty]}</Badge>}
+          {question.type && <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>}
+          {question.review && <AnswerReviewBadge review={question.review} />}
+          {previouslyAsked && <PreviouslyAskedBadge match={previouslyAsked} />}
+          {edited && <Badge variant="outline">Edited</Badge>}
+        </div>
+        {isEditing ? (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={saveEdits} disabled={!draftQuestion.trim() || !draftAnswer.trim()}>
+              <Check className="mr-1 h-4 w-4" />
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+              <X className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={startEditing} disabled={disabled || isRegenerating}>
+              <Pencil className="mr-1 h-4 w-4" />
+              Edit
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="ghost" disabled={disabled || isRegenerating}>
+                  {isRegenerating ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Wand2 className="mr-1 h-4 w-4" />
+                  )}
+                  Rework
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {regenerateActions.map(({ directive, label }, index) => (
+                  <Fragment key={directive}>
+                    {index === 1 && <DropdownMenuSeparator />}
+                    <DropdownMenuItem onClick={() => onRegenerate(directive)}>
+                      {label}
+                    </DropdownMenuItem>
+                  </Fragment>
+                ))}
+                {!!question.review?.issues.length && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => onRegenerate('fix_issues')}>
+                      Fix reviewer issues
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditing ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`${question.id}-question`}>Question</Label>
+              <Textarea
+                id={`${question.id}-question`}
+                value={draftQuestion}
+                onChange={(e) => setDraftQuestion(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${question.id}-answer`}>Model Answer</Label>
+              <Textarea
+                id={`${question.id}-answer`}
+                value={draftAnswer}
+                onChange={(e) => setDraftAnswer(e.target.value)}
+                className="min-h-[200px] font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Use "- " for bullet points and wrap code in triple backticks.
+              </p>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="font-semibold text-base">{question.question}</p>
+            {!!requirements?.length && (
+              <p className="text-xs text-muted-foreground">
+                Covers:{' '}
+                {requirements.map((r, i) => (
+                  <Fragment key={r.id}>
+                    {i > 0 && '; '}
+                    <span title={r.quote} className="cursor-help underline decoration-dotted">{r.text}</span>
+                  </Fragment>
+                ))}
+              </p>
+            )}
+            {question.review && <AnswerReviewIssues review={question.review} />}
+            <div>
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <h4 className="font-medium text-base">Model Answer:</h4>
+                {coverage !== null && evaluation.checkedPoints.length > 0 && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{Math.round(coverage * 100)}% of key points covered</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => onEvaluationChange({ score: scoreFromFraction(coverage, scoreScale) })}
+                    >
+                      Score {scoreFromFraction(coverage, scoreScale)}
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <ModelAnswer
+                answer={question.modelAnswer}
+                questionId={question.id}
+                checkedPoints={evaluation.checkedPoints}
+                onCheckedChange={(pointId, checked) => onEvaluationChange({
+                  checkedPoints: checked
+                    ? [...evaluation.checkedPoints, pointId]
+                    : evaluation.checkedPoints.filter(id => id !== pointId),
+                })}
+              />
+            </div>
+            {question.codingExercise && (
+              <CodingExercise
+                key={question.id}
+                questionId={question.id}
+                exercise={question.codingExercise}
+                scoreScale={scoreScale}
+                onApplyScore={(score) => onEvaluationChange({ score })}
+              />
+            )}
+            {question.sqlExercise && answerQuery && (
+              <SqlExercise key={question.id} questionId={question.id} exercise={question.sqlExercise} answerQuery={answerQuery} />
+            )}
+            <InterviewerGuidance
+              question={question}
+              scoreScale={scoreScale}
+              onApplyScore={(score) => onEvaluationChange({ score })}
+            />
+            <Separator />
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`${question.id}-score`}>Score</Label>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold">
+                    {evaluation.score !== undefined ? `${evaluation.score} / ${scoreScale}` : 'Not scored'}
+                  </span>
+                  {evaluation.score !== undefined && (
+                    <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => onEvaluationChange({ score: undefined })}>
+                      Clear
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Slider
+                id={`${question.id}-score`}
+                min={1}
+                max={scoreScale}
+                step={1}
+                value={[evaluation.score ?? 1]}
+                onValueChange={([score]) => onEvaluationChange({ score })}
+                className={evaluation.score === undefined ? 'opacity-50' : undefined}
+              />
+              <div className="space-y-2">
+                <Label htmlFor={`${question.id}-notes`}>Notes</Label>
+                <Textarea
+                  id={`${question.id}-notes`}
+                  placeholder="Record your observations..."
+                  value={evaluation.notes}
+                  onChange={(e) => onEvaluationChange({ notes: e.target.value })}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { formatDistanceToNow } from 'date-fns';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { KitSessionSummary } from '@/types/interview-kit';
+
+interface RecentKitsProps {
+  sessions: KitSessionSummary[];
+  activeSessionId?: string;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function RecentKits({ sessions, activeSessionId, disabled, onOpen, onDelete }: RecentKitsProps) {
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Recent Kits</CardTitle>
+        <CardDescription>Reopen a saved kit, including its scores and notes.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            className={cn(
+              "flex items-center gap-2 rounded-md border p-2",
+              session.id === activeSessionId && "border-primary bg-muted"
+            )}
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{session.title}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {session.candidateResumeFileName ? `${session.candidateResumeFileName} · ` : ''}
+                Updated {formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true })}
+              </p>
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => onOpen(session.id)}
+              disabled={disabled || session.id === activeSessionId}
+            >
+              <FolderOpen className="h-4 w-4" />
+              <span className="sr-only">Open kit</span>
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => onDelete(session.id)}
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete kit</span>
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { formatScoreOnScale, type KitScore } from '@/lib/interview-kit';
+import type { ScoreScale } from '@/types/interview-kit';
+
+interface ScoreSummaryProps {
+  kitScore: KitScore;
+  scoreScale: ScoreScale;
+  onScoreScaleChange: (scale: ScoreScale) => void;
+}
+
+export function ScoreSummary({ kitScore, scoreScale, onScoreScaleChange }: ScoreSummaryProps) {
+  const scoredCount = kitScore.competencies.reduce((sum, c) => sum + c.scoredCount, 0);
+  const questionCount = kitScore.competencies.reduce((sum, c) => sum + c.questionCount, 0);
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Candidate Score</CardTitle>
+          <CardDescription>
+            {scoredCount} of {questionCount} questions scored. The overall score weights the rubric criteria by the
+            rubric; below, each competency averages its questions and is weighted by its share of them.
+          </CardDescription>
+        </div>
+        <RadioGroup
+          value={String(scoreScale)}
+          onValueChange={(value) => onScoreScaleChange(Number(value) as ScoreScale)}
+          className="flex gap-3"
+        >
+          <div className="flex items-center gap-1.5">
+            <RadioGroupItem value="5" id="score-scale-5" />
+            <Label htmlFor="score-scale-5" className="text-sm font-normal">1-5</Label>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <RadioGroupItem value="10" id="score-scale-10" />
+            <Label htmlFor="score-scale-10" className="text-sm font-normal">1-10</Label>
+          </div>
+        </RadioGroup>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-baseline gap-2">
+          <span className="text-4xl font-bold">
+            {kitScore.overall !== null ? formatScoreOnScale(kitScore.overall, scoreScale) : '–'}
+          </span>
+          <span className="text-muted-foreground">/ {scoreScale}</span>
+          {kitScore.overall !== null && (
+            <span className="ml-auto text-sm text-muted-foreground">{Math.round(kitScore.overall * 100)}%</span>
+          )}
+        </div>
+        <div className="space-y-3">
+          {kitScore.competencies.map(c => (
+            <div key={c.competencyId} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">
+                  {c.name} <span className="font-normal text-muted-foreground">({Math.round(c.weight * 100)}%)</span>
+                </span>
+                <span className="text-muted-foreground">
+                  {c.score !== null ? `${formatScoreOnScale(c.score, scoreScale)} / ${scoreScale}` : 'Not scored'}
+                </span>
+              </div>
+              <Progress value={c.score !== null ? c.score * 100 : 0} className="h-2" />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
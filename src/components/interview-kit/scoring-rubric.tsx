@@ -0,0 +1,63 @@
+"use client"
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import type { ScoreScale, ScoringCriterion } from '@/types/interview-kit';
+
+interface ScoringRubricProps {
+  rubric: ScoringCriterion[];
+  rubricScores: Record<string, number>;
+  scoreScale: ScoreScale;
+  onRubricScoreChange: (criterionId: string, score: number | undefined) => void;
+}
+
+export function ScoringRubric({ rubric, rubricScores, scoreScale, onRubricScoreChange }: ScoringRubricProps) {
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle className="text-lg">Scoring Rubric</CardTitle>
+        <CardDescription>
+          Score each criterion across the whole interview. The overall score weights them by the rubric.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {rubric.map(r => {
+          const score = rubricScores[r.id];
+          return (
+            <div key={r.id} className="space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Label htmlFor={`${r.id}-score`} className="font-medium">{r.criterion}</Label>
+                  <p className="text-sm text-muted-foreground">{r.description}</p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <span className="text-sm font-semibold">
+                    {score !== undefined ? `${score} / ${scoreScale}` : 'Not scored'}
+                  </span>
+                  {score !== undefined && (
+                    <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => onRubricScoreChange(r.id, undefined)}>
+                      Clear
+                    </Button>
+                  )}
+                  <Badge variant="secondary">{Math.round(r.weight * 100)}%</Badge>
+                </div>
+              </div>
+              <Slider
+                id={`${r.id}-score`}
+                min={1}
+                max={scoreScale}
+                step={1}
+                value={[score ?? 1]}
+                onValueChange={([value]) => onRubricScoreChange(r.id, value)}
+                className={score === undefined ? 'opacity-50' : undefined}
+              />
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, ChevronDown, Database, Loader2, Play, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { CodeBlock } from '@/components/interview-kit/code-block';
+import { CodeRunnerAccessNotice, useCodeRunnerAccess } from '@/components/interview-kit/code-runner-access';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type { SqlExercise as SqlExerciseData, SqlQueryResult, SqlRunComparison } from '@/types/interview-kit';
+
+interface SqlExerciseProps {
+  questionId: string;
+  exercise: SqlExerciseData;
+  answerQuery: string;
+}
+
+function ResultTable({ title, result }: { title: string; result: SqlQueryResult }) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <h5 className="text-xs font-medium text-muted-foreground">{title}</h5>
+      {result.status === 'error' ? (
+        <p className="rounded-md bg-destructive/10 p-2 font-mono text-xs text-destructive">{result.error}</p>
+      ) : (
+        <div className="max-h-64 overflow-auto rounded-md border">
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                {result.columns.map((column, i) => <TableHead key={i} className="h-8 px-2">{column}</TableHead>)}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map((row, i) => (
+                <TableRow key={i}>
+                  {row.map((cell, j) => (
+                    <TableCell key={j} className={cn("px-2 py-1 font-mono", cell === null && "text-muted-foreground")}>
+                      {cell === null ? 'NULL' : String(cell)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {result.rows.length === 0 && <p className="p-2 text-xs text-muted-foreground">No rows.</p>}
+          {result.truncated && <p className="p-2 text-xs text-muted-foreground">Only the first {result.rows.length} rows are shown.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Runs the candidate's query and the model answer against fresh copies of the question's sample data and compares the results.
+export function SqlExercise({ questionId, exercise, answerQuery }: SqlExerciseProps) {
+  const [showSetup, setShowSetup] = useState(false);
+  const [query, setQuery] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [comparison, setComparison] = useState<SqlRunComparison | null>(null);
+  const { access, token, setToken, post, blocked } = useCodeRunnerAccess();
+  const { toast } = useToast();
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const response = await post('/api/code/sql', { setupSql: exercise.setupSql, answerQuery, query });
+      if (!response) return;
+      if (response.status === 429) {
+        toast({ title: "Server Busy", description: "Too many queries are running. Please try again shortly." });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`SQL run failed with status ${response.status}`);
+      }
+      setComparison(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Error Running Query",
+        description: "The query could not be run. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 font-medium">
+          <Database className="h-4 w-4" /> SQL Sample Data
+        </h4>
+        {exercise.verified === true && (
+          <Badge variant="secondary" className="gap-1"><CheckCircle2 className="h-3 w-3 text-green-600" /> Answer verified</Badge>
+        )}
+        {exercise.verified === false && (
+          <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" /> Answer not verified</Badge>
+        )}
+      </div>
+      {exercise.verified === false && exercise.verificationError && (
+        <p className="text-xs text-muted-foreground">
+          The model answer failed against the sample data: <span className="font-mono">{exercise.verificationError}</span>
+        </p>
+      )}
+
+      <Collapsible open={showSetup} onOpenChange={setShowSetup}>
+        <CollapsibleTrigger asChild>
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs">
+            <ChevronDown className={cn("mr-1 h-3 w-3 transition-transform", showSetup && "rotate-180")} />
+            {showSetup ? 'Hide' : 'Show'} schema and data
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <CodeBlock source={exercise.setupSql} language="sql" />
+        </CollapsibleContent>
+      </Collapsible>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${questionId}-query`}>Candidate&apos;s query</Label>
+        <Textarea
+          id={`${questionId}-query`}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="SELECT ..."
+          className="min-h-[120px] font-mono text-sm"
+          spellCheck={false}
+        />
+      </div>
+      <CodeRunnerAccessNotice id={questionId} access={access} token={token} onTokenChange={setToken} />
+      <div className="flex items-center justify-between gap-2">
+        <Button size="sm" onClick={handleRun} disabled={isRunning || !query.trim() || blocked}>
+          {isRunning ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Play className="mr-1 h-4 w-4" />}
+          Run and compare
+        </Button>
+        {comparison && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            {comparison.matches
+              ? <><CheckCircle2 className="h-4 w-4 text-green-600" /> Same result as the model answer</>
+              : <><XCircle className="h-4 w-4 text-destructive" /> Different result from the model answer</>}
+          </span>
+        )}
+      </div>
+
+      {comparison && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <ResultTable title="Candidate" result={comparison.actual} />
+          <ResultTable title="Model answer" result={comparison.expected} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for the candidate's resume.
+ *
+ * - extractCandidateResume - Extracts the text of an uploaded resume once, so every flow of the request is given the text instead of the file.
+ */
+
+import { resolveResumeContext, type ResumeContext } from '@/lib/resume-extraction';
+
+export async function extractCandidateResume(dataUri: string, fileName?: string): Promise<ResumeContext> {
+  return resolveResumeContext({ candidateResumeDataUri: dataUri, candidateResumeFileName: fileName });
+}
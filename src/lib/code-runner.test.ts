@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCodingTests } from '@/lib/code-runner';
+import type { CodingExercise } from '@/types/interview-kit';
+
+const exercise = (language: CodingExercise['language'], functionName: string): CodingExercise => ({
+  language,
+  functionName,
+  signature: '',
+  starterCode: '',
+  tests: [
+    { args: '[[2, 7, 11, 15], 9]', expected: '[0, 1]' },
+    { args: '[[3, 3], 6]', expected: '[0, 1]' },
+  ],
+});
+
+const twoSumJs = `
+function twoSum(nums, target) {
+  const seen = new Map();
+  for (let i = 0; i < nums.length; i++) {
+    if (seen.has(target - nums[i])) return [seen.get(target - nums[i]), i];
+    seen.set(nums[i], i);
+  }
+}`;
+
+describe('runCodingTests', () => {
+  it('passes a correct JavaScript solution', async () => {
+    const result = await runCodingTests(exercise('javascript', 'twoSum'), twoSumJs);
+
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(result.results.map(r => [r.passed, r.actual]), [[true, '[0,1]'], [true, '[0,1]']]);
+  });
+
+  it('transpiles TypeScript before running it', async () => {
+    const result = await runCodingTests(exercise('typescript', 'twoSum'), 'function twoSum(nums: number[], target: number): number[] { return [0, 1]; }');
+
+    assert.equal(result.status, 'completed');
+    assert.ok(result.results.every(r => r.passed));
+  });
+
+  it('reports wrong answers and thrown errors per test', async () => {
+    const result = await runCodingTests(
+      exercise('javascript', 'twoSum'),
+      'function twoSum(nums) { if (nums.length === 2) throw new RangeError("too short"); return [1, 0]; }',
+    );
+
+    assert.equal(result.status, 'completed');
+    assert.deepEqual(result.results, [
+      { passed: false, actual: '[1,0]' },
+      { passed: false, error: 'RangeError: too short' },
+    ]);
+  });
+
+  it('does not count results the solution prints itself', async () => {
+    const forged = `${JSON.stringify({ index: 0, actual: '[0, 1]' })}\\n${JSON.stringify({ index: 1, actual: '[0, 1]' })}`;
+    const result = await runCodingTests(exercise('javascript', 'twoSum'), `console.log('${forged}'); function twoSum() { return null; }`);
+
+    assert.ok(result.results.every(r => !r.passed));
+  });
+
+  it('does not count results the solution writes to the results pipe itself', async () => {
+    const forged = [0, 1].map(index => JSON.stringify({ index, nonce: 'guess', actual: '[0,1]' })).join('\\n');
+    const result = await runCodingTests(
+      exercise('javascript', 'twoSum'),
+      `require('fs').writeSync(3, '${forged}\\n'); process.exit(0); function twoSum() { return null; }`,
+    );
+
+    assert.equal(result.status, 'error');
+    assert.deepEqual(result.results, []);
+    assert.match(result.output, /malformed/);
+  });
+
+  it('does not count results a Python solution writes to the results pipe itself', async () => {
+    const forged = [0, 1].map(index => JSON.stringify({ index, nonce: 'guess', actual: '[0,1]' })).join('\\n');
+    const result = await runCodingTests(
+      exercise('python', 'two_sum'),
+      `import os\nos.write(3, b'${forged}\\n')\nos._exit(0)\ndef two_sum(nums, target):\n    return None`,
+    );
+
+    assert.equal(result.status, 'error');
+    assert.deepEqual(result.results, []);
+    assert.match(result.output, /malformed/);
+  });
+
+  it('reports a missing function', async () => {
+    const result = await runCodingTests(exercise('javascript', 'twoSum'), 'function other() {}');
+
+    assert.equal(result.status, 'error');
+    assert.match(result.output, /Function "twoSum" is not defined/);
+  });
+
+  it('stops a solution that runs too long', async () => {
+    const result = await runCodingTests(exercise('javascript', 'twoSum'), 'function twoSum() { while (true) {} }');
+
+    assert.equal(result.status, 'timeout');
+  });
+
+  it('passes a correct Python solution', async () => {
+    const result = await runCodingTests(exercise('python', 'two_sum'), [
+      'def two_sum(nums, target):',
+      '    seen = {}',
+      '    for i, n in enumerate(nums):',
+      '        if target - n in seen:',
+      '            return [seen[target - n], i]',
+      '        seen[n] = i',
+    ].join('\n'));
+
+    assert.equal(result.status, 'completed');
+    assert.ok(result.results.every(r => r.passed));
+  });
+
+  it('blocks Python solutions from reading files outside the run directory', async () => {
+    const result = await runCodingTests(exercise('python', 'two_sum'), 'def two_sum(nums, target):\n    return open("/etc/passwd").read()');
+
+    assert.ok(result.results.every(r => !r.passed && r.error?.includes('PermissionError')));
+  });
+});
@@ -0,0 +1,308 @@
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { CodeRunResult, CodingExercise, CodingTestResult } from '@/types/interview-kit';
+
+/**
+ * Runs a candidate's solution to a coding exercise against its tests in a child process.
+ *
+ * Each run gets its own temporary directory, a minimal environment, a wall-clock
+ * time limit and a memory limit. JavaScript and TypeScript run under Node's
+ * permission model, which blocks file writes, child processes and reads outside
+ * the run directory. Python runs in isolated mode with resource limits on memory,
+ * CPU time, file writes and forking, and an audit hook that blocks reads outside
+ * the run directory and the standard library, sockets, child processes and native
+ * code. Neither is a sandbox, and Node's permission model does not restrict the
+ * network, which is why the /api/code/run route is off unless enabled.
+ *
+ * The child process only gets each test's arguments, one call at a time on stdin,
+ * each with a fresh random nonce. It reports what the solution returned on a
+ * separate pipe (fd 3), and a result only counts if it answers the call in flight
+ * with that call's nonce. The solution can write to the pipe too, but a nonce does
+ * not exist until its call is sent, so it cannot report results ahead of the calls;
+ * at most it can answer a call itself, which is no different from returning a value.
+ * The expected values are compared here, out of the solution's reach.
+ */
+
+const TIME_LIMIT_MS = 5000;
+const MEMORY_LIMIT_MB = 128;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const RESULTS_FD = 3;
+
+// Each {"nonce", "args"} call line on stdin is answered with a {"nonce", "actual"} or {"nonce", "error"} line on the results pipe.
+const JS_HARNESS = `
+;(async (solution, results) => {
+  if (typeof solution !== 'function') {
+    console.error('Function "' + __FUNCTION_NAME__ + '" is not defined.');
+    process.exit(1);
+  }
+  for await (const line of require('readline').createInterface({ input: process.stdin })) {
+    const { nonce, args } = JSON.parse(line);
+    let result;
+    try {
+      result = { nonce, actual: JSON.stringify((await solution(...JSON.parse(args))) ?? null) };
+    } catch (error) {
+      result = { nonce, error: error instanceof Error ? error.name + ': ' + error.message : String(error) };
+    }
+    require('fs').writeSync(results, JSON.stringify(result) + '\\n');
+  }
+})(typeof __FUNCTION__ === 'undefined' ? undefined : __FUNCTION__, __RESULTS_FD__);
+`;
+
+const PYTHON_HARNESS = `
+import json, os, resource, sys, traceback
+
+function_name, memory_bytes, cpu_seconds, results_fd = sys.argv[1], int(sys.argv[2]), int(sys.argv[3]), int(sys.argv[4])
+with open('solution.py') as f:
+    source = f.read()
+
+for limit, value in ((resource.RLIMIT_AS, memory_bytes), (resource.RLIMIT_CPU, cpu_seconds), (resource.RLIMIT_FSIZE, 0), (resource.RLIMIT_NPROC, 0)):
+    try:
+        resource.setrlimit(limit, (value, value))
+    except (ValueError, OSError):
+        pass
+
+# Reads are allowed in the run directory and the interpreter's module directories, so solutions can import the standard library.
+readable = tuple(os.path.join(os.path.realpath(d), '') for d in [os.getcwd()] + [p for p in sys.path if os.path.isdir(p)])
+blocked_events = ('socket.', 'subprocess.', 'os.system', 'os.exec', 'os.spawn', 'os.posix_spawn', 'os.fork', 'os.kill',
+                  'os.remove', 'os.rename', 'os.rmdir', 'os.mkdir', 'os.symlink', 'os.link', 'os.chmod', 'os.chown',
+                  'os.truncate', 'os.utime', 'shutil.', 'ctypes.', 'pty.', 'sys.addaudithook', 'urllib.', 'http.', 'webbrowser.')
+
+def is_readable(path):
+    return isinstance(path, int) or os.path.join(os.path.realpath(os.fsdecode(path)), '').startswith(readable)
+
+def confine(event, args):
+    if event.startswith(blocked_events):
+        raise PermissionError('%s is not allowed in coding exercises' % event)
+    if event == 'open':
+        path, mode, flags = args
+        writes = (mode and any(c in mode for c in 'wax+')) or (flags and flags & (os.O_WRONLY | os.O_RDWR | os.O_CREAT))
+        if writes or not is_readable(path):
+            raise PermissionError('Access to %s is not allowed in coding exercises' % (path,))
+    elif event in ('os.listdir', 'os.scandir') and not is_readable(args[0] if args[0] is not None else '.'):
+        raise PermissionError('Access to %s is not allowed in coding exercises' % (args[0],))
+
+sys.addaudithook(confine)
+
+namespace = {'__name__': 'solution'}
+try:
+    exec(compile(source, 'solution.py', 'exec'), namespace)
+except BaseException:
+    traceback.print_exc()
+    sys.exit(1)
+solution = namespace.get(function_name)
+if not callable(solution):
+    print('Function "%s" is not defined.' % function_name, file=sys.stderr)
+    sys.exit(1)
+
+for line in iter(sys.stdin.readline, ''):
+    call = json.loads(line)
+    try:
+        result = {'nonce': call['nonce'], 'actual': json.dumps(solution(*json.loads(call['args'])))}
+    except Exception as error:
+        result = {'nonce': call['nonce'], 'error': '%s: %s' % (type(error).__name__, error)}
+    os.write(results_fd, (json.dumps(result) + '\\n').encode())
+`;
+
+/** What the solution returned for one call, or the error it threw. */
+interface CallResult {
+  actual?: string;
+  error?: string;
+}
+
+interface ProcessOutcome {
+  stdout: string;
+  stderr: string;
+  /** The answers to the calls, in order, as far as the harness got. */
+  results: CallResult[];
+  /** Whether a line on the results pipe did not answer the call in flight, so none of them can be trusted. */
+  malformed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  outputExceeded: boolean;
+}
+
+/** Runs the harness, sending it the calls one at a time and reading each answer before the next call. */
+function runProcess(
+  command: string,
+  args: string[],
+  cwd: string,
+  env: Record<string, string | undefined>,
+  calls: string[]
+): Promise<ProcessOutcome> {
+  return new Promise((resolve, reject) => {
+    // Next.js types process.env with a required NODE_ENV, which the solution's environment deliberately lacks.
+    const child = spawn(command, args, { cwd, env: env as NodeJS.ProcessEnv, stdio: ['pipe', 'pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let pending = '';
+    const results: CallResult[] = [];
+    let nonce: string | undefined;
+    let malformed = false;
+    let timedOut = false;
+    let outputExceeded = false;
+
+    // A solution that exits early closes stdin; the close event still reports the run.
+    child.stdin!.on('error', () => {});
+    const sendNextCall = () => {
+      const index = results.length;
+      if (index === calls.length) {
+        nonce = undefined;
+        child.stdin!.end();
+        return;
+      }
+      nonce = randomBytes(16).toString('hex');
+      child.stdin!.write(`${JSON.stringify({ nonce, args: calls[index] })}\n`);
+    };
+    const readResult = (line: string) => {
+      let record: { nonce?: unknown; actual?: unknown; error?: unknown };
+      try {
+        record = JSON.parse(line);
+      } catch {
+        record = {};
+      }
+      const answersCall = nonce !== undefined && record.nonce === nonce;
+      if (answersCall && typeof record.error === 'string') {
+        results.push({ error: record.error });
+      } else if (answersCall && typeof record.actual === 'string') {
+        results.push({ actual: record.actual });
+      } else {
+        malformed = true;
+        child.kill('SIGKILL');
+        return;
+      }
+      sendNextCall();
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, TIME_LIMIT_MS);
+    const collect = (append: (chunk: string) => void) => (chunk: Buffer) => {
+      append(chunk.toString('utf8'));
+      if (stdout.length + stderr.length + pending.length > MAX_OUTPUT_BYTES) {
+        outputExceeded = true;
+        child.kill('SIGKILL');
+      }
+    };
+    child.stdout!.on('data', collect(chunk => { stdout += chunk; }));
+    child.stderr!.on('data', collect(chunk => { stderr += chunk; }));
+    child.stdio[RESULTS_FD]!.on('data', collect(chunk => {
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop()!;
+      lines.filter(Boolean).forEach(line => !malformed && readResult(line));
+    }));
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      if (pending.trim()) malformed = true;
+      resolve({ stdout, stderr, results, malformed, exitCode, timedOut, outputExceeded });
+    });
+    sendNextCall();
+  });
+}
+
+async function transpileTypeScript(source: string): Promise<{ code: string } | { error: string }> {
+  const ts = (await import('typescript')).default;
+  const { outputText, diagnostics = [] } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+    reportDiagnostics: true,
+  });
+  if (diagnostics.length > 0) {
+    return { error: diagnostics.map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n')).join('\n') };
+  }
+  return { code: outputText };
+}
+
+async function runJavaScript(dir: string, exercise: CodingExercise, source: string) {
+  // Replacer functions, so "$" sequences in the tests are not read as replacement patterns.
+  const harness = JS_HARNESS
+    .replace('__RESULTS_FD__', String(RESULTS_FD))
+    .replace('__FUNCTION_NAME__', () => JSON.stringify(exercise.functionName))
+    .replace(/__FUNCTION__/g, () => exercise.functionName);
+  const file = path.join(dir, 'solution.cjs');
+  await writeFile(file, `${source}\n${harness}`);
+  // Node 22 dropped the "experimental" prefix of the permission flag.
+  const permissionFlag = Number(process.versions.node.split('.')[0]) >= 22 ? '--permission' : '--experimental-permission';
+  return runProcess(
+    process.execPath,
+    [permissionFlag, `--allow-fs-read=${dir}`, `--max-old-space-size=${MEMORY_LIMIT_MB}`, '--no-warnings', file],
+    dir,
+    {},
+    exercise.tests.map(test => test.args),
+  );
+}
+
+async function runPython(dir: string, exercise: CodingExercise, source: string) {
+  await Promise.all([
+    writeFile(path.join(dir, 'solution.py'), source),
+    writeFile(path.join(dir, 'harness.py'), PYTHON_HARNESS),
+  ]);
+  return runProcess(
+    process.env.PYTHON_BIN || 'python3',
+    ['-I', '-B', 'harness.py', exercise.functionName, String(MEMORY_LIMIT_MB * 1024 * 1024), String(Math.ceil(TIME_LIMIT_MS / 1000)), String(RESULTS_FD)],
+    dir,
+    // PATH (and HOME for version managers such as pyenv) are needed to find the interpreter.
+    { PATH: process.env.PATH, HOME: process.env.HOME },
+    exercise.tests.map(test => test.args),
+  );
+}
+
+// Object keys are sorted, so results that differ only in key order still match.
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/** Compares the answers to the calls with the tests' expected values, in order. */
+function checkResults(results: CallResult[], tests: CodingExercise['tests']): CodingTestResult[] {
+  return results.map(({ actual, error }, index) => {
+    if (actual === undefined) return { passed: false, error };
+    try {
+      return { passed: canonical(JSON.parse(actual)) === canonical(JSON.parse(tests[index].expected)), actual };
+    } catch {
+      return { passed: false, actual, error: 'The return value is not valid JSON.' };
+    }
+  });
+}
+
+export async function runCodingTests(exercise: CodingExercise, solution: string): Promise<CodeRunResult> {
+  let source = solution;
+  if (exercise.language === 'typescript') {
+    const transpiled = await transpileTypeScript(solution);
+    if ('error' in transpiled) {
+      return { status: 'error', results: [], output: transpiled.error };
+    }
+    source = transpiled.code;
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'kit-runner-'));
+  try {
+    const outcome = exercise.language === 'python'
+      ? await runPython(dir, exercise, source)
+      : await runJavaScript(dir, exercise, source);
+
+    const output = [outcome.stdout.trim(), outcome.stderr.trim()].filter(Boolean);
+    if (outcome.timedOut) output.push(`Stopped after ${TIME_LIMIT_MS / 1000} seconds.`);
+    if (outcome.outputExceeded) output.push('Stopped because the solution printed too much output.');
+    if (outcome.malformed) output.push('The test results were malformed, so none of them are counted.');
+    const results = outcome.malformed ? [] : checkResults(outcome.results, exercise.tests);
+
+    const completed = outcome.exitCode === 0 && results.length === exercise.tests.length;
+    return {
+      status: outcome.timedOut ? 'timeout' : completed ? 'completed' : 'error',
+      results,
+      output: output.join('\n'),
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
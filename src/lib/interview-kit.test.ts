@@ -0,0 +1,216 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  allocateByWeights,
+  calculateKitScore,
+  migrateKitSession,
+  missingQuestionSlots,
+  normalizeModelAnswer,
+  normalizeRequirementIds,
+  normalizeRequirements,
+  normalizeSqlExercise,
+  parseModelAnswer,
+  planQuestionMix,
+  selectQuestionsForPlan,
+  splitHighlightedLines,
+} from '@/lib/interview-kit';
+
+describe('calculateKitScore', () => {
+  const question = (id: string) => ({ id, question: id, modelAnswer: [] });
+  const kit = {
+    id: 'kit',
+    competencies: [
+      { id: 'db', name: 'Databases', description: '', questions: [question('q1'), question('q2'), question('q3')] },
+      { id: 'ops', name: 'Operations', description: '', questions: [question('q4')] },
+    ],
+    scoringRubric: [
+      { id: 'r1', criterion: 'Depth', description: '', weight: 0.9 },
+      { id: 'r2', criterion: 'Communication', description: '', weight: 0.1 },
+    ],
+  };
+  const scored = (score: number) => ({ score, notes: '', checkedPoints: [] });
+
+  it('weights the rubric criteria by the rubric and each competency by its share of questions', () => {
+    const score = calculateKitScore(kit, { q1: scored(5), q2: scored(3), q4: scored(1) }, { r1: 5, r2: 1 }, 5);
+
+    assert.deepEqual(score.criteria.map(c => [c.criterionId, c.weight, c.score]), [['r1', 0.9, 1], ['r2', 0.1, 0]]);
+    assert.equal(score.overall, 0.9);
+    assert.deepEqual(score.competencies.map(c => [c.weight, c.score, c.scoredCount]), [[0.75, 0.75, 2], [0.25, 0, 1]]);
+  });
+
+  it('leaves unscored criteria out of the overall score', () => {
+    assert.equal(calculateKitScore(kit, {}, { r2: 10 }, 10).overall, 1);
+    assert.equal(calculateKitScore(kit, { q1: scored(5) }, {}, 5).overall, null);
+  });
+});
+
+describe('allocateByWeights', () => {
+  it('splits the total proportionally, giving the leftovers to the largest remainders', () => {
+    assert.deepEqual(allocateByWeights(10, { easy: 30, medium: 50, hard: 20 }), { easy: 3, medium: 5, hard: 2 });
+    assert.deepEqual(allocateByWeights(7, { easy: 30, medium: 50, hard: 20 }), { easy: 2, medium: 4, hard: 1 });
+  });
+
+  it('always adds up to the total', () => {
+    for (const total of [0, 1, 3, 11, 29]) {
+      const parts = allocateByWeights(total, { a: 1, b: 1, c: 1 });
+      assert.equal(parts.a + parts.b + parts.c, total);
+    }
+  });
+
+  it('ignores negative and non-finite weights, and splits evenly when none is usable', () => {
+    assert.deepEqual(allocateByWeights(4, { a: -5, b: Number.NaN, c: 2 }), { a: 0, b: 0, c: 4 });
+    assert.deepEqual(allocateByWeights(6, { a: 0, b: 0, c: 0 }), { a: 2, b: 2, c: 2 });
+  });
+});
+
+describe('planQuestionMix', () => {
+  it('only plans the difficulties and types the settings ask for', () => {
+    assert.deepEqual(planQuestionMix({ questionCount: 5 }), { count: 5, difficulty: undefined, type: undefined });
+    assert.deepEqual(planQuestionMix({ questionCount: 4, difficultyDistribution: { easy: 1, medium: 1, hard: 0 } }).difficulty, { easy: 2, medium: 2, hard: 0 });
+  });
+});
+
+describe('selectQuestionsForPlan', () => {
+  const plan = { count: 3, difficulty: { easy: 1, medium: 1, hard: 1 } };
+
+  it('keeps questions in order while they fit the quotas, rejecting the rest', () => {
+    const questions = [
+      { id: 1, difficulty: 'easy' as const },
+      { id: 2, difficulty: 'easy' as const },
+      { id: 3 },
+      { id: 4, difficulty: 'hard' as const },
+      { id: 5, difficulty: 'medium' as const },
+    ];
+
+    const { selected, rejected } = selectQuestionsForPlan(questions, plan);
+
+    assert.deepEqual(selected.map(q => q.id), [1, 3, 4]);
+    assert.deepEqual(rejected.map(q => q.id), [2, 5]);
+  });
+
+  it('lists the slots still missing from the plan', () => {
+    assert.deepEqual(missingQuestionSlots([{ difficulty: 'easy' }], plan), [
+      { difficulty: 'medium', type: undefined },
+      { difficulty: 'hard', type: undefined },
+    ]);
+  });
+});
+
+describe('parseModelAnswer', () => {
+  it('makes a point of each list item, continuing wrapped lines', () => {
+    assert.deepEqual(parseModelAnswer('- First point\n  that wraps\n* Second\n1. Third\n• Fourth'), [
+      { type: 'point', text: 'First point that wraps', weight: 1 },
+      { type: 'point', text: 'Second', weight: 1 },
+      { type: 'point', text: 'Third', weight: 1 },
+      { type: 'point', text: 'Fourth', weight: 1 },
+    ]);
+  });
+
+  it('keeps fenced code verbatim with its language', () => {
+    assert.deepEqual(parseModelAnswer('```sql\nSELECT *\n  FROM t;\n```\n- Reads every row.'), [
+      { type: 'code', language: 'sql', source: 'SELECT *\n  FROM t;' },
+      { type: 'point', text: 'Reads every row.', weight: 1 },
+    ]);
+  });
+
+  it('keeps the code of an unterminated fence', () => {
+    assert.deepEqual(parseModelAnswer('~~~\nprint(1)'), [{ type: 'code', language: undefined, source: 'print(1)' }]);
+  });
+
+  it('starts a new point after a blank line', () => {
+    assert.deepEqual(parseModelAnswer('One\n\nTwo').map(b => b.type === 'point' && b.text), ['One', 'Two']);
+  });
+});
+
+describe('normalizeModelAnswer', () => {
+  it('drops empty blocks and defaults point weights', () => {
+    assert.deepEqual(normalizeModelAnswer([
+      { type: 'point', text: '  Indexed lookups.  ', weight: 0 },
+      { type: 'point', text: ' ', weight: 2 },
+      { type: 'code', language: ' SQL ', source: '\n\nSELECT 1;\n\n' },
+    ]), [
+      { type: 'point', text: 'Indexed lookups.', weight: 1 },
+      { type: 'code', language: 'sql', source: 'SELECT 1;', original: undefined },
+    ]);
+  });
+
+  it('replaces an empty answer with a placeholder point', () => {
+    const [placeholder] = normalizeModelAnswer(undefined);
+    assert.equal(placeholder.type, 'point');
+  });
+});
+
+describe('normalizeSqlExercise', () => {
+  it('drops a verification result the model wrote itself', () => {
+    assert.deepEqual(normalizeSqlExercise({ setupSql: ' CREATE TABLE t (a INT); ', verified: true }), { setupSql: 'CREATE TABLE t (a INT);' });
+    assert.equal(normalizeSqlExercise({ setupSql: ' ' }), undefined);
+  });
+});
+
+describe('splitHighlightedLines', () => {
+  it('closes spans open at a line break and reopens them on the next line', () => {
+    const html = 'x = 1; <span class="hljs-comment">/* one\n<span class="hljs-doctag">two</span>\nthree */</span>\ny';
+
+    assert.deepEqual(splitHighlightedLines(html), [
+      'x = 1; <span class="hljs-comment">/* one</span>',
+      '<span class="hljs-comment"><span class="hljs-doctag">two</span></span>',
+      '<span class="hljs-comment">three */</span>',
+      'y',
+    ]);
+  });
+});
+
+describe('normalizeRequirements', () => {
+  it('drops requirements without text and trims the rest, quoting the text when there is no quote', () => {
+    assert.deepEqual(normalizeRequirements([
+      { id: 'R1', text: ' PostgreSQL ', quote: '' },
+      { id: 'R2', text: '  ', quote: 'nothing' },
+    ]), [{ id: 'R1', text: 'PostgreSQL', quote: 'PostgreSQL' }]);
+  });
+
+  it('gives repeated and missing ids an unused id', () => {
+    const requirements = normalizeRequirements([
+      { id: 'R1', text: 'Kafka', quote: 'Kafka' },
+      { id: 'R1', text: 'Redis', quote: 'Redis' },
+      { id: '', text: 'Go', quote: 'Go' },
+      { id: 'R4', text: 'gRPC', quote: 'gRPC' },
+    ]);
+
+    assert.deepEqual(requirements.map(r => r.id), ['R1', 'R5', 'R6', 'R4']);
+  });
+
+  it('keeps only known requirement ids on a question, without repeats', () => {
+    const requirements = [{ id: 'R1', text: 'Kafka', quote: 'Kafka' }];
+
+    assert.deepEqual(normalizeRequirementIds(['R1', ' R1 ', 'R9'], requirements), ['R1']);
+    assert.equal(normalizeRequirementIds(['R9'], requirements), undefined);
+  });
+});
+
+describe('migrateKitSession', () => {
+  const session = (kit: Record<string, unknown>) => ({
+    id: 'kit',
+    title: 'Backend engineer',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    jobDescription: 'Backend engineer.',
+    unstopProfileLink: '',
+    kit: { id: 'kit', competencies: [], scoringRubric: [], ...kit },
+    evaluations: {},
+    scoreScale: 5 as const,
+    editedQuestionIds: [],
+  });
+
+  it('keeps the generation prompt version of an older kit under the prompt name', () => {
+    const migrated = migrateKitSession(session({ promptVersion: 'v2' }));
+
+    assert.deepEqual(migrated.kit.promptVersions, { generateInterviewKit: 'v2' });
+    assert.ok(!('promptVersion' in migrated.kit));
+  });
+
+  it('leaves recorded prompt versions as they are', () => {
+    const promptVersions = { generateInterviewKit: 'v1', reviewModelAnswers: 'v1' };
+
+    assert.deepEqual(migrateKitSession(session({ promptVersions })).kit.promptVersions, promptVersions);
+  });
+});
@@ -0,0 +1,593 @@
+import { diffLines } from 'diff';
+import type {
+  AnswerReview,
+  AnswerReviewIssueKind,
+  CodingExercise,
+  CodingTestCase,
+  Competency,
+  InterviewKit,
+  JdRequirement,
+  KitSession,
+  KitSettings,
+  ModelAnswerBlock,
+  PartialCreditLevel,
+  QuestionAnswerPair,
+  QuestionDifficulty,
+  QuestionEvaluation,
+  QuestionType,
+  ScoreScale,
+  SqlCell,
+  SqlExercise,
+  SqlQueryResult,
+} from '@/types/interview-kit';
+
+/**
+ * Scales rubric weights so they sum to 1.0. Negative or non-numeric weights are
+ * treated as 0, and if nothing usable remains the weight is split evenly.
+ */
+export function normalizeRubricWeights<T extends {weight: number}>(rubric: T[]): T[] {
+  const weights = rubric.map(r => (Number.isFinite(r.weight) && r.weight > 0 ? r.weight : 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return rubric.map((r, i) => ({
+    ...r,
+    weight: total > 0 ? weights[i] / total : 1 / rubric.length,
+  }));
+}
+
+export interface CompetencyScore {
+  competencyId: string;
+  name: string;
+  weight: number;
+  scoredCount: number;
+  questionCount: number;
+  /** Average score of the scored questions as a fraction of the maximum, or null if none are scored. */
+  score: number | null;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  criterion: string;
+  weight: number;
+  /** The panel's score for the criterion as a fraction of the maximum, or null if it is not scored. */
+  score: number | null;
+}
+
+export interface KitScore {
+  /** Rubric-weighted aggregate of the scored criteria as a fraction of the maximum, or null if none is scored. */
+  overall: number | null;
+  criteria: CriterionScore[];
+  competencies: CompetencyScore[];
+}
+
+const scoreFraction = (score: number, scale: ScoreScale) => (score - 1) / (scale - 1);
+
+/**
+ * Aggregates the panel's scores. The overall score is the average of the rubric
+ * criterion scores, weighted by the rubric; criteria the panel has not scored are
+ * left out and the remaining weights scaled up. The per-question scores give the
+ * breakdown by competency, with each competency weighted by its share of the
+ * kit's questions, since the generator allocates more questions to the skills
+ * the JD emphasizes.
+ */
+export function calculateKitScore(
+  kit: InterviewKit,
+  evaluations: Record<string, QuestionEvaluation>,
+  rubricScores: Record<string, number>,
+  scale: ScoreScale
+): KitScore {
+  const totalQuestions = kit.competencies.reduce((sum, c) => sum + c.questions.length, 0);
+
+  const competencies = kit.competencies.map(c => {
+    const scores = c.questions
+      .map(q => evaluations[q.id]?.score)
+      .filter((score): score is number => score !== undefined);
+    const average = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null;
+    return {
+      competencyId: c.id,
+      name: c.name,
+      weight: totalQuestions > 0 ? c.questions.length / totalQuestions : 0,
+      scoredCount: scores.length,
+      questionCount: c.questions.length,
+      score: average === null ? null : scoreFraction(average, scale),
+    };
+  });
+
+  const criteria = kit.scoringRubric.map(r => ({
+    criterionId: r.id,
+    criterion: r.criterion,
+    weight: r.weight,
+    score: rubricScores[r.id] === undefined ? null : scoreFraction(rubricScores[r.id], scale),
+  }));
+
+  const scored = criteria.filter(c => c.score !== null && c.weight > 0);
+  const scoredWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  const overall = scoredWeight > 0
+    ? scored.reduce((sum, c) => sum + c.score! * c.weight, 0) / scoredWeight
+    : null;
+
+  return { overall, criteria, competencies };
+}
+
+/** Moves a score from one scale to another proportionally, e.g. 3 on 1-5 -> 6 on 1-10. */
+export function rescaleScore(score: number, from: ScoreScale, to: ScoreScale): number {
+  return Math.round(1 + ((score - 1) * (to - 1)) / (from - 1));
+}
+
+/** Converts a 0-1 score fraction back to the panelist's scale, e.g. 0.5 -> "3.0" on a 1-5 scale. */
+export function formatScoreOnScale(fraction: number, scale: ScoreScale): string {
+  return (1 + fraction * (scale - 1)).toFixed(1);
+}
+
+/** Converts a 0-1 score fraction to the nearest whole score on the panelist's scale. */
+export function scoreFromFraction(fraction: number, scale: ScoreScale): number {
+  return Math.round(1 + fraction * (scale - 1));
+}
+
+/** Clamps partial-credit levels to 0-1, drops empty ones and orders them from full credit down. */
+export function normalizePartialCreditScale(levels: PartialCreditLevel[] | undefined): PartialCreditLevel[] | undefined {
+  if (!levels) return undefined;
+  return levels
+    .filter(level => level.description?.trim())
+    .map(level => ({
+      credit: Number.isFinite(level.credit) ? Math.min(1, Math.max(0, level.credit)) : 0,
+      description: level.description.trim(),
+    }))
+    .sort((a, b) => b.credit - a.credit);
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const parseJson = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Drops tests whose arguments are not a JSON array or whose expected value is not JSON.
+ * An exercise with an unusable function name or no tests left is dropped altogether.
+ */
+export function normalizeCodingExercise(exercise: CodingExercise | undefined): CodingExercise | undefined {
+  const functionName = exercise?.functionName?.trim();
+  if (!exercise || !functionName || !IDENTIFIER.test(functionName)) return undefined;
+  const tests = (exercise.tests ?? []).filter(test => {
+    const args = parseJson(test.args);
+    return args.ok && Array.isArray(args.value) && parseJson(test.expected).ok;
+  });
+  if (tests.length === 0) return undefined;
+  return {
+    language: exercise.language,
+    functionName,
+    signature: exercise.signature?.trim() || functionName,
+    starterCode: exercise.starterCode?.replace(/^\n+|\s+$/g, '') ?? '',
+    tests: tests.map(test => ({ ...test, description: test.description?.trim() || undefined })),
+  };
+}
+
+const SQL_LANGUAGES = new Set(['sql', 'sqlite', 'postgresql', 'postgres', 'mysql', 'plsql', 'tsql']);
+
+const sqlBlockIndex = (answer: ModelAnswerBlock[]) =>
+  answer.findIndex(block => block.type === 'code' && SQL_LANGUAGES.has(block.language ?? ''));
+
+/** The model answer's SQL query, i.e. the source of its first SQL code block. */
+export function sqlAnswerQuery(answer: ModelAnswerBlock[]): string | undefined {
+  const block = answer[sqlBlockIndex(answer)];
+  return block?.type === 'code' ? block.source : undefined;
+}
+
+/** Replaces the source of the model answer's first SQL code block. */
+export function withSqlAnswerQuery(answer: ModelAnswerBlock[], query: string): ModelAnswerBlock[] {
+  const index = sqlBlockIndex(answer);
+  return answer.map((block, i) => (i === index && block.type === 'code' ? { ...block, source: query } : block));
+}
+
+/** Drops a SQL exercise without setup statements. Verification is left to the flows. */
+export function normalizeSqlExercise(exercise: SqlExercise | undefined): SqlExercise | undefined {
+  const setupSql = exercise?.setupSql?.trim();
+  // Only running the query can mark it verified, so a verification result the model wrote is dropped.
+  return setupSql ? { setupSql } : undefined;
+}
+
+/**
+ * Compares a candidate's query result with the model answer's. Column names are ignored,
+ * and row order only matters when the model answer sorts its result.
+ */
+export function sqlResultsMatch(expected: SqlQueryResult, actual: SqlQueryResult, ordered: boolean): boolean {
+  if (expected.status !== 'ok' || actual.status !== 'ok') return false;
+  if (expected.columns.length !== actual.columns.length || expected.rows.length !== actual.rows.length) return false;
+  const rowKeys = (rows: SqlCell[][]) => {
+    const keys = rows.map(row => JSON.stringify(row));
+    return ordered ? keys : keys.sort();
+  };
+  const expectedKeys = rowKeys(expected.rows);
+  return rowKeys(actual.rows).every((key, i) => key === expectedKeys[i]);
+}
+
+/** Whether a query sorts its result, in which case row order is part of the answer. */
+export const sqlQueryIsOrdered = (query: string) => /\border\s+by\b/i.test(query);
+
+/** Renders a test as a call and its expected result, e.g. "twoSum([2,7], 9) → [0,1]". */
+export function formatCodingTest(functionName: string, test: CodingTestCase): string {
+  const args = JSON.parse(test.args) as unknown[];
+  return `${functionName}(${args.map(arg => JSON.stringify(arg)).join(', ')}) → ${test.expected}`;
+}
+
+const MISSING_MODEL_ANSWER: ModelAnswerBlock[] = [{ type: 'point', text: 'Missing model answer.', weight: 1 }];
+
+const LIST_ITEM = /^(?:[-*+•]|\d+[.)])\s+(.*)$/;
+const FENCE = /^(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+
+/**
+ * Parses a markdown-style answer into blocks. Fenced code (``` or ~~~) is kept
+ * verbatim, each list item (-, *, +, • or 1.) becomes a point, indented items
+ * included, and other text continues the previous point. This is how legacy
+ * string answers are migrated and how the answer editor's text is read back.
+ */
+export function parseModelAnswer(answer: string): ModelAnswerBlock[] {
+  const blocks: ModelAnswerBlock[] = [];
+  let fence: { marker: string; language?: string; lines: string[] } | null = null;
+  let continuable = false;
+
+  for (const line of answer.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (fence) {
+      if (trimmed.startsWith(fence.marker) && trimmed.replace(/[`~]/g, '') === '') {
+        blocks.push({ type: 'code', language: fence.language, source: fence.lines.join('\n').replace(/^\n+|\s+$/g, '') });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const fenceMatch = trimmed.match(FENCE);
+    if (fenceMatch) {
+      fence = { marker: fenceMatch[1], language: fenceMatch[2] || undefined, lines: [] };
+      continuable = false;
+      continue;
+    }
+    if (!trimmed) {
+      continuable = false;
+      continue;
+    }
+
+    const item = trimmed.match(LIST_ITEM);
+    const last = blocks[blocks.length - 1];
+    if (item) {
+      blocks.push({ type: 'point', text: item[1].trim(), weight: 1 });
+      continuable = true;
+    } else if (continuable && last?.type === 'point') {
+      last.text = `${last.text} ${trimmed}`;
+    } else {
+      blocks.push({ type: 'point', text: trimmed, weight: 1 });
+      continuable = true;
+    }
+  }
+  // An unterminated fence still holds code rather than prose.
+  if (fence && fence.lines.some(l => l.trim())) {
+    blocks.push({ type: 'code', language: fence.language, source: fence.lines.join('\n').replace(/^\n+|\s+$/g, '') });
+  }
+  return blocks;
+}
+
+/** Renders blocks back to the markdown-style text the answer editor works with. */
+export function modelAnswerToText(blocks: ModelAnswerBlock[]): string {
+  return blocks
+    .map(block => (block.type === 'code' ? `\`\`\`${block.language ?? ''}\n${block.source}\n\`\`\`` : `- ${block.text}`))
+    .join('\n');
+}
+
+/**
+ * Cleans up a model answer: legacy strings are parsed, empty blocks dropped and
+ * point weights defaulted to 1. An empty answer becomes a placeholder point.
+ */
+export function normalizeModelAnswer(answer: ModelAnswerBlock[] | string | undefined | null): ModelAnswerBlock[] {
+  const blocks = typeof answer === 'string' ? parseModelAnswer(answer) : answer ?? [];
+  const normalized = blocks.flatMap((block): ModelAnswerBlock[] => {
+    if (block.type === 'code') {
+      const source = block.source?.replace(/^\n+|\s+$/g, '');
+      const original = block.original?.replace(/^\n+|\s+$/g, '') || undefined;
+      return source ? [{ type: 'code', language: block.language?.trim().toLowerCase() || undefined, source, original }] : [];
+    }
+    const text = block.text?.trim();
+    const weight = Number.isFinite(block.weight) && block.weight > 0 ? block.weight : 1;
+    return text ? [{ type: 'point', text, weight }] : [];
+  });
+  return normalized.length > 0 ? normalized : MISSING_MODEL_ANSWER;
+}
+
+export interface CodeDiffLine {
+  kind: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/** Line-by-line diff from the code a question shows to the improved version in its answer. */
+export function diffCodeLines(original: string, source: string): CodeDiffLine[] {
+  return diffLines(original, source).flatMap(change => {
+    const kind = change.added ? 'added' : change.removed ? 'removed' : 'unchanged';
+    return change.value.replace(/\n$/, '').split('\n').map(text => ({ kind, text }));
+  });
+}
+
+/**
+ * Splits highlighted HTML into lines. Highlighting has to see the whole source so
+ * block comments and multi-line strings keep their state, so any span still open
+ * at a line break is closed at the end of the line and reopened on the next.
+ */
+export function splitHighlightedLines(html: string): string[] {
+  const open: string[] = [];
+  const lines: string[] = [];
+  let line = '';
+  for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (token === '\n') {
+      lines.push(line + '</span>'.repeat(open.length));
+      line = open.join('');
+      continue;
+    }
+    if (token.startsWith('<span')) open.push(token);
+    else if (token === '</span>') open.pop();
+    line += token;
+  }
+  lines.push(line + '</span>'.repeat(open.length));
+  return lines;
+}
+
+/** Renders a code diff as unified-diff style text, with "+", "-" or " " before each line. */
+export function formatCodeDiff(original: string, source: string): string {
+  const markers = { added: '+', removed: '-', unchanged: ' ' };
+  return diffCodeLines(original, source).map(line => `${markers[line.kind]} ${line.text}`).join('\n');
+}
+
+/** The code a question shows the candidate, i.e. the originals of its fix or optimize code blocks. */
+export function codeShownToCandidate(answer: ModelAnswerBlock[]): { language?: string; source: string }[] {
+  return answer.flatMap(block => (block.type === 'code' && block.original ? [{ language: block.language, source: block.original }] : []));
+}
+
+/** The id a checklist entry is stored under in QuestionEvaluation.checkedPoints. */
+export function answerPointId(questionId: string, blockIndex: number): string {
+  return `${questionId}-point-${blockIndex}`;
+}
+
+/**
+ * The weighted share of a question's answer points the panelist ticked off, or
+ * null if the answer has no points. Code blocks are reference material and do
+ * not count.
+ */
+export function checklistCoverage(questionId: string, answer: ModelAnswerBlock[], checkedPoints: string[]): number | null {
+  const checked = new Set(checkedPoints);
+  let total = 0;
+  let covered = 0;
+  answer.forEach((block, index) => {
+    if (block.type !== 'point') return;
+    total += block.weight;
+    if (checked.has(answerPointId(questionId, index))) covered += block.weight;
+  });
+  return total > 0 ? covered / total : null;
+}
+
+type LegacyKitSession = Omit<KitSession, 'kit'> & {
+  kit: Omit<InterviewKit, 'competencies'> & {
+    /** The version of the generation prompt alone, as kits recorded it before promptVersions. */
+    promptVersion?: string;
+    competencies: (Omit<Competency, 'questions'> & {
+      questions: (Omit<QuestionAnswerPair, 'modelAnswer'> & { modelAnswer: ModelAnswerBlock[] | string })[];
+    })[];
+  };
+};
+
+/**
+ * Upgrades a session saved before model answers were structured. String answers
+ * are parsed into blocks, and their ticked checklist points are cleared because
+ * the old ids were based on the string's layout. A kit that recorded only the
+ * generation prompt's version keeps it as that prompt's entry in promptVersions.
+ */
+export function migrateKitSession(session: LegacyKitSession): KitSession {
+  const evaluations = { ...session.evaluations };
+  const competencies = session.kit.competencies.map(c => ({
+    ...c,
+    questions: c.questions.map(q => {
+      if (typeof q.modelAnswer !== 'string') return q as QuestionAnswerPair;
+      if (evaluations[q.id]) evaluations[q.id] = { ...evaluations[q.id], checkedPoints: [] };
+      return { ...q, modelAnswer: normalizeModelAnswer(q.modelAnswer) };
+    }),
+  }));
+  const { promptVersion, ...kit } = session.kit;
+  const promptVersions = kit.promptVersions ?? (promptVersion ? { generateInterviewKit: promptVersion } : undefined);
+  return { ...session, kit: { ...kit, competencies, promptVersions }, evaluations };
+}
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = { easy: 'Easy', medium: 'Medium', hard: 'Hard' };
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  conceptual: 'Conceptual',
+  scenario: 'Scenario',
+  coding: 'Coding',
+  system_design: 'System design',
+};
+
+export const ANSWER_REVIEW_ISSUE_LABELS: Record<AnswerReviewIssueKind, string> = {
+  factual_error: 'Factual error',
+  ambiguity: 'Ambiguous',
+  off_jd: 'Not in the JD',
+  other: 'Other',
+};
+
+/** Reviews below this confidence are auto-fixed during generation and flagged in the panel. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** Clamps the confidence to 0-1 and drops issues without a description. */
+export function normalizeAnswerReview(review: AnswerReview | undefined): AnswerReview | undefined {
+  if (!review) return undefined;
+  return {
+    confidence: Number.isFinite(review.confidence) ? Math.min(1, Math.max(0, review.confidence)) : 0,
+    issues: (review.issues ?? []).filter(issue => issue.description?.trim()).map(issue => ({ ...issue, description: issue.description.trim() })),
+  };
+}
+
+/** A factual error counts as low confidence whatever the score, since the answer cannot be relied on. */
+export const isLowConfidenceReview = (review: AnswerReview | undefined) =>
+  !!review && (review.confidence < LOW_CONFIDENCE_THRESHOLD || review.issues.some(issue => issue.kind === 'factual_error'));
+
+/** Drops requirements without text and gives repeated or missing ids an unused "R<n>" id, so questions reference them unambiguously. */
+export function normalizeRequirements(requirements: JdRequirement[] | undefined): JdRequirement[] {
+  const kept = (requirements ?? []).filter(r => r.text?.trim());
+  const seen = new Set<string>();
+  let next = kept.length;
+  return kept.map(r => {
+    let id = r.id?.trim();
+    if (!id || seen.has(id)) {
+      const taken = new Set([...seen, ...kept.map(k => k.id?.trim())]);
+      do { id = `R${++next}`; } while (taken.has(id));
+    }
+    seen.add(id);
+    return { id, text: r.text.trim(), quote: r.quote?.trim() || r.text.trim() };
+  });
+}
+
+/** Keeps only ids of known requirements, without repeats. Undefined when none are left. */
+export function normalizeRequirementIds(ids: string[] | undefined, requirements: JdRequirement[]): string[] | undefined {
+  const known = new Set(requirements.map(r => r.id));
+  const kept = Array.from(new Set((ids ?? []).map(id => id.trim()))).filter(id => known.has(id));
+  return kept.length > 0 ? kept : undefined;
+}
+
+/** The ids of the questions that cover each requirement of the kit, in kit order. */
+export function requirementCoverage(kit: Pick<InterviewKit, 'requirements' | 'competencies'>): Map<string, string[]> {
+  const coverage = new Map((kit.requirements ?? []).map(r => [r.id, [] as string[]]));
+  kit.competencies.flatMap(c => c.questions).forEach(q => {
+    q.requirementIds?.forEach(id => coverage.get(id)?.push(q.id));
+  });
+  return coverage;
+}
+
+/** A run of the JD text, tagged with the requirement it was quoted for, if any. */
+export interface JdTextSegment {
+  text: string;
+  requirementId?: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits the JD into segments so each requirement's quote can be highlighted.
+ * Quotes are matched case-insensitively with any run of whitespace, since the
+ * model rarely reproduces line breaks exactly. Quotes that cannot be found, or
+ * that overlap an earlier match, are left unhighlighted.
+ */
+export function highlightJdRequirements(jobDescription: string, requirements: JdRequirement[]): JdTextSegment[] {
+  const matches = requirements
+    .flatMap(r => {
+      const words = r.quote.trim().split(/\s+/).filter(Boolean);
+      if (words.length === 0) return [];
+      const match = new RegExp(words.map(escapeRegExp).join('\\s+'), 'i').exec(jobDescription);
+      return match ? [{ start: match.index, end: match.index + match[0].length, requirementId: r.id }] : [];
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const segments: JdTextSegment[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue;
+    if (match.start > position) segments.push({ text: jobDescription.slice(position, match.start) });
+    segments.push({ text: jobDescription.slice(match.start, match.end), requirementId: match.requirementId });
+    position = match.end;
+  }
+  if (position < jobDescription.length) segments.push({ text: jobDescription.slice(position) });
+  return segments;
+}
+
+export const DEFAULT_KIT_SETTINGS: KitSettings = { questionCount: 30 };
+
+export const DEFAULT_DIFFICULTY_DISTRIBUTION: Record<QuestionDifficulty, number> = { easy: 30, medium: 50, hard: 20 };
+
+export const DEFAULT_QUESTION_TYPE_MIX: Record<QuestionType, number> = {
+  conceptual: 40,
+  scenario: 30,
+  coding: 20,
+  system_design: 10,
+};
+
+/**
+ * Splits `total` into whole numbers proportional to `weights` using the largest
+ * remainder method, so the parts always add up to `total`. If every weight is 0
+ * the total is split evenly.
+ */
+export function allocateByWeights<K extends string>(total: number, weights: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(weights) as K[];
+  const usable = keys.map(k => (Number.isFinite(weights[k]) && weights[k] > 0 ? weights[k] : 0));
+  const sum = usable.reduce((acc, w) => acc + w, 0);
+  const exact = usable.map(w => (sum > 0 ? (w / sum) * total : total / keys.length));
+  const parts = exact.map(Math.floor);
+  let remaining = total - parts.reduce((acc, p) => acc + p, 0);
+  const byRemainder = exact.map((e, i) => i).sort((a, b) => (exact[b] - parts[b]) - (exact[a] - parts[a]));
+  for (const i of byRemainder) {
+    if (remaining <= 0) break;
+    parts[i] += 1;
+    remaining -= 1;
+  }
+  return Object.fromEntries(keys.map((k, i) => [k, parts[i]])) as Record<K, number>;
+}
+
+/** The exact number of questions a kit should have overall, per difficulty and per type. */
+export interface QuestionMixPlan {
+  count: number;
+  difficulty?: Record<QuestionDifficulty, number>;
+  type?: Record<QuestionType, number>;
+}
+
+export function planQuestionMix(settings: KitSettings): QuestionMixPlan {
+  const count = settings.questionCount;
+  return {
+    count,
+    difficulty: settings.difficultyDistribution && allocateByWeights(count, settings.difficultyDistribution),
+    type: settings.questionTypeMix && allocateByWeights(count, settings.questionTypeMix),
+  };
+}
+
+interface TaggedQuestion {
+  difficulty?: QuestionDifficulty;
+  type?: QuestionType;
+}
+
+/**
+ * Keeps questions in order while they fit the plan: at most `plan.count` in
+ * total and no more of a difficulty or type than the plan allows. Questions
+ * without a tag only count against the total. Rejected questions are returned
+ * too, so they can be used as a fallback when padding falls short.
+ */
+export function selectQuestionsForPlan<T extends TaggedQuestion>(questions: T[], plan: QuestionMixPlan): { selected: T[]; rejected: T[] } {
+  const difficultyCounts: Partial<Record<QuestionDifficulty, number>> = {};
+  const typeCounts: Partial<Record<QuestionType, number>> = {};
+  const selected: T[] = [];
+  const rejected: T[] = [];
+
+  for (const q of questions) {
+    const fitsDifficulty = !plan.difficulty || !q.difficulty || (difficultyCounts[q.difficulty] ?? 0) < plan.difficulty[q.difficulty];
+    const fitsType = !plan.type || !q.type || (typeCounts[q.type] ?? 0) < plan.type[q.type];
+    if (selected.length < plan.count && fitsDifficulty && fitsType) {
+      selected.push(q);
+      if (q.difficulty) difficultyCounts[q.difficulty] = (difficultyCounts[q.difficulty] ?? 0) + 1;
+      if (q.type) typeCounts[q.type] = (typeCounts[q.type] ?? 0) + 1;
+    } else {
+      rejected.push(q);
+    }
+  }
+  return { selected, rejected };
+}
+
+/** Lists the difficulty and type of each question still needed to complete the plan. */
+export function missingQuestionSlots(selected: TaggedQuestion[], plan: QuestionMixPlan): TaggedQuestion[] {
+  const missing = Math.max(0, plan.count - selected.length);
+  const deficits = <K extends string>(quota: Record<K, number> | undefined, tagOf: (q: TaggedQuestion) => K | undefined) => {
+    if (!quota) return [];
+    return (Object.keys(quota) as K[]).flatMap(k => {
+      const have = selected.filter(q => tagOf(q) === k).length;
+      return Array<K>(Math.max(0, quota[k] - have)).fill(k);
+    });
+  };
+  const difficulties = deficits(plan.difficulty, q => q.difficulty);
+  const types = deficits(plan.type, q => q.type);
+  return Array.from({ length: missing }, (_, i) => ({ difficulty: difficulties[i], type: types[i] }));
+}
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { averageMetrics, evaluateKit, formatEvalReport, type EvalRun, type KitEvalMetrics } from '@/lib/kit-eval';
+import type { ModelAnswerBlock } from '@/types/interview-kit';
+
+const point = (text: string): ModelAnswerBlock => ({ type: 'point', text, weight: 1 });
+const code = (source: string): ModelAnswerBlock => ({ type: 'code', language: 'sql', source });
+
+const kitOf = (...questions: { question: string; modelAnswer?: ModelAnswerBlock[] }[]) => ({
+  competencies: [{ questions: questions.map(q => ({ modelAnswer: [point('A point.')], ...q })) }],
+});
+
+describe('evaluateKit', () => {
+  it('scores count compliance linearly in the difference from the requested count', () => {
+    const kit = kitOf(
+      { question: 'How does PostgreSQL decide between an index scan and a sequential scan here?' },
+      { question: 'What guarantees does Kafka give about message ordering across partitions of a topic?' },
+      { question: 'How would you size the connection pool for a service with bursty write traffic?' },
+    );
+
+    assert.equal(evaluateKit(kit, { questionCount: 3, jdTerms: [] }).countCompliance, 1);
+    assert.equal(evaluateKit(kit, { questionCount: 4, jdTerms: [] }).countCompliance, 0.75);
+    assert.equal(evaluateKit(kit, { questionCount: 1, jdTerms: [] }).countCompliance, 0);
+  });
+
+  it('finds JD terms in questions and answers, ignoring case and allowing plurals', () => {
+    const kit = kitOf(
+      { question: 'How do you keep postgresql replicas consistent during a failover?', modelAnswer: [point('Use Kafka consumers with idempotent writes.')] },
+      { question: 'When would you reach for Node.js worker threads over child processes?' },
+    );
+
+    const metrics = evaluateKit(kit, { questionCount: 2, jdTerms: ['PostgreSQL', 'Kafka consumer', 'Node.js', 'C++', 'Redis'] });
+
+    assert.deepEqual(metrics.missingJdTerms, ['C++', 'Redis']);
+    assert.equal(metrics.jdTermCoverage, 0.6);
+  });
+
+  it('flags answers with code after the points or bulleted points', () => {
+    const kit = kitOf(
+      { question: 'Write a query returning the second highest salary from the employees table.', modelAnswer: [code('SELECT 1;'), point('Sorts by salary.')] },
+      { question: 'Why might a correlated subquery be slower than an equivalent join in practice?', modelAnswer: [point('Runs per row.'), code('SELECT 2;')] },
+      { question: 'How does a covering index avoid heap lookups for a frequently run query?', modelAnswer: [point('- Includes every column.')] },
+      { question: 'What is the difference between a clustered and a non-clustered index in SQL Server?', modelAnswer: [code('SELECT 3;')] },
+    );
+
+    const metrics = evaluateKit(kit, { questionCount: 4, jdTerms: [] });
+
+    assert.deepEqual(metrics.answerFormatIssues.map(i => i.issue), [
+      'A code block comes after the points.',
+      'A point starts with a bullet or number: "- Includes every column.".',
+      'The answer has no points.',
+    ]);
+    assert.equal(metrics.answerFormatValidity, 0.25);
+  });
+
+  it('measures question length, duplicates and behavioral leaks as shares of the questions', () => {
+    const kit = kitOf(
+      { question: 'How does PostgreSQL use a B-tree index to answer a range query efficiently?' },
+      { question: 'How does PostgreSQL use a B-tree index to answer range queries efficiently?' },
+      { question: 'Tell me about a time you disagreed with a teammate on a technical decision.' },
+      { question: 'What is a deadlock?' },
+    );
+
+    const metrics = evaluateKit(kit, { questionCount: 4, jdTerms: [] });
+
+    assert.equal(metrics.questionLengthCompliance, 0.75);
+    assert.equal(metrics.duplicateRate, 0.25);
+    assert.equal(metrics.behavioralLeakRate, 0.25);
+    assert.deepEqual(metrics.behavioralQuestions, ['Tell me about a time you disagreed with a teammate on a technical decision.']);
+  });
+
+  it('scores an empty kit as zero rather than dividing by zero', () => {
+    const metrics = evaluateKit({ competencies: [] }, { questionCount: 5, jdTerms: ['SQL'] });
+
+    assert.equal(metrics.questionCount, 0);
+    assert.equal(metrics.countCompliance, 0);
+    assert.equal(metrics.jdTermCoverage, 0);
+    assert.equal(metrics.answerFormatValidity, 0);
+    assert.equal(metrics.duplicateRate, 0);
+  });
+});
+
+const metricsOf = (overrides: Partial<KitEvalMetrics>): KitEvalMetrics => ({
+  questionCount: 10,
+  countCompliance: 1,
+  jdTermCoverage: 1,
+  missingJdTerms: [],
+  duplicateRate: 0,
+  answerFormatValidity: 1,
+  answerFormatIssues: [],
+  questionLengthCompliance: 1,
+  behavioralLeakRate: 0,
+  behavioralQuestions: [],
+  ...overrides,
+});
+
+const runOf = (label: string, cases: EvalRun['cases']): EvalRun => ({ label, createdAt: '2026-01-01T00:00:00.000Z', model: 'fake/replay', cases });
+
+describe('averageMetrics', () => {
+  const run = runOf('run', [
+    { name: 'a', durationMs: 1, metrics: metricsOf({ jdTermCoverage: 1 }), promptMetrics: metricsOf({ jdTermCoverage: 0.5 }) },
+    { name: 'b', durationMs: 1, metrics: metricsOf({ jdTermCoverage: 0.5 }) },
+    { name: 'c', durationMs: 1, error: 'failed' },
+  ]);
+
+  it('averages the final kit scores over the cases that produced a kit', () => {
+    assert.equal(averageMetrics(run).jdTermCoverage, 0.75);
+  });
+
+  it('averages the prompt output scores over the cases that have them', () => {
+    assert.equal(averageMetrics(run, 'prompt').jdTermCoverage, 0.5);
+  });
+
+  it('has no average for a stage no case was scored on', () => {
+    assert.equal(averageMetrics(runOf('old', [{ name: 'a', durationMs: 1, metrics: metricsOf({}) }]), 'prompt').jdTermCoverage, null);
+  });
+});
+
+describe('formatEvalReport', () => {
+  it('reports the prompt output and the final kit side by side against the baseline', () => {
+    const base = runOf('base', [{ name: 'a', durationMs: 1000, metrics: metricsOf({}), promptMetrics: metricsOf({ countCompliance: 0.8 }) }]);
+    const candidate = runOf('next', [{ name: 'a', durationMs: 2000, metrics: metricsOf({}), promptMetrics: metricsOf({ countCompliance: 0.9, questionCount: 9 }) }]);
+
+    const report = formatEvalReport(candidate, base);
+
+    assert.match(report, /\| Question count compliance \| 80% \| 90% \| \+10 pts \(better\) \| 100% \| 100% \| = \|/);
+    assert.match(report, /- Questions: 9 written, 10 in the kit, generated in 2\.0s/);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Quality metrics for generated interview kits, used by the prompt evaluation
+ * harness (src/ai/evals) to compare prompt versions on a fixed corpus of JDs.
+ *
+ * Every metric is computed locally from the kit, so the scores of two runs are
+ * comparable as long as they ran on the same corpus. Rates are between 0 and 1.
+ */
+
+import type { QuestionAnswerPair } from '@/types/interview-kit';
+import { modelAnswerToText } from '@/lib/interview-kit';
+import { clusterSimilarQuestions } from '@/lib/question-similarity';
+
+/** The question length the generation prompt asks for, in words. */
+export const QUESTION_WORD_RANGE = { min: 10, max: 20 };
+
+// Openings of behavioral and personal questions, which the technical kit must not contain.
+const BEHAVIORAL_PATTERNS = [
+  /\btell (me|us) about a time\b/i,
+  /\bdescribe a (time|situation|moment)\b/i,
+  /\bgive (me |us )?an example of a time\b/i,
+  /\b(a|one) time (when )?you\b/i,
+  /\bhow do you (handle|deal with|cope with) (conflict|pressure|stress|disagreement|criticism|feedback)/i,
+  /\bwhat (is|are) your (favou?rite|greatest|biggest)\b/i,
+  /\byour (greatest|biggest) (strength|weakness)/i,
+  /\bwhere do you see yourself\b/i,
+  /\bwhy do you want\b/i,
+  /\bhow would your (colleagues|teammates|manager|peers)\b/i,
+];
+
+export interface KitEvalExpectations {
+  /** The question count the kit was generated with. */
+  questionCount: number;
+  /** Skills and tools of the JD that a good kit asks about, e.g. "PostgreSQL" or "Kafka". */
+  jdTerms: string[];
+}
+
+export interface AnswerFormatIssue {
+  question: string;
+  issue: string;
+}
+
+export interface KitEvalMetrics {
+  questionCount: number;
+  /** 1 when the kit has exactly the requested number of questions, falling linearly with the difference. */
+  countCompliance: number;
+  /** The share of the expected JD terms that a question or model answer mentions. */
+  jdTermCoverage: number;
+  missingJdTerms: string[];
+  /** The share of questions that repeat the concept of an earlier question. */
+  duplicateRate: number;
+  /** The share of model answers with their code first and points without bullet or number prefixes. */
+  answerFormatValidity: number;
+  answerFormatIssues: AnswerFormatIssue[];
+  /** The share of questions with a length in QUESTION_WORD_RANGE. */
+  questionLengthCompliance: number;
+  /** The share of questions that are behavioral rather than technical. */
+  behavioralLeakRate: number;
+  behavioralQuestions: string[];
+}
+
+/** The metrics that are averaged over a run and compared between runs, in report order. */
+export const EVAL_METRICS = [
+  { key: 'countCompliance', label: 'Question count compliance', higherIsBetter: true },
+  { key: 'jdTermCoverage', label: 'JD-term coverage', higherIsBetter: true },
+  { key: 'duplicateRate', label: 'Duplicate rate', higherIsBetter: false },
+  { key: 'answerFormatValidity', label: 'Answer format validity', higherIsBetter: true },
+  { key: 'questionLengthCompliance', label: 'Question length 10-20 words', higherIsBetter: true },
+  { key: 'behavioralLeakRate', label: 'Behavioral leak rate', higherIsBetter: false },
+] as const;
+
+export type EvalMetricKey = (typeof EVAL_METRICS)[number]['key'];
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Terms like "C++" or "Node.js" end in non-word characters, so the boundaries are checked by hand. Plurals count too.
+const mentions = (text: string, term: string) =>
+  new RegExp(`(?<![A-Za-z0-9])${term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')}(e?s)?(?![A-Za-z0-9])`, 'i').test(text);
+
+type KitQuestion = Pick<QuestionAnswerPair, 'question' | 'modelAnswer'>;
+
+function answerFormatIssue(question: KitQuestion): string | undefined {
+  const blocks = question.modelAnswer;
+  const firstPoint = blocks.findIndex(block => block.type === 'point');
+  if (firstPoint === -1) return 'The answer has no points.';
+  if (blocks.slice(firstPoint).some(block => block.type === 'code')) return 'A code block comes after the points.';
+  const bulleted = blocks.find(block => block.type === 'point' && /^\s*([-*•]|\d+[.)])\s/.test(block.text));
+  if (bulleted?.type === 'point') return `A point starts with a bullet or number: "${bulleted.text.slice(0, 40)}".`;
+  return undefined;
+}
+
+export function evaluateKit(kit: { competencies: { questions: KitQuestion[] }[] }, expected: KitEvalExpectations): KitEvalMetrics {
+  const questions = kit.competencies.flatMap(c => c.questions);
+  const rate = (count: number) => (questions.length > 0 ? count / questions.length : 0);
+
+  const kitText = questions.map(q => `${q.question}\n${modelAnswerToText(q.modelAnswer)}`).join('\n');
+  const missingJdTerms = expected.jdTerms.filter(term => !mentions(kitText, term));
+
+  const duplicates = clusterSimilarQuestions(questions.map(q => q.question)).reduce((sum, cluster) => sum + cluster.length - 1, 0);
+
+  const answerFormatIssues = questions.flatMap(q => {
+    const issue = answerFormatIssue(q);
+    return issue ? [{ question: q.question, issue }] : [];
+  });
+
+  const inRange = questions.filter(q => {
+    const words = wordCount(q.question);
+    return words >= QUESTION_WORD_RANGE.min && words <= QUESTION_WORD_RANGE.max;
+  });
+
+  const behavioralQuestions = questions.map(q => q.question).filter(q => BEHAVIORAL_PATTERNS.some(pattern => pattern.test(q)));
+
+  return {
+    questionCount: questions.length,
+    countCompliance: Math.max(0, 1 - Math.abs(questions.length - expected.questionCount) / expected.questionCount),
+    jdTermCoverage: expected.jdTerms.length > 0 ? 1 - missingJdTerms.length / expected.jdTerms.length : 1,
+    missingJdTerms,
+    duplicateRate: rate(duplicates),
+    answerFormatValidity: questions.length > 0 ? 1 - rate(answerFormatIssues.length) : 0,
+    answerFormatIssues,
+    questionLengthCompliance: rate(inRange.length),
+    behavioralLeakRate: rate(behavioralQuestions.length),
+    behavioralQuestions,
+  };
+}
+
+export interface EvalCaseResult {
+  name: string;
+  durationMs: number;
+  /** The version of every prompt the generation ran, by prompt name. */
+  promptVersions?: Record<string, string>;
+  /** The scores of the kit the flow returned. Missing when generation failed. */
+  metrics?: KitEvalMetrics;
+  /**
+   * The scores of the generation prompt's own output, before the flow enforces
+   * the question plan, replaces duplicates and normalizes the answers. Missing
+   * in runs saved before it was recorded.
+   */
+  promptMetrics?: KitEvalMetrics;
+  error?: string;
+}
+
+export interface EvalRun {
+  label: string;
+  createdAt: string;
+  /** The model generateInterviewKit ran on. */
+  model: string;
+  cases: EvalCaseResult[];
+}
+
+/** What a score was computed from: the raw prompt output, or the kit after post-processing. */
+export type EvalStage = 'prompt' | 'kit';
+
+const EVAL_STAGES: { stage: EvalStage; label: string }[] = [
+  { stage: 'prompt', label: 'Prompt output' },
+  { stage: 'kit', label: 'Final kit' },
+];
+
+const stageMetrics = (result: EvalCaseResult | undefined, stage: EvalStage) =>
+  stage === 'prompt' ? result?.promptMetrics : result?.metrics;
+
+/** The average of each metric of a stage over the cases that have scores for it. */
+export function averageMetrics(run: EvalRun, stage: EvalStage = 'kit'): Record<EvalMetricKey, number | null> {
+  const scored = run.cases.flatMap(c => stageMetrics(c, stage) ?? []);
+  return Object.fromEntries(EVAL_METRICS.map(({ key }) => [
+    key,
+    scored.length > 0 ? scored.reduce((sum, metrics) => sum + metrics[key], 0) / scored.length : null,
+  ])) as Record<EvalMetricKey, number | null>;
+}
+
+const percent = (value: number | null | undefined) => (value == null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+const formatPromptVersions = (versions: Record<string, string> | undefined) => {
+  const entries = Object.entries(versions ?? {});
+  return entries.length > 0 ? ` with prompts ${entries.map(([prompt, version]) => `${prompt} ${version}`).join(', ')}` : '';
+};
+
+function change(base: number | null | undefined, candidate: number | null | undefined, higherIsBetter: boolean): string {
+  if (base == null || candidate == null) return '';
+  const points = Math.round((candidate - base) * 100);
+  if (points === 0) return '=';
+  const better = higherIsBetter ? points > 0 : points < 0;
+  return `${points > 0 ? '+' : ''}${points} pts (${better ? 'better' : 'worse'})`;
+}
+
+/**
+ * A Markdown report of one run, or of a candidate run against a baseline run on
+ * the same corpus. The prompt output and the final kit are scored side by side,
+ * since post-processing can hide what a prompt change did.
+ */
+export function formatEvalReport(candidate: EvalRun, base?: EvalRun): string {
+  const lines = [
+    base ? `# Prompt eval: ${candidate.label} vs ${base.label}` : `# Prompt eval: ${candidate.label}`,
+    '',
+    ...(base ? [`- Baseline: ${base.label} (${base.model}, ${base.createdAt})`] : []),
+    `- ${base ? 'Candidate' : 'Run'}: ${candidate.label} (${candidate.model}, ${candidate.createdAt})`,
+    `- Cases: ${candidate.cases.filter(c => c.metrics).length} of ${candidate.cases.length} generated`,
+    '',
+    '## Averages',
+    '',
+  ];
+
+  if (base) {
+    const rows = EVAL_STAGES.map(({ stage }) => ({ base: averageMetrics(base, stage), candidate: averageMetrics(candidate, stage) }));
+    lines.push(
+      `| Metric | ${EVAL_STAGES.map(({ label }) => `${label}: baseline | ${label}: candidate | Change`).join(' | ')} |`,
+      `| --- |${' --- | --- | --- |'.repeat(EVAL_STAGES.length)}`,
+      ...EVAL_METRICS.map(({ key, label, higherIsBetter }) => `| ${label} | ${rows
+        .map(averages => `${percent(averages.base[key])} | ${percent(averages.candidate[key])} | ${change(averages.base[key], averages.candidate[key], higherIsBetter)}`)
+        .join(' | ')} |`),
+    );
+  } else {
+    const averages = EVAL_STAGES.map(({ stage }) => averageMetrics(candidate, stage));
+    lines.push(
+      `| Metric | ${EVAL_STAGES.map(({ label }) => label).join(' | ')} |`,
+      `| --- |${' --- |'.repeat(EVAL_STAGES.length)}`,
+      ...EVAL_METRICS.map(({ key, label }) => `| ${label} | ${averages.map(stage => percent(stage[key])).join(' | ')} |`),
+    );
+  }
+  lines.push('', '## Cases');
+
+  candidate.cases.forEach(result => {
+    const baseResult = base?.cases.find(c => c.name === result.name);
+    lines.push('', `### ${result.name}`, '');
+    if (!result.metrics) {
+      lines.push(`Generation failed: ${result.error ?? 'unknown error'}`);
+      return;
+    }
+    const metrics = result.metrics;
+    // A failed baseline case has no scores at all; a baseline saved before prompt scores were recorded only lacks those.
+    const baseScore = (stage: EvalStage, key: EvalMetricKey) => {
+      if (!baseResult?.metrics) return 'failed';
+      return percent(stageMetrics(baseResult, stage)?.[key]);
+    };
+    lines.push(
+      `| Metric | ${EVAL_STAGES.map(({ label }) => (base ? `${label}: baseline | ${label}: candidate` : label)).join(' | ')} |`,
+      `| --- |${(base ? ' --- | --- |' : ' --- |').repeat(EVAL_STAGES.length)}`,
+      ...EVAL_METRICS.map(({ key, label }) => `| ${label} | ${EVAL_STAGES
+        .map(({ stage }) => (base ? `${baseScore(stage, key)} | ` : '') + percent(stageMetrics(result, stage)?.[key]))
+        .join(' | ')} |`),
+      '',
+      `- Questions: ${result.promptMetrics ? `${result.promptMetrics.questionCount} written, ` : ''}${metrics.questionCount} in the kit, generated in ${(result.durationMs / 1000).toFixed(1)}s${formatPromptVersions(result.promptVersions)}`,
+    );
+    if (metrics.missingJdTerms.length > 0) lines.push(`- JD terms not covered: ${metrics.missingJdTerms.join(', ')}`);
+    metrics.behavioralQuestions.forEach(q => lines.push(`- Behavioral: ${q}`));
+    // The answers as the prompt wrote them, since those are what a prompt change affects.
+    (result.promptMetrics ?? metrics).answerFormatIssues.forEach(({ question, issue }) => lines.push(`- Answer format: ${issue} (${question})`));
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,177 @@
+import { Document, HeadingLevel, Packer, Paragraph, ShadingType, TextRun } from 'docx';
+import {
+  calculateKitScore,
+  codeShownToCandidate,
+  formatCodeDiff,
+  formatCodingTest,
+  formatScoreOnScale,
+} from '@/lib/interview-kit';
+import type { KitExportInput } from '@/lib/kit-export';
+
+const codeParagraph = (source: string) =>
+  new Paragraph({
+    shading: { type: ShadingType.CLEAR, fill: 'F2F2F2', color: 'auto' },
+    indent: { left: 360 },
+    children: source.split('\n').map((line, index) =>
+      new TextRun({ text: line, font: 'Courier New', size: 18, break: index > 0 ? 1 : undefined })
+    ),
+  });
+
+export function renderDocx({ title, audience, kit, evaluations, rubricScores, scoreScale }: KitExportInput): Promise<Buffer> {
+  const isInterviewer = audience === 'interviewer';
+  const children: Paragraph[] = [
+    new Paragraph({ text: title, heading: HeadingLevel.TITLE }),
+    new Paragraph({
+      children: [new TextRun({ text: isInterviewer ? 'Interviewer version' : 'Interview questions', italics: true })],
+    }),
+  ];
+
+  if (isInterviewer) {
+    const kitScore = calculateKitScore(kit, evaluations, rubricScores, scoreScale);
+    const formatScore = (score: number | null) => (score !== null ? `${formatScoreOnScale(score, scoreScale)} / ${scoreScale}` : 'Not scored');
+    if (kitScore.overall !== null || kitScore.competencies.some(c => c.score !== null)) {
+      children.push(
+        new Paragraph({ text: 'Score Summary', heading: HeadingLevel.HEADING_1 }),
+        new Paragraph({ children: [new TextRun({ text: `Overall: ${formatScore(kitScore.overall)}`, bold: true })] }),
+        ...kitScore.competencies.map(c => new Paragraph({
+          text: `${c.name} (${Math.round(c.weight * 100)}%): ${formatScore(c.score)}`,
+          bullet: { level: 0 },
+        })),
+      );
+    }
+
+    children.push(new Paragraph({ text: 'Scoring Rubric', heading: HeadingLevel.HEADING_1 }));
+    kit.scoringRubric.forEach((r, i) => children.push(new Paragraph({
+      bullet: { level: 0 },
+      children: [
+        new TextRun({ text: `${r.criterion} (${Math.round(r.weight * 100)}%): ${formatScore(kitScore.criteria[i].score)}`, bold: true }),
+        new TextRun({ text: ` - ${r.description}` }),
+      ],
+    })));
+  }
+
+  let questionNumber = 0;
+  kit.competencies.forEach(competency => {
+    children.push(new Paragraph({ text: competency.name, heading: HeadingLevel.HEADING_1 }));
+    if (isInterviewer && competency.description) {
+      children.push(new Paragraph({ children: [new TextRun({ text: competency.description, italics: true })] }));
+    }
+
+    competency.questions.forEach(q => {
+      questionNumber += 1;
+      children.push(
+        new Paragraph({ text: `Question ${questionNumber}`, heading: HeadingLevel.HEADING_2 }),
+        new Paragraph({ text: q.question }),
+        ...codeShownToCandidate(q.modelAnswer).map(shown => codeParagraph(shown.source)),
+        ...(q.codingExercise?.starterCode ? [codeParagraph(q.codingExercise.starterCode)] : []),
+        ...(q.sqlExercise ? [
+          new Paragraph({ children: [new TextRun({ text: 'Sample schema and data:', bold: true })] }),
+          codeParagraph(q.sqlExercise.setupSql),
+        ] : []),
+      );
+      if (!isInterviewer) return;
+
+      children.push(new Paragraph({ children: [new TextRun({ text: 'Model Answer:', bold: true })] }));
+      if (q.sqlExercise?.verified === false) {
+        children.push(new Paragraph({
+          children: [
+            new TextRun({ text: 'Not verified: ', bold: true }),
+            new TextRun(`the query failed against the sample data (${q.sqlExercise.verificationError ?? 'unknown error'}).`),
+          ],
+        }));
+      }
+      q.modelAnswer.forEach(block => {
+        children.push(block.type === 'code'
+          ? codeParagraph(block.original ? formatCodeDiff(block.original, block.source) : block.source)
+          : new Paragraph({ text: block.text, bullet: { level: 0 } }));
+      });
+
+      if (q.interviewerNote) {
+        children.push(new Paragraph({ children: [new TextRun({ text: 'Interviewer note: ', bold: true }), new TextRun(q.interviewerNote)] }));
+      }
+      if (q.whatGoodLooksLike) {
+        children.push(new Paragraph({ children: [new TextRun({ text: 'What good looks like: ', bold: true }), new TextRun(q.whatGoodLooksLike)] }));
+      }
+      if (q.commonMistakes?.length) {
+        children.push(
+          new Paragraph({ children: [new TextRun({ text: 'Common mistakes:', bold: true })] }),
+          ...q.commonMistakes.map(m => new Paragraph({ text: m, bullet: { level: 0 } })),
+        );
+      }
+      if (q.partialCreditScale?.length) {
+        children.push(
+          new Paragraph({ children: [new TextRun({ text: 'Partial credit:', bold: true })] }),
+          ...q.partialCreditScale.map(l => new Paragraph({ text: `${Math.round(l.credit * 100)}%: ${l.description}`, bullet: { level: 0 } })),
+        );
+      }
+      if (q.codingExercise) {
+        const { functionName, tests } = q.codingExercise;
+        children.push(
+          new Paragraph({ children: [new TextRun({ text: 'Hidden tests:', bold: true })] }),
+          ...tests.map(t => new Paragraph({
+            children: [new TextRun({ text: formatCodingTest(functionName, t), font: 'Courier New', size: 18 }), new TextRun(t.description ? ` (${t.description})` : '')],
+            bullet: { level: 0 },
+          })),
+        );
+      }
+
+      const evaluation = evaluations[q.id];
+      if (evaluation?.score !== undefined) {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: 'Score: ', bold: true }), new TextRun(`${evaluation.score} / ${scoreScale}`)],
+        }));
+      }
+      if (evaluation?.notes.trim()) {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: 'Notes: ', bold: true }), new TextRun(evaluation.notes.trim())],
+        }));
+      }
+    });
+  });
+
+  if (kit.behavioral?.length) {
+    children.push(new Paragraph({ text: 'Behavioral & Culture Fit', heading: HeadingLevel.HEADING_1 }));
+    kit.behavioral.forEach((q, i) => {
+      children.push(
+        new Paragraph({ text: `Behavioral Question ${i + 1}`, heading: HeadingLevel.HEADING_2 }),
+        new Paragraph({ text: q.question }),
+      );
+      if (!isInterviewer) return;
+
+      const labelled = (label: string, text: string) =>
+        new Paragraph({ bullet: { level: 0 }, children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(text)] });
+      children.push(
+        new Paragraph({ children: [new TextRun({ text: 'Competency: ', bold: true }), new TextRun(q.competency)] }),
+        new Paragraph({ children: [new TextRun({ text: 'STAR evaluation guide:', bold: true })] }),
+        labelled('Situation', q.starCriteria.situation),
+        labelled('Task', q.starCriteria.task),
+        labelled('Action', q.starCriteria.action),
+        labelled('Result', q.starCriteria.result),
+        new Paragraph({ children: [new TextRun({ text: 'Good signals:', bold: true })] }),
+        ...q.goodSignals.map(s => new Paragraph({ text: s, bullet: { level: 0 } })),
+        new Paragraph({ children: [new TextRun({ text: 'Poor signals:', bold: true })] }),
+        ...q.poorSignals.map(s => new Paragraph({ text: s, bullet: { level: 0 } })),
+        new Paragraph({ children: [new TextRun({ text: 'Follow-up probes:', bold: true })] }),
+        ...q.followUpProbes.map(p => new Paragraph({ text: p, bullet: { level: 0 } })),
+      );
+    });
+  }
+
+  if (isInterviewer && kit.projectDeepDive?.length) {
+    children.push(new Paragraph({ text: 'Project Deep-dive', heading: HeadingLevel.HEADING_1 }));
+    kit.projectDeepDive.forEach(project => {
+      children.push(
+        new Paragraph({ text: project.projectName, heading: HeadingLevel.HEADING_2 }),
+        new Paragraph({ text: project.summary }),
+        new Paragraph({ children: [new TextRun({ text: 'Key skills: ', bold: true }), new TextRun(project.keySkills)] }),
+        new Paragraph({ children: [new TextRun({ text: 'Follow-up questions:', bold: true })] }),
+        ...project.followUpQuestions.map(q => new Paragraph({ text: q, bullet: { level: 0 } })),
+        new Paragraph({ children: [new TextRun({ text: 'Ownership red-flag checks:', bold: true })] }),
+        ...project.redFlagChecks.map(c => new Paragraph({ text: c, bullet: { level: 0 } })),
+        new Paragraph({ children: [new TextRun({ text: 'Expected depth: ', bold: true }), new TextRun(project.expectedDepth)] }),
+      );
+    });
+  }
+
+  return Packer.toBuffer(new Document({ title, sections: [{ children }] }));
+}
@@ -0,0 +1,49 @@
+import { renderMarkdown } from '@/lib/kit-export/markdown';
+import { renderPdf } from '@/lib/kit-export/pdf';
+import { renderDocx } from '@/lib/kit-export/docx';
+import type { InterviewKit, QuestionEvaluation, ScoreScale } from '@/types/interview-kit';
+
+export type ExportFormat = 'pdf' | 'docx' | 'markdown';
+
+/**
+ * "interviewer" includes model answers, the scoring rubric and any scores and notes.
+ * "candidate" contains the questions only and is safe to share with the candidate.
+ */
+export type ExportAudience = 'interviewer' | 'candidate';
+
+export interface KitExportInput {
+  title: string;
+  audience: ExportAudience;
+  kit: InterviewKit;
+  evaluations: Record<string, QuestionEvaluation>;
+  rubricScores: Record<string, number>;
+  scoreScale: ScoreScale;
+}
+
+export interface KitExport {
+  body: Buffer | string;
+  contentType: string;
+  fileName: string;
+}
+
+const exporters: Record<ExportFormat, { render: (input: KitExportInput) => Promise<Buffer | string>; contentType: string; extension: string }> = {
+  markdown: { render: async input => renderMarkdown(input), contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  pdf: { render: renderPdf, contentType: 'application/pdf', extension: 'pdf' },
+  docx: {
+    render: renderDocx,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+  },
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'interview-kit';
+
+export async function exportKit(input: KitExportInput, format: ExportFormat): Promise<KitExport> {
+  const exporter = exporters[format];
+  return {
+    body: await exporter.render(input),
+    contentType: exporter.contentType,
+    fileName: `${slugify(input.title)}-${input.audience}.${exporter.extension}`,
+  };
+}
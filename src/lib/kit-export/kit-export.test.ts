@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { exportKit, type KitExportInput } from '@/lib/kit-export';
+import { renderMarkdown } from '@/lib/kit-export/markdown';
+import type { InterviewKit } from '@/types/interview-kit';
+
+const kit: InterviewKit = {
+  id: 'kit-1',
+  competencies: [
+    {
+      id: 'c-1',
+      name: 'Databases',
+      description: 'Relational data stores.',
+      questions: [
+        {
+          id: 'q-1',
+          question: 'Which query returns the second highest salary?',
+          modelAnswer: [
+            { type: 'code', language: 'sql', source: 'SELECT salary FROM employees ORDER BY salary DESC LIMIT 1 OFFSET 1;' },
+            { type: 'point', text: 'Sorts salaries from highest to lowest.', weight: 1 },
+          ],
+          interviewerNote: 'Probe for ties.',
+          sqlExercise: { setupSql: 'CREATE TABLE employees (salary INTEGER);', verified: true },
+        },
+        {
+          id: 'q-2',
+          question: 'When is a covering index worth its write cost?',
+          modelAnswer: [{ type: 'point', text: 'When a hot query reads only indexed columns.', weight: 1 }],
+        },
+      ],
+    },
+  ],
+  scoringRubric: [{ id: 'r-1', criterion: 'Technical Depth | Accuracy', description: 'Goes beyond definitions.', weight: 1 }],
+};
+
+const input = (audience: KitExportInput['audience']): KitExportInput => ({
+  title: 'Backend Engineer: Round 1',
+  audience,
+  kit,
+  evaluations: { 'q-1': { score: 4, notes: 'Solid.\nMissed ties.', checkedPoints: [] } },
+  rubricScores: { 'r-1': 3 },
+  scoreScale: 5,
+});
+
+describe('renderMarkdown', () => {
+  it('gives interviewers the score, rubric, model answers and notes', () => {
+    const markdown = renderMarkdown(input('interviewer'));
+
+    assert.match(markdown, /\*\*Overall:\*\* 3\.0 \/ 5/);
+    assert.match(markdown, /\| Databases \| 100% \| 4\.0 \/ 5 \|/);
+    assert.match(markdown, /\| Technical Depth \\\| Accuracy \| 100% \| 3\.0 \/ 5 \| Goes beyond definitions\. \|/);
+    assert.match(markdown, /- Sorts salaries from highest to lowest\./);
+    assert.match(markdown, /\*\*Interviewer note:\*\* Probe for ties\./);
+    assert.match(markdown, /> Solid\.\n> Missed ties\./);
+  });
+
+  it('gives candidates the questions and sample data only', () => {
+    const markdown = renderMarkdown(input('candidate'));
+
+    assert.match(markdown, /### Question 2\n\nWhen is a covering index worth its write cost\?/);
+    assert.match(markdown, /CREATE TABLE employees/);
+    for (const hidden of ['Overall', 'Scoring Rubric', 'Sorts salaries', 'Probe for ties', 'Missed ties', 'LIMIT 1 OFFSET 1']) {
+      assert.ok(!markdown.includes(hidden), `The candidate version includes "${hidden}".`);
+    }
+  });
+});
+
+describe('exportKit', () => {
+  it('names the file after the title and audience', async () => {
+    const exported = await exportKit(input('candidate'), 'markdown');
+
+    assert.equal(exported.fileName, 'backend-engineer-round-1-candidate.md');
+    assert.equal(exported.contentType, 'text/markdown; charset=utf-8');
+  });
+
+  it('renders a PDF with the questions, and the answers only for interviewers', async () => {
+    const text = async (audience: KitExportInput['audience']) => {
+      const { body } = await exportKit(input(audience), 'pdf');
+      const parser = new PDFParse({ data: new Uint8Array(body as Buffer) });
+      try {
+        return (await parser.getText()).text;
+      } finally {
+        await parser.destroy();
+      }
+    };
+
+    const interviewer = await text('interviewer');
+    const candidate = await text('candidate');
+
+    assert.match(interviewer, /second highest salary/);
+    assert.match(interviewer, /Sorts salaries from highest to lowest/);
+    assert.match(candidate, /covering index/);
+    assert.ok(!candidate.includes('Sorts salaries'));
+  });
+
+  it('renders arrows, math signs and non-Latin text in the PDF', async () => {
+    const unicodeKit: InterviewKit = {
+      ...kit,
+      competencies: [{
+        id: 'c-2',
+        name: 'Алгоритмы',
+        description: 'Сортировка и поиск.',
+        questions: [{
+          id: 'q-3',
+          question: 'Сортировка: когда O(n log n) ≥ O(n²) на практике?',
+          modelAnswer: [{ type: 'point', text: 'Για μικρούς πίνακες.', weight: 1 }],
+          codingExercise: {
+            language: 'javascript',
+            functionName: 'f',
+            signature: 'function f(n)',
+            starterCode: 'function f(n) {\n  // Вернуть n + 1\n}',
+            tests: [{ args: '[1]', expected: '2' }],
+          },
+        }],
+      }],
+    };
+    const { body } = await exportKit({ ...input('interviewer'), kit: unicodeKit }, 'pdf');
+    const parser = new PDFParse({ data: new Uint8Array(body as Buffer) });
+    let text: string;
+    try {
+      text = (await parser.getText()).text;
+    } finally {
+      await parser.destroy();
+    }
+
+    for (const expected of ['Алгоритмы', 'O(n log n) ≥ O(n²)', 'Για μικρούς πίνακες.', '// Вернуть n + 1', 'f(1) → 2']) {
+      assert.ok(text.includes(expected), `The PDF does not include "${expected}".`);
+    }
+  });
+
+  it('renders a DOCX with the questions, and the answers only for interviewers', async () => {
+    const text = async (audience: KitExportInput['audience']) => {
+      const { body } = await exportKit(input(audience), 'docx');
+      return (await mammoth.extractRawText({ buffer: body as Buffer })).value;
+    };
+
+    const interviewer = await text('interviewer');
+    const candidate = await text('candidate');
+
+    assert.match(interviewer, /Technical Depth \| Accuracy \(100%\)/);
+    assert.match(interviewer, /Sorts salaries from highest to lowest/);
+    assert.match(candidate, /covering index/);
+    assert.ok(!candidate.includes('Sorts salaries'));
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  calculateKitScore,
+  codeShownToCandidate,
+  formatCodeDiff,
+  formatCodingTest,
+  formatScoreOnScale,
+} from '@/lib/interview-kit';
+import type { KitExportInput } from '@/lib/kit-export';
+
+// Pipes would otherwise end the table cell early.
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function renderMarkdown({ title, audience, kit, evaluations, rubricScores, scoreScale }: KitExportInput): string {
+  const isInterviewer = audience === 'interviewer';
+  const lines: string[] = [`# ${title}`, '', isInterviewer ? '_Interviewer version_' : '_Interview questions_', ''];
+
+  if (isInterviewer) {
+    const kitScore = calculateKitScore(kit, evaluations, rubricScores, scoreScale);
+    const formatScore = (score: number | null) => (score !== null ? `${formatScoreOnScale(score, scoreScale)} / ${scoreScale}` : 'Not scored');
+    if (kitScore.overall !== null || kitScore.competencies.some(c => c.score !== null)) {
+      lines.push('## Score Summary', '', `**Overall:** ${formatScore(kitScore.overall)}`, '');
+      lines.push('| Competency | Weight | Score |', '| --- | --- | --- |');
+      kitScore.competencies.forEach(c => lines.push(`| ${cell(c.name)} | ${Math.round(c.weight * 100)}% | ${formatScore(c.score)} |`));
+      lines.push('');
+    }
+
+    lines.push('## Scoring Rubric', '', '| Criterion | Weight | Score | What to look for |', '| --- | --- | --- | --- |');
+    kit.scoringRubric.forEach((r, i) => lines.push(
+      `| ${cell(r.criterion)} | ${Math.round(r.weight * 100)}% | ${formatScore(kitScore.criteria[i].score)} | ${cell(r.description)} |`
+    ));
+    lines.push('');
+  }
+
+  let questionNumber = 0;
+  kit.competencies.forEach(competency => {
+    lines.push(`## ${competency.name}`, '');
+    if (isInterviewer && competency.description) {
+      lines.push(`_${competency.description}_`, '');
+    }
+
+    competency.questions.forEach(q => {
+      questionNumber += 1;
+      lines.push(`### Question ${questionNumber}`, '', q.question, '');
+      codeShownToCandidate(q.modelAnswer).forEach(code => lines.push(`\`\`\`${code.language ?? ''}`, code.source, '```', ''));
+      if (q.codingExercise?.starterCode) {
+        lines.push(`\`\`\`${q.codingExercise.language}`, q.codingExercise.starterCode, '```', '');
+      }
+      if (q.sqlExercise) {
+        lines.push('**Sample schema and data:**', '', '```sql', q.sqlExercise.setupSql, '```', '');
+      }
+      if (!isInterviewer) return;
+
+      lines.push('**Model Answer:**', '');
+      if (q.sqlExercise?.verified === false) {
+        lines.push(`> **Not verified:** the query failed against the sample data (${q.sqlExercise.verificationError ?? 'unknown error'}).`, '');
+      }
+      q.modelAnswer.forEach(block => {
+        if (block.type === 'code') {
+          if (lines[lines.length - 1] !== '') lines.push('');
+          if (block.original) {
+            lines.push('```diff', formatCodeDiff(block.original, block.source), '```', '');
+          } else {
+            lines.push(`\`\`\`${block.language ?? ''}`, block.source, '```', '');
+          }
+        } else {
+          lines.push(`- ${block.text}`);
+        }
+      });
+      lines.push('');
+
+      if (q.interviewerNote) lines.push(`**Interviewer note:** ${q.interviewerNote}`, '');
+      if (q.whatGoodLooksLike) lines.push(`**What good looks like:** ${q.whatGoodLooksLike}`, '');
+      if (q.commonMistakes?.length) {
+        lines.push('**Common mistakes:**', '', ...q.commonMistakes.map(m => `- ${m}`), '');
+      }
+      if (q.partialCreditScale?.length) {
+        lines.push('**Partial credit:**', '', ...q.partialCreditScale.map(l => `- ${Math.round(l.credit * 100)}%: ${l.description}`), '');
+      }
+      if (q.codingExercise) {
+        const { functionName, tests } = q.codingExercise;
+        lines.push('**Hidden tests:**', '', ...tests.map(t => `- \`${formatCodingTest(functionName, t)}\`${t.description ? ` (${t.description})` : ''}`), '');
+      }
+
+      const evaluation = evaluations[q.id];
+      if (evaluation?.score !== undefined) {
+        lines.push(`**Score:** ${evaluation.score} / ${scoreScale}`, '');
+      }
+      if (evaluation?.notes.trim()) {
+        lines.push('**Notes:**', '', ...evaluation.notes.trim().split('\n').map(l => `> ${l}`), '');
+      }
+    });
+  });
+
+  if (kit.behavioral?.length) {
+    lines.push('## Behavioral & Culture Fit', '');
+    kit.behavioral.forEach((q, i) => {
+      lines.push(`### Behavioral Question ${i + 1}`, '', q.question, '');
+      if (!isInterviewer) return;
+
+      lines.push(`**Competency:** ${q.competency}`, '');
+      lines.push('**STAR evaluation guide:**', '');
+      lines.push(`- **Situation:** ${q.starCriteria.situation}`, `- **Task:** ${q.starCriteria.task}`);
+      lines.push(`- **Action:** ${q.starCriteria.action}`, `- **Result:** ${q.starCriteria.result}`, '');
+      lines.push('**Good signals:**', '', ...q.goodSignals.map(s => `- ${s}`), '');
+      lines.push('**Poor signals:**', '', ...q.poorSignals.map(s => `- ${s}`), '');
+      lines.push('**Follow-up probes:**', '', ...q.followUpProbes.map((p, j) => `${j + 1}. ${p}`), '');
+    });
+  }
+
+  if (isInterviewer && kit.projectDeepDive?.length) {
+    lines.push('## Project Deep-dive', '');
+    kit.projectDeepDive.forEach(project => {
+      lines.push(`### ${project.projectName}`, '', project.summary, '', `**Key skills:** ${project.keySkills}`, '');
+      lines.push('**Follow-up questions:**', '', ...project.followUpQuestions.map((q, i) => `${i + 1}. ${q}`), '');
+      lines.push('**Ownership red-flag checks:**', '', ...project.redFlagChecks.map(c => `- ${c}`), '');
+      lines.push(`**Expected depth:** ${project.expectedDepth}`, '');
+    });
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
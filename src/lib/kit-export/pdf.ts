@@ -0,0 +1,173 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import {
+  calculateKitScore,
+  codeShownToCandidate,
+  formatCodeDiff,
+  formatCodingTest,
+  formatScoreOnScale,
+} from '@/lib/interview-kit';
+import type { KitExportInput } from '@/lib/kit-export';
+
+const MARGIN = 50;
+
+// PDF's standard fonts only cover WinAnsi, so arrows, math signs and non-Latin JD or answer text need embedded Unicode fonts.
+const FONTS_DIR = path.join(process.cwd(), 'node_modules/dejavu-fonts-ttf/ttf');
+const FONTS = {
+  Body: 'DejaVuSans.ttf',
+  'Body-Bold': 'DejaVuSans-Bold.ttf',
+  'Body-Oblique': 'DejaVuSans-Oblique.ttf',
+  Code: 'DejaVuSansMono.ttf',
+};
+
+export function renderPdf({ title, audience, kit, evaluations, rubricScores, scoreScale }: KitExportInput): Promise<Buffer> {
+  const isInterviewer = audience === 'interviewer';
+  const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: title } });
+  Object.entries(FONTS).forEach(([name, file]) => doc.registerFont(name, path.join(FONTS_DIR, file)));
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const width = doc.page.width - MARGIN * 2;
+  const heading = (text: string, size: number) => {
+    doc.moveDown(0.5).font('Body-Bold').fontSize(size).fillColor('black').text(text, { width });
+    doc.moveDown(0.3);
+  };
+  const body = (text: string, options: PDFKit.Mixins.TextOptions = {}) => {
+    doc.font('Body').fontSize(10).fillColor('black').text(text, { width, ...options });
+  };
+  const code = (source: string) => {
+    doc.moveDown(0.2).font('Code').fontSize(9).fillColor('#333333')
+      .text(source, MARGIN + 10, undefined, { width: width - 10 });
+    doc.x = MARGIN;
+    doc.moveDown(0.2);
+  };
+
+  doc.font('Body-Bold').fontSize(18).text(title, { width });
+  doc.font('Body-Oblique').fontSize(10).fillColor('gray')
+    .text(isInterviewer ? 'Interviewer version' : 'Interview questions', { width });
+
+  if (isInterviewer) {
+    const kitScore = calculateKitScore(kit, evaluations, rubricScores, scoreScale);
+    const formatScore = (score: number | null) => (score !== null ? `${formatScoreOnScale(score, scoreScale)} / ${scoreScale}` : 'Not scored');
+    if (kitScore.overall !== null || kitScore.competencies.some(c => c.score !== null)) {
+      heading('Score Summary', 14);
+      body(`Overall: ${formatScore(kitScore.overall)}`);
+      kitScore.competencies.forEach(c => body(`${c.name} (${Math.round(c.weight * 100)}%): ${formatScore(c.score)}`, { indent: 10 }));
+    }
+
+    heading('Scoring Rubric', 14);
+    kit.scoringRubric.forEach((r, i) => {
+      doc.font('Body-Bold').fontSize(10)
+        .text(`${r.criterion} (${Math.round(r.weight * 100)}%): ${formatScore(kitScore.criteria[i].score)}`, { width, continued: true });
+      doc.font('Body').text(` - ${r.description}`);
+    });
+  }
+
+  let questionNumber = 0;
+  kit.competencies.forEach(competency => {
+    heading(competency.name, 14);
+    if (isInterviewer && competency.description) {
+      doc.font('Body-Oblique').fontSize(10).fillColor('gray').text(competency.description, { width });
+    }
+
+    competency.questions.forEach(q => {
+      questionNumber += 1;
+      doc.moveDown(0.6).font('Body-Bold').fontSize(11).fillColor('black')
+        .text(`Question ${questionNumber}. `, { width, continued: true })
+        .font('Body').text(q.question);
+      codeShownToCandidate(q.modelAnswer).forEach(shown => code(shown.source));
+      if (q.codingExercise?.starterCode) code(q.codingExercise.starterCode);
+      if (q.sqlExercise) {
+        doc.moveDown(0.2).font('Body-Bold').fontSize(10).fillColor('black').text('Sample schema and data:', { width });
+        code(q.sqlExercise.setupSql);
+      }
+      if (!isInterviewer) return;
+
+      doc.moveDown(0.3).font('Body-Bold').fontSize(10).text('Model Answer:', { width });
+      if (q.sqlExercise?.verified === false) {
+        body(`Not verified: the query failed against the sample data (${q.sqlExercise.verificationError ?? 'unknown error'}).`);
+      }
+      q.modelAnswer.forEach(block => {
+        if (block.type === 'code') {
+          code(block.original ? formatCodeDiff(block.original, block.source) : block.source);
+        } else {
+          body(`• ${block.text}`, { indent: 10 });
+        }
+      });
+
+      if (q.interviewerNote) {
+        doc.moveDown(0.2);
+        body(`Interviewer note: ${q.interviewerNote}`);
+      }
+      if (q.whatGoodLooksLike) body(`What good looks like: ${q.whatGoodLooksLike}`);
+      if (q.commonMistakes?.length) {
+        doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Common mistakes:', { width });
+        q.commonMistakes.forEach(m => body(`• ${m}`, { indent: 10 }));
+      }
+      if (q.partialCreditScale?.length) {
+        doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Partial credit:', { width });
+        q.partialCreditScale.forEach(l => body(`• ${Math.round(l.credit * 100)}%: ${l.description}`, { indent: 10 }));
+      }
+      if (q.codingExercise) {
+        const { functionName, tests } = q.codingExercise;
+        doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Hidden tests:', { width });
+        code(tests.map(t => formatCodingTest(functionName, t) + (t.description ? ` (${t.description})` : '')).join('\n'));
+      }
+
+      const evaluation = evaluations[q.id];
+      if (evaluation?.score !== undefined) {
+        doc.moveDown(0.2);
+        body(`Score: ${evaluation.score} / ${scoreScale}`);
+      }
+      if (evaluation?.notes.trim()) {
+        body(`Notes: ${evaluation.notes.trim()}`);
+      }
+    });
+  });
+
+  if (kit.behavioral?.length) {
+    heading('Behavioral & Culture Fit', 14);
+    kit.behavioral.forEach((q, i) => {
+      doc.moveDown(0.6).font('Body-Bold').fontSize(11).fillColor('black')
+        .text(`Behavioral Question ${i + 1}. `, { width, continued: true })
+        .font('Body').text(q.question);
+      if (!isInterviewer) return;
+
+      doc.moveDown(0.2);
+      body(`Competency: ${q.competency}`);
+      doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('STAR evaluation guide:', { width });
+      body(`• Situation: ${q.starCriteria.situation}`, { indent: 10 });
+      body(`• Task: ${q.starCriteria.task}`, { indent: 10 });
+      body(`• Action: ${q.starCriteria.action}`, { indent: 10 });
+      body(`• Result: ${q.starCriteria.result}`, { indent: 10 });
+      doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Good signals:', { width });
+      q.goodSignals.forEach(s => body(`• ${s}`, { indent: 10 }));
+      doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Poor signals:', { width });
+      q.poorSignals.forEach(s => body(`• ${s}`, { indent: 10 }));
+      doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Follow-up probes:', { width });
+      q.followUpProbes.forEach((p, j) => body(`${j + 1}. ${p}`, { indent: 10 }));
+    });
+  }
+
+  if (isInterviewer && kit.projectDeepDive?.length) {
+    heading('Project Deep-dive', 14);
+    kit.projectDeepDive.forEach(project => {
+      doc.moveDown(0.4).font('Body-Bold').fontSize(11).text(project.projectName, { width });
+      body(project.summary);
+      body(`Key skills: ${project.keySkills}`);
+      doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Follow-up questions:', { width });
+      project.followUpQuestions.forEach((q, i) => body(`${i + 1}. ${q}`, { indent: 10 }));
+      doc.moveDown(0.2).font('Body-Bold').fontSize(10).text('Ownership red-flag checks:', { width });
+      project.redFlagChecks.forEach(c => body(`• ${c}`, { indent: 10 }));
+      doc.moveDown(0.2);
+      body(`Expected depth: ${project.expectedDepth}`);
+    });
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,61 @@
+import type { GenerateInterviewKitInput } from '@/ai/flows/generate-interview-kit';
+import type { Competency, InterviewKit, KitGenerationEvent, StreamedQuestion } from '@/types/interview-kit';
+
+/**
+ * Generates a kit through /api/kits/generate, passing each question to
+ * onQuestion as it arrives. Resolves with the finished kit; aborting the signal
+ * cancels the generation on the server and rejects with an AbortError.
+ */
+export async function streamKitGeneration(
+  input: GenerateInterviewKitInput,
+  { signal, onQuestion }: { signal: AbortSignal; onQuestion: (question: StreamedQuestion) => void }
+): Promise<InterviewKit> {
+  const response = await fetch('/api/kits/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Kit generation failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    const lines = (buffer + (value ?? '')).split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines.filter(Boolean)) {
+      const event = JSON.parse(line) as KitGenerationEvent;
+      if (event.type === 'kit') return event.kit;
+      if (event.type === 'error') throw new Error(event.error);
+      const { type, ...question } = event;
+      onQuestion(question);
+    }
+    if (done) throw new Error('The kit generation ended without a kit.');
+  }
+}
+
+/**
+ * A kit of the questions received before a generation was cancelled, grouped
+ * into their competencies in the order they arrived. It has no scoring rubric,
+ * since the model writes the rubric after the questions.
+ */
+export function kitFromStreamedQuestions(questions: StreamedQuestion[]): InterviewKit {
+  const competencies: Competency[] = [];
+  questions.forEach(({ competencyName, competencyDescription, question }) => {
+    let competency = competencies.find(c => c.name === competencyName);
+    if (!competency) {
+      competency = { id: crypto.randomUUID(), name: competencyName, description: competencyDescription, questions: [] };
+      competencies.push(competency);
+    }
+    competency.questions.push(question);
+  });
+  return {
+    id: crypto.randomUUID(),
+    requirements: questions.find(q => q.requirements)?.requirements,
+    competencies,
+    scoringRubric: [],
+  };
+}
@@ -0,0 +1,61 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getKitSession, saveKitSession } from '@/lib/kit-sessions';
+import type { KitSession } from '@/types/interview-kit';
+
+const dir = mkdtempSync(path.join(os.tmpdir(), 'kit-sessions-test-'));
+process.env.KIT_STORE_DIR = dir;
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const session = (): Omit<KitSession, 'createdAt' | 'updatedAt'> => ({
+  id: randomUUID(),
+  title: 'Backend engineer',
+  jobDescription: 'Backend engineer.',
+  unstopProfileLink: 'https://unstop.com/u/candidate',
+  kit: {
+    id: 'kit',
+    competencies: [{
+      id: 'c-db',
+      name: 'Databases',
+      description: 'Relational data stores.',
+      questions: [{ id: 'q-index', question: 'Why would PostgreSQL ignore an index?', modelAnswer: [{ type: 'point', text: 'Low selectivity.', weight: 1 }] }],
+    }],
+    scoringRubric: [{ id: 'r-depth', criterion: 'Technical Depth', description: 'Goes beyond definitions.', weight: 1 }],
+  },
+  evaluations: { 'q-index': { score: 7, notes: 'Solid.', checkedPoints: [] } },
+  scoreScale: 10,
+  editedQuestionIds: [],
+});
+
+describe('saveKitSession', () => {
+  it('stores a valid session and keeps its creation time on later saves', async () => {
+    const created = await saveKitSession(session());
+    const updated = await saveKitSession({ ...created, title: 'Senior backend engineer' });
+
+    assert.equal(updated.createdAt, created.createdAt);
+    assert.equal((await getKitSession(created.id))?.title, 'Senior backend engineer');
+  });
+
+  it('drops fields a session does not have', async () => {
+    const saved = await saveKitSession({ ...session(), injected: 'value' } as Omit<KitSession, 'createdAt' | 'updatedAt'>);
+
+    assert.ok(!('injected' in saved));
+  });
+
+  it('rejects a session that does not match the schema', async () => {
+    const invalid = { ...session(), scoreScale: 7, evaluations: { 'q-index': { notes: 1 } } };
+
+    await assert.rejects(
+      saveKitSession(invalid as unknown as Omit<KitSession, 'createdAt' | 'updatedAt'>),
+      /Invalid kit session: evaluations\.q-index\.notes .*; scoreScale /
+    );
+  });
+
+  it('rejects a session id that is not a UUID', async () => {
+    await assert.rejects(saveKitSession({ ...session(), id: '../escape' }), /Invalid kit session: id Invalid uuid/);
+  });
+});
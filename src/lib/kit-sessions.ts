@@ -0,0 +1,77 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for persisting interview kit sessions.
+ *
+ * - saveKitSession - Validates and creates or updates a session, keyed by the kit id.
+ * - getKitSession - Loads a session by id, or null if it does not exist. Older sessions are migrated on read.
+ * - listRecentKitSessions - Lists the most recently updated sessions.
+ * - deleteKitSession - Deletes a session.
+ * - findPreviouslyAskedQuestions - Finds questions the candidate already saw in an earlier kit.
+ */
+
+import { KitSessionSchema } from '@/ai/schemas/kit-session';
+import { getKitStore } from '@/lib/kit-store';
+import { migrateKitSession } from '@/lib/interview-kit';
+import { findSimilarQuestions } from '@/lib/question-similarity';
+import type { KitSession, KitSessionSummary, PreviouslyAskedQuestion } from '@/types/interview-kit';
+
+export async function saveKitSession(session: Omit<KitSession, 'createdAt' | 'updatedAt'>): Promise<KitSession> {
+  const parsed = KitSessionSchema.safeParse(session);
+  if (!parsed.success) {
+    throw new Error(`Invalid kit session: ${parsed.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join('; ')}`);
+  }
+  const store = getKitStore();
+  const existing = await store.get(parsed.data.id);
+  const now = new Date().toISOString();
+  const saved: KitSession = {
+    ...parsed.data,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await store.save(saved);
+  return saved;
+}
+
+export async function getKitSession(id: string): Promise<KitSession | null> {
+  const session = await getKitStore().get(id);
+  return session && migrateKitSession(session);
+}
+
+export async function listRecentKitSessions(max = 10): Promise<KitSessionSummary[]> {
+  return getKitStore().list(max);
+}
+
+export async function deleteKitSession(id: string): Promise<void> {
+  await getKitStore().delete(id);
+}
+
+/**
+ * Compares the questions of a kit with every other kit for the same candidate,
+ * identified by their Unstop profile link, and returns the questions that match
+ * one they were already asked.
+ */
+export async function findPreviouslyAskedQuestions(
+  kitId: string,
+  unstopProfileLink: string,
+  questions: { id: string; question: string }[]
+): Promise<PreviouslyAskedQuestion[]> {
+  if (!unstopProfileLink.trim() || questions.length === 0) return [];
+  const sessions = (await getKitStore().listForCandidate(unstopProfileLink.trim())).filter(s => s.id !== kitId);
+  const previous = sessions.flatMap(session =>
+    migrateKitSession(session).kit.competencies.flatMap(c => c.questions.map(q => ({ session, question: q.question })))
+  );
+  if (previous.length === 0) return [];
+
+  return findSimilarQuestions(questions.map(q => q.question), previous.map(p => p.question)).map(match => {
+    const { session, question } = previous[match.matchIndex];
+    return {
+      questionId: questions[match.index].id,
+      previousQuestion: question,
+      previousKitId: session.id,
+      previousKitTitle: session.title,
+      previousKitDate: session.updatedAt,
+      similarity: match.similarity,
+    };
+  });
+}
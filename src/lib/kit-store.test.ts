@@ -0,0 +1,88 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getKitStore } from '@/lib/kit-store';
+import type { KitSession } from '@/types/interview-kit';
+
+const dir = mkdtempSync(path.join(os.tmpdir(), 'kit-store-test-'));
+process.env.KIT_STORE_DIR = dir;
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const session = (unstopProfileLink: string, updatedAt: string): KitSession => ({
+  id: randomUUID(),
+  title: 'Backend engineer',
+  createdAt: updatedAt,
+  updatedAt,
+  jobDescription: 'Backend engineer.',
+  unstopProfileLink,
+  kit: { id: 'kit', competencies: [], scoringRubric: [] },
+  evaluations: {},
+  scoreScale: 10,
+  editedQuestionIds: [],
+});
+
+describe('file kit store', () => {
+  // Runs first, while the store has not been used and so has no index yet.
+  it('indexes the sessions saved before the candidate index existed', async () => {
+    const older = session('https://unstop.com/u/old', '2026-01-01T00:00:00.000Z');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path.join(dir, `${older.id}.json`), JSON.stringify(older));
+
+    const sessions = await getKitStore().listForCandidate('https://unstop.com/u/old');
+
+    assert.deepEqual(sessions.map(s => s.id), [older.id]);
+  });
+
+  it('lists the sessions of a candidate, most recent first, without the other candidates', async () => {
+    const store = getKitStore();
+    const first = session('https://unstop.com/u/ana', '2026-02-01T00:00:00.000Z');
+    const second = session('https://unstop.com/u/ana', '2026-03-01T00:00:00.000Z');
+    await store.save(first);
+    await store.save(second);
+    await store.save(session('https://unstop.com/u/ben', '2026-04-01T00:00:00.000Z'));
+
+    const sessions = await store.listForCandidate('https://unstop.com/u/ana');
+
+    assert.deepEqual(sessions.map(s => s.id), [second.id, first.id]);
+  });
+
+  it('keeps every session of a candidate saved at the same time', async () => {
+    const store = getKitStore();
+    const saved = Array.from({ length: 10 }, (_, i) => session('https://unstop.com/u/fay', `2026-02-${i + 10}T00:00:00.000Z`));
+    await Promise.all(saved.map(s => store.save(s)));
+
+    const sessions = await store.listForCandidate('https://unstop.com/u/fay');
+
+    assert.deepEqual(sessions.map(s => s.id), saved.map(s => s.id).reverse());
+  });
+
+  it('moves a session to its new candidate when the profile link changes', async () => {
+    const store = getKitStore();
+    const saved = session('https://unstop.com/u/cara', '2026-02-01T00:00:00.000Z');
+    await store.save(saved);
+    await store.save({ ...saved, unstopProfileLink: 'https://unstop.com/u/dev' });
+
+    assert.deepEqual(await store.listForCandidate('https://unstop.com/u/cara'), []);
+    assert.deepEqual((await store.listForCandidate('https://unstop.com/u/dev')).map(s => s.id), [saved.id]);
+  });
+
+  it('drops a deleted session from its candidate', async () => {
+    const store = getKitStore();
+    const saved = session('https://unstop.com/u/eli', '2026-02-01T00:00:00.000Z');
+    await store.save(saved);
+    await store.delete(saved.id);
+
+    assert.deepEqual(await store.listForCandidate('https://unstop.com/u/eli'), []);
+    assert.ok(!readdirSync(path.join(dir, 'candidates')).some(file => file.endsWith('.tmp')));
+  });
+
+  it('only accepts UUID session ids', async () => {
+    const store = getKitStore();
+
+    await assert.rejects(store.save({ ...session('', '2026-02-01T00:00:00.000Z'), id: '../escape' }), /Invalid kit session id/);
+    assert.equal(await store.get('../escape'), null);
+  });
+});
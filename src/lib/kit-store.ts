@@ -0,0 +1,232 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { initializeApp, getApps } from 'firebase/app';
+import {
+  collection,
+  connectFirestoreEmulator,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  initializeFirestore,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import type { KitSession, KitSessionSummary } from '@/types/interview-kit';
+
+/**
+ * Storage for interview kit sessions (the kit plus the panel's scores and notes).
+ *
+ * Two backends are available, selected with the KIT_STORE environment variable:
+ * - "file" (default) writes one JSON file per session under KIT_STORE_DIR (default ".data/kits"),
+ *   plus an index of session ids per candidate under its "candidates" directory.
+ * - "firestore" uses Cloud Firestore. Set FIREBASE_PROJECT_ID, plus FIREBASE_API_KEY for a live
+ *   project or FIRESTORE_EMULATOR_HOST (e.g. "localhost:8080") for the local emulator.
+ */
+export interface KitStore {
+  get(id: string): Promise<KitSession | null>;
+  save(session: KitSession): Promise<void>;
+  list(max: number): Promise<KitSessionSummary[]>;
+  /** All sessions for the candidate with this Unstop profile link, most recent first. */
+  listForCandidate(unstopProfileLink: string): Promise<KitSession[]>;
+  delete(id: string): Promise<void>;
+}
+
+const toSummary = ({ id, title, createdAt, updatedAt, candidateResumeFileName }: KitSession): KitSessionSummary => ({
+  id,
+  title,
+  createdAt,
+  updatedAt,
+  ...(candidateResumeFileName ? { candidateResumeFileName } : {}),
+});
+
+// Session ids come from the client, so only accept the UUIDs the flows generate.
+const isValidId = (id: string) => /^[0-9a-f-]{36}$/i.test(id);
+
+function createFileKitStore(dir: string): KitStore {
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+  const candidatesDir = path.join(dir, 'candidates');
+  // Profile links are arbitrary text, so the index file is named after a hash of the link.
+  const indexFileFor = (unstopProfileLink: string) =>
+    path.join(candidatesDir, `${createHash('sha256').update(unstopProfileLink).digest('hex')}.json`);
+
+  // Write to a temporary file first so a crash mid-write never leaves a truncated file. Each write
+  // has its own temporary file, so two writes of the same file cannot rename each other's.
+  const writeJson = async (file: string, value: unknown) => {
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(value), 'utf8');
+    await fs.rename(tmp, file);
+  };
+
+  const readSession = async (file: string): Promise<KitSession | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as KitSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const readAll = async (): Promise<KitSession[]> => {
+    let files: string[];
+    try {
+      files = (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const sessions = await Promise.all(files.map(f => readSession(path.join(dir, f))));
+    return sessions
+      .filter((s): s is KitSession => s !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  };
+
+  const readIndex = async (unstopProfileLink: string): Promise<string[]> => {
+    try {
+      return JSON.parse(await fs.readFile(indexFileFor(unstopProfileLink), 'utf8')) as string[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  // Updates of one index run one after another, so concurrent saves never read the same ids and
+  // overwrite each other's change. The chain of each index is dropped once it has run out.
+  const indexUpdates = new Map<string, Promise<void>>();
+  const updateIndex = (unstopProfileLink: string, update: (ids: string[]) => string[]): Promise<void> => {
+    if (!unstopProfileLink) return Promise.resolve();
+    const file = indexFileFor(unstopProfileLink);
+    const run = (indexUpdates.get(file) ?? Promise.resolve()).catch(() => {}).then(async () => {
+      const ids = update(await readIndex(unstopProfileLink));
+      if (ids.length > 0) {
+        await writeJson(file, ids);
+      } else {
+        await fs.rm(file, { force: true });
+      }
+    });
+    indexUpdates.set(file, run);
+    const forget = () => {
+      if (indexUpdates.get(file) === run) indexUpdates.delete(file);
+    };
+    run.then(forget, forget);
+    return run;
+  };
+
+  // Sessions saved before the index existed are indexed once, the first time a candidate is looked up.
+  let indexReady: Promise<void> | undefined;
+  const ensureIndex = () => {
+    indexReady ??= fs.access(candidatesDir).catch(async () => {
+      const byCandidate = new Map<string, string[]>();
+      (await readAll()).forEach(s => byCandidate.set(s.unstopProfileLink, [...(byCandidate.get(s.unstopProfileLink) ?? []), s.id]));
+      for (const [unstopProfileLink, ids] of byCandidate) {
+        await updateIndex(unstopProfileLink, () => ids);
+      }
+      await fs.mkdir(candidatesDir, { recursive: true });
+    }).catch(error => {
+      // Try again on the next call rather than failing every call from now on.
+      indexReady = undefined;
+      throw error;
+    });
+    return indexReady;
+  };
+
+  return {
+    async get(id) {
+      return isValidId(id) ? readSession(fileFor(id)) : null;
+    },
+    async save(session) {
+      if (!isValidId(session.id)) throw new Error(`Invalid kit session id: ${session.id}`);
+      await ensureIndex();
+      const previous = await readSession(fileFor(session.id));
+      await writeJson(fileFor(session.id), session);
+      if (previous?.unstopProfileLink !== session.unstopProfileLink) {
+        if (previous) await updateIndex(previous.unstopProfileLink, ids => ids.filter(id => id !== session.id));
+        await updateIndex(session.unstopProfileLink, ids => (ids.includes(session.id) ? ids : [...ids, session.id]));
+      }
+    },
+    async list(max) {
+      return (await readAll()).slice(0, max).map(toSummary);
+    },
+    async listForCandidate(unstopProfileLink) {
+      await ensureIndex();
+      const sessions = await Promise.all((await readIndex(unstopProfileLink)).map(id => readSession(fileFor(id))));
+      return sessions
+        .filter((s): s is KitSession => s?.unstopProfileLink === unstopProfileLink)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+    async delete(id) {
+      if (!isValidId(id)) return;
+      await ensureIndex();
+      const session = await readSession(fileFor(id));
+      await fs.rm(fileFor(id), { force: true });
+      if (session) await updateIndex(session.unstopProfileLink, ids => ids.filter(other => other !== id));
+    },
+  };
+}
+
+const KIT_SESSIONS_COLLECTION = 'kitSessions';
+
+function createFirestoreKitStore(db: Firestore): KitStore {
+  const sessions = collection(db, KIT_SESSIONS_COLLECTION);
+
+  return {
+    async get(id) {
+      if (!isValidId(id)) return null;
+      const snapshot = await getDoc(doc(sessions, id));
+      return snapshot.exists() ? (snapshot.data() as KitSession) : null;
+    },
+    async save(session) {
+      if (!isValidId(session.id)) throw new Error(`Invalid kit session id: ${session.id}`);
+      await setDoc(doc(sessions, session.id), session);
+    },
+    async list(max) {
+      const snapshot = await getDocs(query(sessions, orderBy('updatedAt', 'desc'), limit(max)));
+      return snapshot.docs.map(d => toSummary(d.data() as KitSession));
+    },
+    async listForCandidate(unstopProfileLink) {
+      // Sorted here rather than in the query, which would need a composite index.
+      const snapshot = await getDocs(query(sessions, where('unstopProfileLink', '==', unstopProfileLink)));
+      return snapshot.docs
+        .map(d => d.data() as KitSession)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+    async delete(id) {
+      if (!isValidId(id)) return;
+      await deleteDoc(doc(sessions, id));
+    },
+  };
+}
+
+function createFirestore(): Firestore {
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID must be set when KIT_STORE=firestore.');
+  }
+  const app = getApps()[0] ?? initializeApp({ projectId, apiKey: process.env.FIREBASE_API_KEY });
+  // Firestore rejects undefined fields, and optional fields such as an unset score are common here.
+  const db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+  }
+  return db;
+}
+
+let kitStore: KitStore | undefined;
+
+export function getKitStore(): KitStore {
+  if (!kitStore) {
+    kitStore = process.env.KIT_STORE === 'firestore'
+      ? createFirestoreKitStore(createFirestore())
+      : createFileKitStore(path.resolve(process.env.KIT_STORE_DIR || '.data/kits'));
+  }
+  return kitStore;
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clusterSimilarQuestions, findSimilarQuestions, questionTerms } from '@/lib/question-similarity';
+
+describe('questionTerms', () => {
+  it('drops stop words and stems the rest, keeping C++ and C# apart', () => {
+    assert.deepEqual(questionTerms('How do indexes help slow queries?'), ['index', 'help', 'slow', 'query']);
+    assert.deepEqual(questionTerms('Compare C++ and C# memory management'), ['compare', 'c++', 'c#', 'memory', 'management']);
+  });
+});
+
+describe('clusterSimilarQuestions', () => {
+  it('groups questions on the same concept, first question first, and leaves the others out', () => {
+    const clusters = clusterSimilarQuestions([
+      'What is the difference between a LEFT JOIN and an INNER JOIN?',
+      'How does Kafka guarantee ordering within a partition?',
+      'Explain how an INNER JOIN differs from a LEFT JOIN.',
+      'How would you design a rate limiter for a public API?',
+    ]);
+
+    assert.deepEqual(clusters, [[0, 2]]);
+  });
+
+  it('finds no clusters among unrelated questions', () => {
+    assert.deepEqual(clusterSimilarQuestions(['Why use Redis?', 'What is a Kubernetes pod?', 'How does TCP slow start work?']), []);
+  });
+});
+
+describe('findSimilarQuestions', () => {
+  it('matches each question to the most similar of the others above the threshold', () => {
+    const matches = findSimilarQuestions(
+      ['How do you find the second highest salary in an employees table?', 'What is eventual consistency?'],
+      ['How does a B-tree index work?', 'Write a query for the second highest salary of the employees.'],
+    );
+
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].index, 0);
+    assert.equal(matches[0].matchIndex, 1);
+    assert.ok(matches[0].similarity >= 0.5);
+  });
+});
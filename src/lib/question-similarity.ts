@@ -0,0 +1,114 @@
+/**
+ * Lexical similarity between interview questions, used to find questions that ask
+ * about the same concept in different words.
+ *
+ * Questions are reduced to stemmed content words and compared by the cosine of
+ * their TF-IDF vectors, with document frequencies taken from the questions being
+ * compared. Words that appear in most of them (e.g. the main language of the role)
+ * therefore count for little, while shared specific terms ("LEFT JOIN", "salary")
+ * count for a lot. Everything runs locally; no embedding service is involved.
+ */
+
+/** Pairs at or above this similarity are treated as asking the same thing. */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.5;
+
+// Phrasing that every kind of question shares and that says nothing about the topic.
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'between', 'but', 'by', 'can', 'could', 'describe',
+  'difference', 'differences', 'differ', 'differs', 'do', 'does', 'example', 'explain', 'for', 'from', 'give', 'given',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'one', 'or', 'should', 'so', 'some', 'such', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'use', 'used', 'using',
+  'versus', 'vs', 'walk', 'was', 'way', 'ways', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why',
+  'will', 'with', 'would', 'write', 'you', 'your',
+]);
+
+// A light suffix stripper: enough to match "indexes"/"index" or "partitioning"/"partition" without a stemming library.
+const stem = (word: string) => {
+  if (word.length <= 4) return word;
+  for (const suffix of ['ing', 'ies', 'es', 'ed', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return suffix === 'ies' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+};
+
+/** The stemmed content words of a question. "+" and "#" are kept so C++ and C# stay distinct from C. */
+export function questionTerms(question: string): string[] {
+  return (question.toLowerCase().match(/[a-z0-9+#]+/g) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+type Vector = Map<string, number>;
+
+function tfIdfVectors(questions: string[]): Vector[] {
+  const terms = questions.map(questionTerms);
+  const documentFrequency = new Map<string, number>();
+  terms.forEach(words => new Set(words).forEach(word => documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)));
+
+  return terms.map(words => {
+    const vector: Vector = new Map();
+    words.forEach(word => vector.set(word, (vector.get(word) ?? 0) + 1));
+    vector.forEach((count, word) => vector.set(word, count * Math.log(1 + questions.length / documentFrequency.get(word)!)));
+    return vector;
+  });
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  a.forEach((weight, word) => { dot += weight * (b.get(word) ?? 0); });
+  const norm = (v: Vector) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Groups questions that are similar to each other, directly or through a chain of
+ * similar questions. Returns the indexes of each group with more than one question,
+ * in question order, so the first index of a group is the question to keep.
+ */
+export function clusterSimilarQuestions(questions: string[], threshold = DUPLICATE_SIMILARITY_THRESHOLD): number[][] {
+  const vectors = tfIdfVectors(questions);
+  const parent = questions.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      if (cosine(vectors[i], vectors[j]) >= threshold) {
+        parent[Math.max(root(i), root(j))] = Math.min(root(i), root(j));
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  questions.forEach((_, i) => clusters.set(root(i), [...(clusters.get(root(i)) ?? []), i]));
+  return Array.from(clusters.values()).filter(cluster => cluster.length > 1);
+}
+
+export interface SimilarQuestionMatch {
+  /** Index into the questions. */
+  index: number;
+  /** Index into the questions they were compared against. */
+  matchIndex: number;
+  similarity: number;
+}
+
+/** For each question, the most similar of the other questions if it reaches the threshold. */
+export function findSimilarQuestions(
+  questions: string[],
+  others: string[],
+  threshold = DUPLICATE_SIMILARITY_THRESHOLD
+): SimilarQuestionMatch[] {
+  const vectors = tfIdfVectors([...questions, ...others]);
+  return questions.flatMap((_, index) => {
+    let best: SimilarQuestionMatch | undefined;
+    others.forEach((_, matchIndex) => {
+      const similarity = cosine(vectors[index], vectors[questions.length + matchIndex]);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { index, matchIndex, similarity };
+      }
+    });
+    return best ? [best] : [];
+  });
+}
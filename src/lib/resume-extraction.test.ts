@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import PDFDocument from 'pdfkit';
+import { cleanResumeText, extractResumeText, resolveResumeContext } from '@/lib/resume-extraction';
+
+const PDF = 'application/pdf';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const dataUri = (mimeType: string, buffer: Buffer) => `data:${mimeType};base64,${buffer.toString('base64')}`;
+
+function pdfResume(lines: string[]): Promise<Buffer> {
+  const doc = new PDFDocument();
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>(resolve => doc.on('end', () => resolve(Buffer.concat(chunks))));
+  doc.on('data', chunk => chunks.push(chunk));
+  lines.forEach(line => doc.text(line));
+  doc.end();
+  return done;
+}
+
+const docxResume = () => Packer.toBuffer(new Document({
+  sections: [{
+    children: [
+      new Paragraph({ text: 'Priya Sharma', heading: HeadingLevel.TITLE }),
+      new Paragraph({ text: 'Experience', heading: HeadingLevel.HEADING_1 }),
+      new Paragraph({ text: 'Built a Kafka ingestion pipeline handling 2M events a day.', bullet: { level: 0 } }),
+      new Paragraph({ text: 'Cut PostgreSQL query latency by 40% with partial indexes.', bullet: { level: 0 } }),
+      new Paragraph({ children: [new TextRun('Backend engineer at Acme Payments since 2021.')] }),
+    ],
+  }],
+}));
+
+const resumeLines = [
+  'Priya Sharma',
+  'Experience',
+  '• Built a Kafka ingestion pipeline handling 2M events a day.',
+  '• Cut PostgreSQL query latency by 40% with partial indexes.',
+  'Page 1 of 1',
+];
+
+describe('cleanResumeText', () => {
+  it('turns bullet glyphs into list items and section titles into headings, dropping page numbers', () => {
+    assert.equal(cleanResumeText(resumeLines.join('\n')), [
+      'Priya Sharma',
+      '## Experience',
+      '- Built a Kafka ingestion pipeline handling 2M events a day.',
+      '- Cut PostgreSQL query latency by 40% with partial indexes.',
+    ].join('\n'));
+  });
+});
+
+describe('extractResumeText', () => {
+  it('extracts the text of a PDF', async () => {
+    const text = await extractResumeText(dataUri(PDF, await pdfResume(resumeLines)), 'resume.pdf');
+
+    assert.match(text ?? '', /## Experience/);
+    assert.match(text ?? '', /- Built a Kafka ingestion pipeline handling 2M events a day\./);
+    assert.ok(!text?.includes('Page 1 of 1'));
+  });
+
+  it('extracts the text of a DOCX, keeping headings and list items', async () => {
+    const text = await extractResumeText(dataUri(DOCX, await docxResume()), 'resume.docx');
+
+    assert.match(text ?? '', /## Experience/);
+    assert.match(text ?? '', /- Cut PostgreSQL query latency by 40% with partial indexes\./);
+    assert.match(text ?? '', /Backend engineer at Acme Payments since 2021\./);
+  });
+
+  it('recognises a PDF sent without a MIME type', async () => {
+    const text = await extractResumeText(dataUri('application/octet-stream', await pdfResume(resumeLines)));
+
+    assert.match(text ?? '', /PostgreSQL/);
+  });
+
+  it('returns null for unsupported files, unparseable files and files with too little text', async () => {
+    assert.equal(await extractResumeText(dataUri('image/png', Buffer.from('not a resume')), 'resume.png'), null);
+    assert.equal(await extractResumeText(dataUri(DOCX, Buffer.from('not a zip')), 'resume.docx'), null);
+    assert.equal(await extractResumeText(dataUri(PDF, await pdfResume(['Priya Sharma'])), 'resume.pdf'), null);
+    assert.equal(await extractResumeText('not a data URI'), null);
+  });
+});
+
+describe('resolveResumeContext', () => {
+  it('uses resume text that was pasted in as is', async () => {
+    const context = await resolveResumeContext({ candidateResumeText: 'Pasted resume.', candidateResumeDataUri: dataUri(PDF, Buffer.from('')) });
+
+    assert.deepEqual(context, { candidateResumeText: 'Pasted resume.', candidateResumeDataUri: undefined });
+  });
+
+  it('sends the extracted text instead of the file', async () => {
+    const context = await resolveResumeContext({ candidateResumeDataUri: dataUri(DOCX, await docxResume()), candidateResumeFileName: 'resume.docx' });
+
+    assert.match(context.candidateResumeText ?? '', /Kafka ingestion pipeline/);
+    assert.equal(context.candidateResumeDataUri, undefined);
+  });
+
+  it('falls back to sending the file as media when no text can be extracted', async () => {
+    const scan = dataUri('image/png', Buffer.from('a scanned resume'));
+
+    assert.deepEqual(await resolveResumeContext({ candidateResumeDataUri: scan, candidateResumeFileName: 'resume.png' }), { candidateResumeDataUri: scan });
+  });
+
+  it('has no resume context without a resume', async () => {
+    assert.deepEqual(await resolveResumeContext({}), {});
+  });
+});
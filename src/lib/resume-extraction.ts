@@ -0,0 +1,178 @@
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { PDFParse } from 'pdf-parse';
+
+/**
+ * Local, deterministic resume text extraction for PDF, DOCX and legacy DOC files.
+ *
+ * The extracted text keeps the structure that matters for interview questions:
+ * section headings become "## Heading", list items become "- item" (indented
+ * for nested lists) and hyperlinks are kept as "[text](url)".
+ */
+
+const MIN_EXTRACTED_LENGTH = 50;
+
+type ResumeFormat = 'pdf' | 'docx' | 'doc';
+
+const mimeTypeFormats: Record<string, ResumeFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+};
+
+// Common resume section titles, used to recognise headings in formats without heading styles.
+const SECTION_HEADINGS = [
+  'summary', 'profile', 'objective', 'about me', 'experience', 'work experience', 'professional experience',
+  'employment history', 'education', 'projects', 'personal projects', 'academic projects', 'skills',
+  'technical skills', 'certifications', 'certificates', 'achievements', 'awards', 'publications',
+  'internships', 'languages', 'interests', 'activities', 'extracurricular activities', 'volunteering',
+];
+
+const BULLET_GLYPHS = /^[•●▪■◦○‣∙·*–—]\s*/;
+
+function parseDataUri(dataUri: string): { mimeType: string; buffer: Buffer } | null {
+  const match = dataUri.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/);
+  if (!match) return null;
+  return { mimeType: match[1] ?? '', buffer: Buffer.from(match[2], 'base64') };
+}
+
+function detectFormat(mimeType: string, buffer: Buffer, fileName?: string): ResumeFormat | null {
+  if (mimeTypeFormats[mimeType]) return mimeTypeFormats[mimeType];
+  // Browsers sometimes send an empty or generic MIME type, so fall back to magic bytes and the extension.
+  if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'pdf' || extension === 'docx' || extension === 'doc') return extension;
+  return null;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/** Converts the HTML produced by mammoth into the structured plain text described above. */
+function htmlToText(html: string): string {
+  let listDepth = 0;
+  return decodeEntities(
+    html
+      .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/g, (_, href, text) => {
+        const label = text.replace(/<[^>]+>/g, '').trim();
+        return label && label !== href ? `[${label}](${href})` : href;
+      })
+      .replace(/<h[1-6][^>]*>/g, '\n\n## ')
+      .replace(/<\/h[1-6]>/g, '\n\n')
+      .replace(/<(\/?)(ul|ol)[^>]*>/g, (_, closing) => {
+        listDepth += closing ? -1 : 1;
+        return '\n';
+      })
+      .replace(/<li[^>]*>/g, () => `\n${'  '.repeat(Math.max(listDepth - 1, 0))}- `)
+      .replace(/<br\s*\/?>/g, '\n')
+      .replace(/<\/(p|tr)>/g, '\n')
+      .replace(/<\/li>/g, '')
+      .replace(/<\/t[dh]>/g, ' | ')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+/** Normalizes raw extracted text: bullets, section headings and whitespace. */
+export function cleanResumeText(text: string): string {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trimEnd());
+
+  const cleaned = lines
+    .filter(line => !/^\s*(page \d+( of \d+)?|-- \d+ of \d+ --)\s*$/i.test(line))
+    .map(line => {
+      const indent = line.match(/^\s*/)![0];
+      // PDF hyperlinks can wrap a whole bullet, e.g. "[• Built X](https://...)".
+      const content = line.trim().replace(/^\[([•●▪■◦○‣∙·*–—])\s*/, '$1 [');
+      if (BULLET_GLYPHS.test(content)) {
+        return `${indent}- ${content.replace(BULLET_GLYPHS, '')}`;
+      }
+      const heading = content.replace(/[:\s]+$/, '');
+      if (SECTION_HEADINGS.includes(heading.toLowerCase())) {
+        return `## ${heading}`;
+      }
+      return line;
+    })
+    .join('\n');
+
+  return cleaned.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+async function extractRawText(format: ResumeFormat, buffer: Buffer): Promise<string> {
+  switch (format) {
+    case 'pdf': {
+      const parser = new PDFParse({ data: new Uint8Array(buffer) });
+      try {
+        const result = await parser.getText({ parseHyperlinks: true });
+        return result.text;
+      } finally {
+        await parser.destroy();
+      }
+    }
+    case 'docx': {
+      const result = await mammoth.convertToHtml({ buffer });
+      return htmlToText(result.value);
+    }
+    case 'doc': {
+      const document = await new WordExtractor().extract(buffer);
+      return [document.getHeaders({ includeFooters: false }), document.getBody(), document.getTextboxes()].join('\n');
+    }
+  }
+}
+
+/**
+ * Extracts clean, structured text from a resume data URI.
+ * Returns null when the format is unsupported, the file cannot be parsed, or too
+ * little text comes out of it (e.g. a scanned PDF), so callers can fall back to
+ * sending the original file to the model.
+ */
+export async function extractResumeText(dataUri: string, fileName?: string): Promise<string | null> {
+  const parsed = parseDataUri(dataUri);
+  if (!parsed) return null;
+
+  const format = detectFormat(parsed.mimeType, parsed.buffer, fileName);
+  if (!format) return null;
+
+  try {
+    const text = cleanResumeText(await extractRawText(format, parsed.buffer));
+    return text.length >= MIN_EXTRACTED_LENGTH ? text : null;
+  } catch (error) {
+    console.warn(`Resume text extraction failed for ${fileName ?? format}:`, error);
+    return null;
+  }
+}
+
+export interface ResumeContext {
+  candidateResumeText?: string;
+  candidateResumeDataUri?: string;
+}
+
+/**
+ * Prefers extracted resume text over the raw file. The data URI is only kept
+ * when there is no text, so the prompt attaches the file as media as a fallback.
+ */
+export async function resolveResumeContext(input: {
+  candidateResumeText?: string;
+  candidateResumeDataUri?: string;
+  candidateResumeFileName?: string;
+}): Promise<ResumeContext> {
+  if (input.candidateResumeText) {
+    return { candidateResumeText: input.candidateResumeText, candidateResumeDataUri: undefined };
+  }
+  if (!input.candidateResumeDataUri) {
+    return {};
+  }
+  const text = await extractResumeText(input.candidateResumeDataUri, input.candidateResumeFileName);
+  return text
+    ? { candidateResumeText: text, candidateResumeDataUri: undefined }
+    : { candidateResumeDataUri: input.candidateResumeDataUri };
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runSqlQueries } from '@/lib/sql-runner';
+
+const setupSql = `
+CREATE TABLE employees (id INTEGER PRIMARY KEY, name TEXT, salary INTEGER);
+INSERT INTO employees VALUES (1, 'Asha', 900), (2, 'Ben', 700), (3, 'Chen', 800);
+`;
+
+describe('runSqlQueries', () => {
+  it('returns the columns and rows of each query, in query order', async () => {
+    const [second, count] = await runSqlQueries(setupSql, [
+      'SELECT name, salary FROM employees ORDER BY salary DESC LIMIT 1 OFFSET 1',
+      'SELECT COUNT(*) AS n FROM employees',
+    ]);
+
+    assert.deepEqual(second, { status: 'ok', columns: ['name', 'salary'], rows: [['Chen', 800]], truncated: false });
+    assert.deepEqual(count, { status: 'ok', columns: ['n'], rows: [[3]], truncated: false });
+  });
+
+  it('runs each query on its own copy of the sample data', async () => {
+    const [, after] = await runSqlQueries(setupSql, [
+      'DELETE FROM employees',
+      'SELECT COUNT(*) FROM employees',
+    ]);
+
+    assert.deepEqual(after.status === 'ok' && after.rows, [[3]]);
+  });
+
+  it('returns the result of the last statement that has columns', async () => {
+    const [result] = await runSqlQueries(setupSql, ["UPDATE employees SET salary = 1000 WHERE name = 'Ben'; SELECT salary FROM employees WHERE name = 'Ben'"]);
+
+    assert.deepEqual(result.status === 'ok' && result.rows, [[1000]]);
+  });
+
+  it('reports errors in the query and in the sample data', async () => {
+    const [query] = await runSqlQueries(setupSql, ['SELECT nope FROM employees']);
+    const [setup] = await runSqlQueries('CREATE TABLE broken (', ['SELECT 1']);
+
+    assert.equal(query.status, 'error');
+    assert.match(setup.status === 'error' ? setup.error : '', /^The sample data could not be created/);
+  });
+
+  it('returns only the first 200 rows of a large result', async () => {
+    const [result] = await runSqlQueries('', ['WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 500) SELECT i FROM n']);
+
+    assert.equal(result.status === 'ok' && result.rows.length, 200);
+    assert.equal(result.status === 'ok' && result.truncated, true);
+  });
+
+  it('stops a query that allocates too much memory', async () => {
+    const [result] = await runSqlQueries('PRAGMA hard_heap_limit = 0;', ['SELECT length(randomblob(100000000))']);
+
+    assert.match(result.status === 'error' ? result.error : '', /out of memory/);
+  });
+
+  it('stops a query that runs too long', async () => {
+    const [result] = await runSqlQueries('', ['WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT COUNT(*) FROM n']);
+
+    assert.match(result.status === 'error' ? result.error : '', /took longer than 3 seconds/);
+  });
+});
@@ -0,0 +1,89 @@
+import { Worker } from 'worker_threads';
+import type { SqlQueryResult } from '@/types/interview-kit';
+
+/**
+ * Runs SQL queries against a question's sample data in an embedded SQLite database (sql.js).
+ *
+ * Every query runs in its own worker thread on a fresh in-memory database built from
+ * the setup statements, so a query that modifies data cannot affect another one. A
+ * worker is terminated when its query exceeds the time limit, and only the first rows
+ * of a result are returned. The worker's JavaScript heap is capped with resource
+ * limits and SQLite's own allocations, which live in WebAssembly memory outside that
+ * heap, with a hard heap limit.
+ */
+
+const TIME_LIMIT_MS = 3000;
+const MAX_ROWS = 200;
+const SQLITE_HEAP_LIMIT_BYTES = 32 * 1024 * 1024;
+const WORKER_RESOURCE_LIMITS = { maxOldGenerationSizeMb: 64, maxYoungGenerationSizeMb: 16, stackSizeMb: 4 };
+
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { setupSql, query, maxRows, heapLimitBytes } = workerData;
+
+const cell = value => (value instanceof Uint8Array ? '<blob ' + value.length + ' bytes>' : value);
+
+function runQuery(SQL) {
+  const db = new SQL.Database();
+  try {
+    // The limit can only be lowered afterwards, so the setup and the query cannot lift it.
+    db.exec('PRAGMA hard_heap_limit = ' + heapLimitBytes);
+    try {
+      db.exec(setupSql);
+    } catch (error) {
+      return { status: 'error', error: 'The sample data could not be created: ' + error.message };
+    }
+    // The last statement that returns columns is the query's result, as in a SQL console.
+    let result = { status: 'ok', columns: [], rows: [], truncated: false };
+    for (const statement of db.iterateStatements(query)) {
+      const columns = statement.getColumnNames();
+      const rows = [];
+      let truncated = false;
+      while (statement.step()) {
+        if (rows.length === maxRows) {
+          truncated = true;
+          break;
+        }
+        rows.push(statement.get().map(cell));
+      }
+      statement.free();
+      if (columns.length > 0) result = { status: 'ok', columns, rows, truncated };
+    }
+    return result;
+  } catch (error) {
+    return { status: 'error', error: error.message };
+  } finally {
+    db.close();
+  }
+}
+
+require('sql.js')().then(SQL => parentPort.postMessage(runQuery(SQL)));
+`;
+
+function runSqlQuery(setupSql: string, query: string): Promise<SqlQueryResult> {
+  return new Promise(resolve => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { setupSql, query, maxRows: MAX_ROWS, heapLimitBytes: SQLITE_HEAP_LIMIT_BYTES },
+      resourceLimits: WORKER_RESOURCE_LIMITS,
+    });
+    const timer = setTimeout(() => {
+      resolve({ status: 'error', error: `The query took longer than ${TIME_LIMIT_MS / 1000} seconds.` });
+      void worker.terminate();
+    }, TIME_LIMIT_MS);
+    worker.once('message', (result: SqlQueryResult) => {
+      clearTimeout(timer);
+      resolve(result);
+      void worker.terminate();
+    });
+    worker.once('error', error => {
+      clearTimeout(timer);
+      resolve({ status: 'error', error: error.message });
+    });
+  });
+}
+
+/** Runs each query against its own copy of the sample data. Results are in query order. */
+export function runSqlQueries(setupSql: string, queries: string[]): Promise<SqlQueryResult[]> {
+  return Promise.all(queries.map(query => runSqlQuery(setupSql, query)));
+}
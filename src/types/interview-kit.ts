@@ -1,6 +1,219 @@
+import type { ReviewCandidateProfileOutput } from '@/ai/flows/review-candidate-profile';
+import type { SummarizeJDOutput } from '@/ai/flows/summarize-jd';
+import type { ProjectSummary } from '@/ai/flows/identify-potential-projects';
+import type { BehavioralQuestion } from '@/ai/flows/generate-behavioral-questions';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionType = 'conceptual' | 'scenario' | 'coding' | 'system_design';
+
+export interface PartialCreditLevel {
+  /** Share of full marks, between 0 and 1. */
+  credit: number;
+  description: string;
+}
+
+export type CodingLanguage = 'javascript' | 'typescript' | 'python';
+
+/** One test of a coding exercise. Arguments and the expected return value are JSON text. */
+export interface CodingTestCase {
+  /** A JSON array holding the arguments of the call. */
+  args: string;
+  expected: string;
+  description?: string;
+}
+
+/** A runnable coding exercise. The tests are hidden from the candidate. */
+export interface CodingExercise {
+  language: CodingLanguage;
+  functionName: string;
+  signature: string;
+  starterCode: string;
+  tests: CodingTestCase[];
+}
+
+export interface CodingTestResult {
+  passed: boolean;
+  /** The actual return value as JSON, when the call returned. */
+  actual?: string;
+  error?: string;
+}
+
+/** The outcome of running a solution against an exercise's tests. Results are in test order. */
+export interface CodeRunResult {
+  /** "timeout" and "error" runs were stopped early; tests without a result did not run. */
+  status: 'completed' | 'timeout' | 'error';
+  results: CodingTestResult[];
+  /** Whatever the solution printed, plus compile or runtime errors outside the tests. */
+  output: string;
+}
+
+/** The sample data a SQL question's model answer and the candidate's query run against. */
+export interface SqlExercise {
+  /** SQLite statements creating and seeding the sample tables. */
+  setupSql: string;
+  /** Whether the model answer ran against the sample data when it was generated. Unset after a manual edit. */
+  verified?: boolean;
+  verificationError?: string;
+}
+
+export type SqlCell = string | number | null;
+
+export type SqlQueryResult =
+  | { status: 'ok'; columns: string[]; rows: SqlCell[][]; truncated: boolean }
+  | { status: 'error'; error: string };
+
+/** The model answer's and the candidate's results on the same sample data. */
+export interface SqlRunComparison {
+  expected: SqlQueryResult;
+  actual: SqlQueryResult;
+  matches: boolean;
+}
+
+export type AnswerReviewIssueKind = 'factual_error' | 'ambiguity' | 'off_jd' | 'other';
+
+/** A second-pass review of a question and its model answer, attached before the kit is shown. */
+export interface AnswerReview {
+  /** Between 0 and 1. */
+  confidence: number;
+  issues: { kind: AnswerReviewIssueKind; description: string }[];
+}
+
+/** One block of a model answer: a code sample, or a point the candidate should make, weighted by importance. */
+export type ModelAnswerBlock =
+  | { type: 'code'; language?: string; source: string; original?: string }
+  | { type: 'point'; text: string; weight: number };
 
 export interface QuestionAnswerPair {
   id: string;
   question: string;
-  modelAnswer: string;
+  modelAnswer: ModelAnswerBlock[];
+  difficulty?: QuestionDifficulty;
+  type?: QuestionType;
+  /** Interviewer-only guidance, never included in candidate-facing exports. */
+  interviewerNote?: string;
+  whatGoodLooksLike?: string;
+  commonMistakes?: string[];
+  partialCreditScale?: PartialCreditLevel[];
+  codingExercise?: CodingExercise;
+  sqlExercise?: SqlExercise;
+  /** Dropped when the question or answer changes, since it no longer applies. */
+  review?: AnswerReview;
+  /** Ids of the kit's JD requirements the question was derived from. */
+  requirementIds?: string[];
+}
+
+export interface Competency {
+  id: string;
+  name: string;
+  description: string;
+  questions: QuestionAnswerPair[];
+}
+
+export interface ScoringCriterion {
+  id: string;
+  criterion: string;
+  description: string;
+  weight: number;
+}
+
+/** A requirement of the job description, with the verbatim JD text it was taken from. */
+export interface JdRequirement {
+  id: string;
+  text: string;
+  quote: string;
+}
+
+export interface InterviewKit {
+  id: string;
+  /** Missing on kits generated before questions were traced back to the JD. */
+  requirements?: JdRequirement[];
+  competencies: Competency[];
+  scoringRubric: ScoringCriterion[];
+  projectDeepDive?: ProjectSummary[];
+  behavioral?: BehavioralQuestion[];
+  /**
+   * The version of every prompt that generated, refined or added to the kit, by prompt name,
+   * e.g. { generateInterviewKit: "v2", reviewModelAnswers: "v1" }. Missing on kits
+   * generated before prompts were versioned.
+   */
+  promptVersions?: Record<string, string>;
+}
+
+/** A question sent by /api/kits/generate while its kit is still being generated. */
+export interface StreamedQuestion {
+  competencyName: string;
+  competencyDescription: string;
+  question: QuestionAnswerPair;
+  /** The JD requirements the question ids refer to, sent with the first question only. */
+  requirements?: JdRequirement[];
+  /** How many questions have been sent so far, this one included. */
+  count: number;
+  /** How many questions the kit was asked for. */
+  total: number;
+}
+
+/** One line of the newline-delimited JSON that /api/kits/generate responds with. */
+export type KitGenerationEvent =
+  | ({ type: 'question' } & StreamedQuestion)
+  | { type: 'kit'; kit: InterviewKit }
+  | { type: 'error'; error: string };
+
+export type ScoreScale = 5 | 10;
+
+/** The recruiter's settings for the shape of a generated kit. Distributions are relative weights. */
+export interface KitSettings {
+  questionCount: number;
+  durationMinutes?: number;
+  difficultyDistribution?: Record<QuestionDifficulty, number>;
+  questionTypeMix?: Record<QuestionType, number>;
+  includeBehavioral?: boolean;
+}
+
+export interface QuestionEvaluation {
+  score?: number;
+  notes: string;
+  checkedPoints: string[];
+}
+
+export interface KitSession {
+  /** The id of the kit, assigned by generateInterviewKit. */
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  jobDescription: string;
+  unstopProfileLink: string;
+  candidateResumeFileName?: string;
+  kit: InterviewKit;
+  evaluations: Record<string, QuestionEvaluation>;
+  /** The panel's score for each rubric criterion, by criterion id. Missing on sessions saved before criteria were scored. */
+  rubricScores?: Record<string, number>;
+  scoreScale: ScoreScale;
+  editedQuestionIds: string[];
+  candidateProfile?: ReviewCandidateProfileOutput;
+  settings?: KitSettings;
+}
+
+export type KitSessionSummary = Pick<KitSession, 'id' | 'title' | 'createdAt' | 'updatedAt' | 'candidateResumeFileName'>;
+
+/** A question of the open kit that the candidate was already asked, or nearly so, in an earlier kit. */
+export interface PreviouslyAskedQuestion {
+  questionId: string;
+  previousQuestion: string;
+  previousKitId: string;
+  previousKitTitle: string;
+  /** When the earlier kit was last updated. */
+  previousKitDate: string;
+  /** Between 0 and 1. */
+  similarity: number;
+}
+
+export type SkillPriority = 'must_have' | 'nice_to_have';
+
+/** The recruiter's edits to a JD analysis before it is used to generate a kit. */
+export interface JdAnalysisSelection {
+  seniorityLevel: SummarizeJDOutput['seniorityLevel'];
+  skills: { name: string; priority: SkillPriority; included: boolean }[];
+  tools: { name: string; included: boolean }[];
 }